@@ -1,7 +1,29 @@
-import React, { useState, useCallback, Suspense, useEffect, useRef, ReactNode, Component } from 'react';
+import React, { useState, useCallback, useMemo, Suspense, useEffect, useRef, ReactNode, Component } from 'react';
 import { useProgress } from '@react-three/drei';
 import Scene from './components/Scene.tsx';
-import { TreeState } from './types.ts';
+import { PhotoItem, TreeState } from './types.ts';
+import { exportScene, importScene, SceneImportError, SCENE_FILE_EXTENSION } from './sceneArchive.ts';
+import { getFileTimestamp, generateSeed, parseSeed, downloadBlob } from './utils.ts';
+import { DEFAULT_SHAPE_ID, getShape, listShapes, registerShape, unregisterShape, createMaskShape, ShapeMask } from './shapes.ts';
+import { DEFAULT_STATE_SEQUENCE, getNextState, getStateDefinition, listStates } from './treeStates.ts';
+import { TransitionController } from './transitionController.ts';
+import { TransitionChime } from './transitionChime.ts';
+import { DEFAULT_THEME_ID, getTheme, listThemes, applyThemeToDocument } from './themes.ts';
+import { CameraPath, CameraKeyframe, CameraCue, CameraPose, Easing, BUILT_IN_PATHS, EASING_LABELS, DEFAULT_KEYFRAME_GAP, getPathDuration, normalizePath, sanitizeCameraPaths } from './cameraPaths.ts';
+import { CameraRig } from './cameraRig.ts';
+import { BackFaceSettings, DEFAULT_BACK_FACE_SETTINGS, BACK_TEMPLATES, BACK_FONTS, BACK_ALIGNS, applyBackTemplate, createBackPhotoUri, sanitizeBackFaceSettings } from './backFace.ts';
+import { TourController, TourSettings, DEFAULT_TOUR_SETTINGS, TOUR_SECONDS_OPTIONS, sanitizeTourSettings } from './tour.ts';
+import { MusicPlayer, MusicPlayerState, MAX_SENSITIVITY } from './musicPlayer.ts';
+import { SoundtrackSettings, SoundtrackSource, DEFAULT_SOUNDTRACK_SETTINGS, BUNDLED_TRACK_OPTIONS, FADE_OUT_OPTIONS, loadSoundtrack, getSoundtrackName, getPlayableDuration, sanitizeSoundtrackSettings } from './soundtrack.ts';
+import { RenderSettings, RenderResult, RENDER_RESOLUTIONS, RENDER_FRAME_RATES, RENDER_DURATIONS, DEFAULT_RENDER_SETTINGS, getFrameCount } from './offlineRender.ts';
+import { RecordingProgress, RecordingResult, RecordingFormat, RecordingError, COUNTDOWN_SECONDS, MAX_DURATION_OPTIONS, RECORDING_FORMATS, getRecordingFormat, getRecordingCrop, formatDuration, formatBytes } from './recording.ts';
+import { TitleCardSettings, RecordingOverlays, DEFAULT_TITLE_CARD_SETTINGS, CARD_FONTS, CARD_SECONDS_OPTIONS, WATERMARK_CORNERS, hasOverlays, sanitizeTitleCardSettings } from './titleCards.ts';
+import { SnapshotSettings, SNAPSHOT_PRESETS, DEFAULT_SNAPSHOT_SETTINGS, MAX_SNAPSHOT_SIDE, MAX_TILE_SIZE, TILE_MARGIN, SnapshotError, planTiles, validateSnapshotSize } from './snapshot.ts';
+import { QualityMode, QualityTier, QUALITY_MODES, getQualityProfile, getInitialTier, isQualityMode, stepTier } from './quality.ts';
+import { rasterizeText, rasterizeImage, MaskError } from './shapeMasks.ts';
+import { Language, Messages, LANGUAGES, MESSAGES, LanguageContext, useMessages, detectLanguage, isLanguage, getLabel, localizeError } from './i18n.ts';
+import { getShortcutAction, stepPhoto } from './shortcuts.ts';
+import { loadScene, savePhotos, updateStoredPhoto, deleteStoredPhoto, savePhotoOrder, clearStoredPhotos, saveBackImage, saveBackText, saveSeed, saveShape, saveStateSequence, saveTheme, saveQuality, saveCameraPaths, saveSoundtrack, saveRecordingLimit, saveRecordingFormat, saveTitleCards, saveLanguage, saveTourSettings, saveBackFace, saveTransitionChime, StoredPhoto, StorageQuotaError } from './storage.ts';
 
 const MAX_PHOTOS = 30;
 // Constants for Frame sizing
@@ -9,13 +31,8 @@ const FRAME_WIDTH = 1.2;
 const STANDARD_ASPECT = 8.9 / 10.8; 
 const STANDARD_HEIGHT = FRAME_WIDTH / STANDARD_ASPECT; // ~1.456
 
-// Photo State Interface
-interface PhotoItem {
-    url: string;
-    height: number;
-}
-
-const processImage = (file: File): Promise<{ url: string; width: number; height: number }> => {
+// blob is what gets persisted; falls back to the original file if canvas encoding fails
+const processImage = (file: File): Promise<{ url: string; blob: Blob; width: number; height: number }> => {
   return new Promise((resolve) => {
     const reader = new FileReader();
     reader.readAsDataURL(file);
@@ -49,81 +66,201 @@ const processImage = (file: File): Promise<{ url: string; width: number; height:
             canvas.toBlob((blob) => {
               if (blob) {
                 const url = URL.createObjectURL(blob);
-                resolve({ url, width, height });
+                resolve({ url, blob, width, height });
               } else {
-                resolve({ url: img.src, width, height });
+                resolve({ url: img.src, blob: file, width, height });
               }
             }, 'image/jpeg', 0.85);
         } else {
-            resolve({ url: img.src, width, height });
+            resolve({ url: img.src, blob: file, width, height });
         }
       };
     };
   });
 };
 
+// Object URLs made by processImage stay alive until revoked; call when a photo leaves the album
+const revokePhotoUrls = (item: PhotoItem) => {
+    if (item.url.startsWith('blob:')) URL.revokeObjectURL(item.url);
+    if (item.backUrl && item.backUrl.startsWith('blob:')) URL.revokeObjectURL(item.backUrl);
+};
+
 const IconUpload = () => (
-    <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="#D4AF37" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <svg className="text-luxury-gold" xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
         <rect x="3" y="3" width="18" height="18" rx="2" ry="2"/>
         <circle cx="8.5" cy="8.5" r="1.5"/>
         <polyline points="21 15 16 10 5 21"/>
     </svg>
 );
 const IconFreeRatio = () => (
-    <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="#D4AF37" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <svg className="text-luxury-gold" xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
         <path d="M15 3h6v6M9 21H3v-6M21 3l-7 7M3 21l7-7"/>
     </svg>
 );
 const IconBackImage = () => (
-    <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="#D4AF37" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <svg className="text-luxury-gold" xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
         <path d="M12 2L2 7l10 5 10-5-10-5zM2 17l10 5 10-5M2 12l10 5 10-5"/>
     </svg>
 );
 const IconTrash = () => (
-    <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="#D4AF37" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="3 6 5 6 21 6"></polyline><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path></svg>
+    <svg className="text-luxury-gold" xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="3 6 5 6 21 6"></polyline><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path></svg>
+);
+const IconAlbum = () => (
+    <svg className="text-luxury-gold" xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <rect x="3" y="3" width="7" height="7"/>
+        <rect x="14" y="3" width="7" height="7"/>
+        <rect x="14" y="14" width="7" height="7"/>
+        <rect x="3" y="14" width="7" height="7"/>
+    </svg>
+);
+const IconTour = () => (
+    <svg className="text-luxury-gold" xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <rect x="2" y="4" width="20" height="16" rx="2"/>
+        <polygon points="10 9 15 12 10 15 10 9"/>
+    </svg>
+);
+const IconReplace = ({ size = 14 }: { size?: number }) => (
+    <svg className="text-luxury-gold" xmlns="http://www.w3.org/2000/svg" width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="23 4 23 10 17 10"></polyline><polyline points="1 20 1 14 7 14"></polyline><path d="M3.51 9a9 9 0 0 1 14.85-3.36L23 10M1 14l4.64 4.36A9 9 0 0 0 20.49 15"></path></svg>
+);
+const IconSeed = ({ size = 16 }: { size?: number }) => (
+    <svg className="text-luxury-gold" xmlns="http://www.w3.org/2000/svg" width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <rect x="3" y="3" width="18" height="18" rx="3"/>
+        <circle cx="8" cy="8" r="1.2" fill="currentColor"/>
+        <circle cx="16" cy="8" r="1.2" fill="currentColor"/>
+        <circle cx="12" cy="12" r="1.2" fill="currentColor"/>
+        <circle cx="8" cy="16" r="1.2" fill="currentColor"/>
+        <circle cx="16" cy="16" r="1.2" fill="currentColor"/>
+    </svg>
+);
+const IconExport = () => (
+    <svg className="text-luxury-gold" xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path><polyline points="7 10 12 15 17 10"></polyline><line x1="12" y1="15" x2="12" y2="3"></line></svg>
+);
+const IconImport = () => (
+    <svg className="text-luxury-gold" xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path><polyline points="17 8 12 3 7 8"></polyline><line x1="12" y1="3" x2="12" y2="15"></line></svg>
+);
+const IconShape = () => (
+    <svg className="text-luxury-gold" xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <path d="M20.84 4.61a5.5 5.5 0 0 0-7.78 0L12 5.67l-1.06-1.06a5.5 5.5 0 0 0-7.78 7.78L12 21.23l8.84-8.84a5.5 5.5 0 0 0 0-7.78z"/>
+    </svg>
+);
+const IconTheme = () => (
+    <svg className="text-luxury-gold" xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <circle cx="12" cy="12" r="10"/>
+        <circle cx="8" cy="10" r="1.5"/>
+        <circle cx="12" cy="7" r="1.5"/>
+        <circle cx="16" cy="10" r="1.5"/>
+        <path d="M12 22a3 3 0 0 1 0-6h2a3 3 0 0 0 3-3"/>
+    </svg>
+);
+const IconQuality = () => (
+    <svg className="text-luxury-gold" xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <path d="M12 14l4-4"/>
+        <path d="M3.34 19a10 10 0 1 1 17.32 0"/>
+    </svg>
+);
+const IconSparkle = ({ size = 16 }: { size?: number }) => (
+    <svg className="text-luxury-gold" xmlns="http://www.w3.org/2000/svg" width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <path d="M12 3l1.9 5.8L20 10l-6.1 1.2L12 17l-1.9-5.8L4 10l6.1-1.2z"/>
+        <path d="M19 17l.7 2.3L22 20l-2.3.7L19 23l-.7-2.3L16 20l2.3-.7z"/>
+    </svg>
 );
 const IconClose = ({ size = 20 }: { size?: number }) => (
-  <svg xmlns="http://www.w3.org/2000/svg" width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="#D4AF37" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
+  <svg className="text-luxury-gold" xmlns="http://www.w3.org/2000/svg" width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
 );
 const IconInfo = ({ size = 16 }: { size?: number }) => (
-  <svg xmlns="http://www.w3.org/2000/svg" width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="#D4AF37" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="10"></circle><line x1="12" y1="16" x2="12" y2="12"></line><line x1="12" y1="8" x2="12.01" y2="8"></line></svg>
+  <svg className="text-luxury-gold" xmlns="http://www.w3.org/2000/svg" width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="10"></circle><line x1="12" y1="16" x2="12" y2="12"></line><line x1="12" y1="8" x2="12.01" y2="8"></line></svg>
 );
 const IconMessage = ({ size = 16 }: { size?: number }) => (
-  <svg xmlns="http://www.w3.org/2000/svg" width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="#D4AF37" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+  <svg className="text-luxury-gold" xmlns="http://www.w3.org/2000/svg" width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
     <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z"></path>
     <line x1="8" y1="9" x2="16" y2="9"></line>
     <line x1="8" y1="13" x2="14" y2="13"></line>
   </svg>
 );
 const IconRecord = ({ isRecording }: { isRecording: boolean }) => (
-    <div className={`w-4 h-4 rounded-full border-2 border-[#D4AF37] flex items-center justify-center transition-all ${isRecording ? 'border-red-500' : ''}`}>
-        <div className={`w-2 h-2 rounded-full transition-all duration-300 ${isRecording ? 'bg-red-500 animate-pulse scale-110' : 'bg-[#D4AF37]'}`} />
+    <div className={`w-4 h-4 rounded-full border-2 border-luxury-gold flex items-center justify-center transition-all ${isRecording ? 'border-red-500' : ''}`}>
+        <div className={`w-2 h-2 rounded-full transition-all duration-300 ${isRecording ? 'bg-red-500 animate-pulse scale-110' : 'bg-luxury-gold'}`} />
     </div>
 );
 const IconChevronLeft = () => (
-  <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="#D4AF37" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="15 18 9 12 15 6"></polyline></svg>
+  <svg className="text-luxury-gold" xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="15 18 9 12 15 6"></polyline></svg>
 );
 const IconChevronRight = () => (
-  <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="#D4AF37" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="9 18 15 12 9 6"></polyline></svg>
+  <svg className="text-luxury-gold" xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="9 18 15 12 9 6"></polyline></svg>
 );
 const IconTree = () => (
-  <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="#D4AF37" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+  <svg className="text-luxury-gold" xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
     <path d="M12 2L3 20h18L12 2z" />
     <path d="M12 4v12" />
     <path d="M7.5 13h9" />
   </svg>
 );
 const IconChaos = () => (
-   <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="#D4AF37" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+   <svg className="text-luxury-gold" xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
      <circle cx="12" cy="12" r="1.5" />
      <path d="M12 7V4M12 20v-3M7 12H4M20 12h-3M15.5 8.5L18 6M6 18l2.5-2.5M8.5 8.5L6 6M18 18l-2.5-2.5" />
    </svg>
 );
+ 
+const IconCamera = ({ size = 16 }: { size?: number }) => (
+    <svg className="text-luxury-gold" xmlns="http://www.w3.org/2000/svg" width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <polygon points="23 7 16 12 23 17 23 7"/>
+        <rect x="1" y="5" width="15" height="14" rx="2" ry="2"/>
+    </svg>
+);
+const IconFilm = ({ size = 16 }: { size?: number }) => (
+    <svg className="text-luxury-gold" xmlns="http://www.w3.org/2000/svg" width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <rect x="2" y="2" width="20" height="20" rx="2.18" ry="2.18"/>
+        <line x1="7" y1="2" x2="7" y2="22"/>
+        <line x1="17" y1="2" x2="17" y2="22"/>
+        <line x1="2" y1="12" x2="22" y2="12"/>
+        <line x1="2" y1="7" x2="7" y2="7"/>
+        <line x1="2" y1="17" x2="7" y2="17"/>
+        <line x1="17" y1="17" x2="22" y2="17"/>
+        <line x1="17" y1="7" x2="22" y2="7"/>
+    </svg>
+);
+const IconMusic = ({ size = 16 }: { size?: number }) => (
+    <svg className="text-luxury-gold" xmlns="http://www.w3.org/2000/svg" width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <path d="M9 18V5l12-2v13"/>
+        <circle cx="6" cy="18" r="3"/>
+        <circle cx="18" cy="16" r="3"/>
+    </svg>
+);
+const IconWave = ({ size = 16 }: { size?: number }) => (
+    <svg className="text-luxury-gold" xmlns="http://www.w3.org/2000/svg" width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <line x1="4" y1="10" x2="4" y2="14"/>
+        <line x1="8" y1="6" x2="8" y2="18"/>
+        <line x1="12" y1="3" x2="12" y2="21"/>
+        <line x1="16" y1="8" x2="16" y2="16"/>
+        <line x1="20" y1="11" x2="20" y2="13"/>
+    </svg>
+);
+const IconSnapshot = ({ size = 16 }: { size?: number }) => (
+    <svg className="text-luxury-gold" xmlns="http://www.w3.org/2000/svg" width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <path d="M23 19a2 2 0 0 1-2 2H3a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h4l2-3h6l2 3h4a2 2 0 0 1 2 2z"/>
+        <circle cx="12" cy="13" r="4"/>
+    </svg>
+);
+const IconLanguage = () => (
+    <svg className="text-luxury-gold" xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <circle cx="12" cy="12" r="10"/>
+        <line x1="2" y1="12" x2="22" y2="12"/>
+        <path d="M12 2a15.3 15.3 0 0 1 4 10 15.3 15.3 0 0 1-4 10 15.3 15.3 0 0 1-4-10 15.3 15.3 0 0 1 4-10z"/>
+    </svg>
+);
+const IconStates = () => (
+   <svg className="text-luxury-gold" xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+     <polygon points="12 2 2 7 12 12 22 7 12 2" />
+     <polyline points="2 17 12 22 22 17" />
+     <polyline points="2 12 12 17 22 12" />
+   </svg>
+);
 
 const IconBethlehemStar = ({ size = 24 }: { size?: number }) => (
-    <svg xmlns="http://www.w3.org/2000/svg" width={size} height={size} viewBox="0 0 100 100" fill="none">
-        <path d="M50 0 C 53 32, 68 47, 100 50 C 68 53, 53 68, 50 100 C 47 68, 32 53, 0 50 C 32 47, 47 32, 50 0 Z" fill="#D4AF37" />
-        <path d="M50 20 L 58 42 L 80 50 L 58 58 L 50 80 L 42 58 L 20 50 L 42 42 Z" fill="#D4AF37" fillOpacity="0.5" />
+    <svg className="text-luxury-gold" xmlns="http://www.w3.org/2000/svg" width={size} height={size} viewBox="0 0 100 100" fill="none">
+        <path d="M50 0 C 53 32, 68 47, 100 50 C 68 53, 53 68, 50 100 C 47 68, 32 53, 0 50 C 32 47, 47 32, 50 0 Z" fill="currentColor" />
+        <path d="M50 20 L 58 42 L 80 50 L 58 58 L 50 80 L 42 58 L 20 50 L 42 42 Z" fill="currentColor" fillOpacity="0.5" />
     </svg>
 );
 
@@ -141,30 +278,222 @@ const Loader = () => {
     return (
         <div 
             className={`fixed inset-0 z-[60] flex flex-col items-center justify-center backdrop-blur-xl transition-opacity duration-700 ease-in-out ${show ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}
-            style={{ background: 'radial-gradient(circle at center, rgba(1, 21, 16, 0.3), rgba(0, 0, 0, 0.6))', opacity: show ? 1 : 0 }}
+            style={{ background: 'radial-gradient(circle at center, color-mix(in srgb, var(--color-luxury-night) 30%, transparent), rgba(0, 0, 0, 0.6))', opacity: show ? 1 : 0 }}
         >
-             <div className="text-luxury-gold animate-star-pulse drop-shadow-[0_0_20px_rgba(212,175,55,1)]">
+             <div className="text-luxury-gold animate-star-pulse drop-shadow-[0_0_20px_var(--color-luxury-gold)]">
                 <IconBethlehemStar size={80} />
              </div>
         </div>
     );
 };
 
-const ProcessingOverlay = ({ isProcessing }: { isProcessing: boolean }) => (
-    <div 
-        className={`fixed inset-0 z-[60] flex flex-col items-center justify-center backdrop-blur-xl transition-opacity duration-500 ease-in-out ${isProcessing ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}
-        style={{ background: 'radial-gradient(circle at center, rgba(1, 21, 16, 0.3), rgba(0, 0, 0, 0.6))', opacity: isProcessing ? 1 : 0 }}
-    >
-        <div className="text-luxury-gold animate-star-pulse drop-shadow-[0_0_25px_rgba(212,175,55,1)]">
-            <IconBethlehemStar size={80} />
+const ProcessingOverlay = ({ isProcessing, progress }: { isProcessing: boolean; progress?: { loaded: number; total: number } | null }) => {
+    const m = useMessages();
+    return (
+        <div 
+            className={`fixed inset-0 z-[60] flex flex-col items-center justify-center backdrop-blur-xl transition-opacity duration-500 ease-in-out ${isProcessing ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}
+            style={{ background: 'radial-gradient(circle at center, color-mix(in srgb, var(--color-luxury-night) 30%, transparent), rgba(0, 0, 0, 0.6))', opacity: isProcessing ? 1 : 0 }}
+        >
+            <div className="text-luxury-gold animate-star-pulse drop-shadow-[0_0_25px_var(--color-luxury-gold)]">
+                <IconBethlehemStar size={80} />
+            </div>
+            {/* Restore progress (only shown while rehydrating a saved album) */}
+            {progress && progress.total > 0 && (
+                <div className="mt-6 text-luxury-gold font-serif text-xs uppercase tracking-[0.3em]">
+                    {m.overlay.restoring} <span className="font-mono tracking-normal">{progress.loaded}/{progress.total}</span>
+                </div>
+            )}
         </div>
-    </div>
-);
+    );
+};
+
+// Blocks the UI while an offline render steps the scene frame by frame
+const RenderOverlay = ({ progress, onCancel }: { progress: { frame: number; total: number } | null; onCancel: () => void }) => {
+    const m = useMessages();
+    return (
+        <div 
+            className={`fixed inset-0 z-[60] flex flex-col items-center justify-center backdrop-blur-xl transition-opacity duration-500 ease-in-out ${progress ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}
+            style={{ background: 'radial-gradient(circle at center, color-mix(in srgb, var(--color-luxury-night) 30%, transparent), rgba(0, 0, 0, 0.6))' }}
+            onClick={e => e.stopPropagation()}
+        >
+            <div className="text-luxury-gold animate-star-pulse drop-shadow-[0_0_25px_var(--color-luxury-gold)]">
+                <IconFilm size={64} />
+            </div>
+            {progress && (
+                <>
+                    <div className="mt-6 text-luxury-gold font-serif text-xs uppercase tracking-[0.3em]">
+                        {m.overlay.rendering} <span className="font-mono tracking-normal">{progress.frame}/{progress.total}</span>
+                    </div>
+                    <div className="mt-3 w-48 h-1 bg-luxury-gold/20 rounded-full overflow-hidden">
+                        <div className="h-full bg-luxury-gold" style={{ width: `${(progress.frame / progress.total) * 100}%` }} />
+                    </div>
+                    <button
+                        onClick={onCancel}
+                        className="mt-6 px-5 py-1.5 border border-luxury-gold/50 text-luxury-gold rounded-full font-serif text-xs hover:bg-luxury-gold/10 transition-colors"
+                    >
+                        {m.common.cancel}
+                    </button>
+                </>
+            )}
+        </div>
+    );
+};
+
+// Outlines the part of the window a recording format keeps, dims the rest, and marks
+// where the platform's own buttons and captions will sit
+const RecordingGuides = ({ format, isRecording }: { format: RecordingFormat | null; isRecording: boolean }) => {
+    const [view, setView] = useState(() => ({ width: window.innerWidth, height: window.innerHeight }));
+
+    useEffect(() => {
+        const handleResize = () => setView({ width: window.innerWidth, height: window.innerHeight });
+        window.addEventListener('resize', handleResize);
+        return () => window.removeEventListener('resize', handleResize);
+    }, []);
+
+    if (!format) return null;
+    const crop = getRecordingCrop(view.width, view.height, format);
+    const { safeArea } = format;
+
+    return (
+        <div className="fixed inset-0 z-[5] pointer-events-none">
+            <div 
+                className={`absolute border ${isRecording ? 'border-red-500/70' : 'border-luxury-gold/70'}`}
+                style={{ left: crop.x, top: crop.y, width: crop.width, height: crop.height, boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.45)' }}
+            >
+                <div 
+                    className="absolute border border-dashed border-white/25"
+                    style={{ top: `${safeArea.top * 100}%`, right: `${safeArea.right * 100}%`, bottom: `${safeArea.bottom * 100}%`, left: `${safeArea.left * 100}%` }}
+                />
+                <span className="absolute top-2 left-3 text-luxury-gold/70 font-mono text-[10px] tracking-widest">
+                    {format.label} · {format.width}×{format.height}
+                </span>
+            </div>
+        </div>
+    );
+};
+
+// Big 3-2-1 before a recording starts; clicking anywhere cancels it
+const CountdownOverlay = ({ count, onCancel }: { count: number | null; onCancel: () => void }) => {
+    const m = useMessages();
+    return (
+        <div 
+            className={`fixed inset-0 z-[60] flex flex-col items-center justify-center transition-opacity duration-300 ${count !== null ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}
+            onClick={e => { e.stopPropagation(); onCancel(); }}
+        >
+            {count !== null && (
+                <>
+                    <div key={count} className="text-luxury-gold font-serif text-[120px] font-bold leading-none animate-pulse drop-shadow-[0_0_40px_var(--color-luxury-gold)]">
+                        {count}
+                    </div>
+                    <div className="mt-6 text-luxury-gold/70 font-serif text-xs tracking-[0.3em]">{m.overlay.countdownHint}</div>
+                </>
+            )}
+        </div>
+    );
+};
+
+// Shown while recording: footage length, encoded size, pause and stop
+const RecordingHud = ({ progress, maxDuration, isPaused, onPause, onResume, onStop }: { progress: RecordingProgress; maxDuration: number | null; isPaused: boolean; onPause: () => void; onResume: () => void; onStop: () => void }) => {
+    const m = useMessages();
+    return (
+        <div className="fixed top-6 right-6 z-[50] flex items-center gap-3 px-4 py-1.5 bg-black/60 backdrop-blur-xl border border-red-500/60 rounded-full" onClick={e => e.stopPropagation()}>
+            <div className={`w-3 h-3 bg-red-500 rounded-full shadow-[0_0_10px_rgba(255,0,0,0.8)] ${isPaused ? 'opacity-40' : 'animate-pulse'}`}></div>
+            <span className="text-red-500 font-mono text-xs tracking-widest uppercase font-bold">{isPaused ? m.overlay.paused : m.overlay.recording}</span>
+            <span className="text-white/80 font-mono text-xs">
+                {formatDuration(progress.elapsed)}{maxDuration !== null && ` / ${formatDuration(maxDuration)}`}
+            </span>
+            <span className="text-white/50 font-mono text-xs">{formatBytes(progress.bytes)}</span>
+            <button onClick={isPaused ? onResume : onPause} className="text-luxury-gold/80 hover:text-luxury-gold font-serif text-xs transition-colors">
+                {isPaused ? m.common.resume : m.common.pause}
+            </button>
+            <button onClick={onStop} className="text-red-500/80 hover:text-red-400 font-serif text-xs transition-colors">
+                {m.common.stop}
+            </button>
+        </div>
+    );
+};
+
+const RecordingPreviewModal = ({ preview, onDownload, onDiscard }: { preview: (RecordingResult & { url: string }) | null; onDownload: () => void; onDiscard: () => void }) => {
+    const m = useMessages();
+    const videoRef = useRef<HTMLVideoElement>(null);
+    return (
+        <div 
+            className={`fixed inset-0 z-[70] flex items-center justify-center bg-black/40 backdrop-blur-md transition-all duration-500 ease-in-out ${preview ? 'opacity-100 pointer-events-auto' : 'opacity-0 pointer-events-none'}`}
+            onClick={e => e.stopPropagation()}
+        >
+            <div 
+                className={`w-[90%] max-w-[560px] border-2 border-luxury-gold rounded-[24px] p-6 relative transition-all duration-500 cubic-bezier(0.34, 1.56, 0.64, 1) text-center ${preview ? 'scale-100 translate-y-0 opacity-100' : 'scale-90 translate-y-8 opacity-0'}`}
+                style={{ 
+                    backgroundColor: 'rgba(255, 255, 255, 0.05)', 
+                    backdropFilter: 'blur(32px) saturate(180%)', 
+                    WebkitBackdropFilter: 'blur(32px) saturate(180%)',
+                    boxShadow: '0 0 50px color-mix(in srgb, var(--color-luxury-gold) 30%, transparent)'
+                }}
+            >
+                <h2 className="text-luxury-gold text-2xl tracking-[0.2em] uppercase font-serif font-extrabold mb-4">{m.recording.previewTitle}</h2>
+                {preview && (
+                    <>
+                        <video ref={videoRef} src={preview.url} controls playsInline className="w-full max-h-[55vh] rounded-xl bg-black" />
+                        <p className="mt-3 text-white/60 font-mono text-xs">
+                            {formatDuration(preview.duration)} · {formatBytes(preview.blob.size)} · {preview.extension.toUpperCase()}
+                        </p>
+                        {preview.markers.length > 0 && (
+                            <div className="mt-3 flex flex-wrap items-center justify-center gap-2">
+                                <span className="text-white/60 font-serif text-xs">{m.recording.markers}</span>
+                                {preview.markers.map((marker, i) => (
+                                    <button
+                                        key={i}
+                                        onClick={() => { if (videoRef.current) videoRef.current.currentTime = marker.time; }}
+                                        className="px-3 py-1 border border-luxury-gold/50 text-luxury-gold rounded-full font-mono text-[10px] hover:bg-luxury-gold/10 transition-colors"
+                                    >
+                                        {formatDuration(marker.time)} {getLabel(m.labels.states, marker.state, getStateDefinition(marker.state).label)}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </>
+                )}
+                <div className="mt-5 flex justify-center gap-3">
+                    <button
+                        onClick={onDiscard}
+                        className="px-6 py-2 border border-luxury-gold/50 text-luxury-gold rounded-full font-serif text-sm hover:bg-luxury-gold/10 transition-colors"
+                    >
+                        {m.recording.discard}
+                    </button>
+                    <button
+                        onClick={onDownload}
+                        className="px-6 py-2 bg-luxury-gold text-black rounded-full font-serif text-sm font-bold hover:bg-luxury-gold-light transition-colors"
+                    >
+                        {m.recording.download}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const NoticeBanner = ({ message, onDismiss }: { message: string | null; onDismiss: () => void }) => {
+    const m = useMessages();
+    return (
+        <div 
+            className={`fixed top-6 left-1/2 -translate-x-1/2 z-[80] w-[90%] max-w-[420px] flex items-start gap-3 px-5 py-3 bg-black/80 backdrop-blur-xl border border-red-500/70 rounded-2xl shadow-[0_0_30px_rgba(255,0,0,0.25)] transition-all duration-500 ${message ? 'opacity-100 translate-y-0' : 'opacity-0 -translate-y-4 pointer-events-none'}`}
+            onClick={e => e.stopPropagation()}
+        >
+            <span role="alert" className="flex-1 text-red-400 font-serif text-xs leading-relaxed">{message}</span>
+            <button onClick={onDismiss} aria-label={m.a11y.dismiss} className="shrink-0 opacity-70 hover:opacity-100 transition-opacity">
+                <IconClose size={16} />
+            </button>
+        </div>
+    );
+};
 
 interface ErrorBoundaryProps { children?: ReactNode; }
 interface ErrorBoundaryState { hasError: boolean; error: string; }
 
 class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
+    static contextType = LanguageContext;
+    declare context: React.ContextType<typeof LanguageContext>;
+
     constructor(props: ErrorBoundaryProps) {
         super(props);
         this.state = { hasError: false, error: '' };
@@ -178,9 +507,9 @@ class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
         if (this.state.hasError) {
             return (
                 <div className="fixed inset-0 z-[100] bg-black flex flex-col items-center justify-center p-8 text-center">
-                    <div className="text-red-500 mb-4 text-xl font-bold">Something went wrong</div>
+                    <div className="text-red-500 mb-4 text-xl font-bold">{this.context.errorScreen.title}</div>
                     <div className="text-gray-400 text-sm font-mono whitespace-pre-wrap">{this.state.error}</div>
-                    <button onClick={() => window.location.reload()} className="mt-6 px-6 py-2 border border-luxury-gold text-luxury-gold rounded-full hover:bg-luxury-gold hover:text-black transition-colors">Reload App</button>
+                    <button onClick={() => window.location.reload()} className="mt-6 px-6 py-2 border border-luxury-gold text-luxury-gold rounded-full hover:bg-luxury-gold hover:text-black transition-colors">{this.context.errorScreen.reload}</button>
                 </div>
             );
         }
@@ -188,58 +517,62 @@ class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
     }
 }
 
-const HelpModal = ({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) => {
+const HelpModal = ({ isOpen, language, onClose, onLanguageChange }: { isOpen: boolean; language: Language; onClose: () => void; onLanguageChange: (language: Language) => void }) => {
+    const m = useMessages();
     return (
         <div 
             className={`fixed inset-0 z-[70] flex items-center justify-center bg-black/40 backdrop-blur-md transition-all duration-500 ease-in-out ${isOpen ? 'opacity-100 pointer-events-auto' : 'opacity-0 pointer-events-none'}`}
             onClick={onClose}
         >
             <div 
-                className={`w-[85%] max-w-[360px] border-2 border-[#D4AF37] rounded-[24px] p-8 relative transition-all duration-500 cubic-bezier(0.34, 1.56, 0.64, 1) text-center ${isOpen ? 'scale-100 translate-y-0 opacity-100' : 'scale-90 translate-y-8 opacity-0'}`}
+                className={`w-[85%] max-w-[360px] border-2 border-luxury-gold rounded-[24px] p-8 relative transition-all duration-500 cubic-bezier(0.34, 1.56, 0.64, 1) text-center ${isOpen ? 'scale-100 translate-y-0 opacity-100' : 'scale-90 translate-y-8 opacity-0'}`}
                 style={{ 
                     backgroundColor: 'rgba(255, 255, 255, 0.05)', 
                     backdropFilter: 'blur(32px) saturate(180%)', 
                     WebkitBackdropFilter: 'blur(32px) saturate(180%)',
-                    boxShadow: '0 0 50px rgba(212, 175, 55, 0.3)'
+                    boxShadow: '0 0 50px color-mix(in srgb, var(--color-luxury-gold) 30%, transparent)'
                 }}
                 onClick={e => e.stopPropagation()}
             >
-                <button onClick={onClose} className="absolute top-5 right-5 text-[#D4AF37]/60 hover:text-[#D4AF37] transition-colors p-2">
+                <button onClick={onClose} aria-label={m.common.close} className="absolute top-5 right-5 text-luxury-gold/60 hover:text-luxury-gold transition-colors p-2">
                     <IconClose size={24} />
                 </button>
                 <div className="flex flex-col items-center mb-8">
-                    <div className="drop-shadow-[0_0_15px_rgba(212,175,55,0.7)]">
+                    <div className="drop-shadow-[0_0_15px_color-mix(in_srgb,var(--color-luxury-gold)_70%,transparent)]">
                         <IconBethlehemStar size={52} />
                     </div>
-                    <h2 className="text-[#D4AF37] text-3xl tracking-[0.3em] uppercase font-serif mt-4 font-extrabold">操作指南</h2>
+                    <h2 className="text-luxury-gold text-3xl tracking-[0.3em] uppercase font-serif mt-4 font-extrabold">{m.help.title}</h2>
                 </div>
                 <div className="space-y-8 text-left font-serif text-white text-sm leading-relaxed">
-                    <div>
-                        <span className="text-[#D4AF37] font-bold block mb-1 tracking-widest uppercase text-xl">长按屏幕</span>
-                        <span className="text-white opacity-100 font-medium">凝聚或打散圣诞树，感受混沌与秩序的交织。</span>
-                    </div>
-                    <div>
-                        <span className="text-[#D4AF37] font-bold block mb-1 tracking-widest uppercase text-xl">录制视频</span>
-                        <span className="text-white opacity-100 font-medium">点击录制按钮开始捕捉 1080p 60fps 画面，再次点击停止并导出 MP4。</span>
-                    </div>
-                    <div>
-                        <span className="text-[#D4AF37] font-bold block mb-1 tracking-widest uppercase text-xl">查看图片</span>
-                        <span className="text-white opacity-100 font-medium">单击相框可聚焦查看细节；再次单击空白处退出。</span>
-                    </div>
-                    <div>
-                        <span className="text-[#D4AF37] font-bold block mb-1 tracking-widest uppercase text-xl">翻转相框</span>
-                        <span className="text-white opacity-100 font-medium">在聚焦状态下，双击相框可翻转查看背面的文字。</span>
-                    </div>
+                    {m.help.sections.map(section => (
+                        <div key={section.title}>
+                            <span className="text-luxury-gold font-bold block mb-1 tracking-widest uppercase text-xl">{section.title}</span>
+                            <span className="text-white opacity-100 font-medium">{section.body}</span>
+                        </div>
+                    ))}
+                </div>
+                <div className="flex items-center justify-center gap-2 mt-8">
+                    <span className="text-white/80 font-serif text-xs">{m.help.language}</span>
+                    {LANGUAGES.map(l => (
+                        <button
+                            key={l.id}
+                            onClick={() => onLanguageChange(l.id)}
+                            className={`px-3 py-1.5 rounded-full font-serif text-xs transition-colors ${language === l.id ? 'bg-luxury-gold text-black font-bold' : 'border border-luxury-gold/50 text-luxury-gold hover:bg-luxury-gold/10'}`}
+                        >
+                            {l.label}
+                        </button>
+                    ))}
                 </div>
-                <div className="mt-10 pt-5 border-t border-[#D4AF37]/40">
-                    <p className="text-[12px] text-[#D4AF37] font-bold italic font-serif tracking-wider drop-shadow-sm">May your holidays be filled with luxury and joy.</p>
+                <div className="mt-6 pt-5 border-t border-luxury-gold/40">
+                    <p className="text-[12px] text-luxury-gold font-bold italic font-serif tracking-wider drop-shadow-sm">{m.help.footer}</p>
                 </div>
             </div>
         </div>
     );
 };
 
-const MessageModal = ({ isOpen, onClose, onConfirm, onClear }: { isOpen: boolean; onClose: () => void; onConfirm: (text: string) => void; onClear: () => void }) => {
+const MessageModal = ({ isOpen, onClose, onConfirm, onClear, onEditDesign }: { isOpen: boolean; onClose: () => void; onConfirm: (text: string) => void; onClear: () => void; onEditDesign: () => void }) => {
+    const m = useMessages();
     const [text, setText] = useState('');
 
     const handleConfirm = () => {
@@ -258,45 +591,49 @@ const MessageModal = ({ isOpen, onClose, onConfirm, onClear }: { isOpen: boolean
             onClick={onClose}
         >
             <div 
-                className={`w-[85%] max-w-[360px] border-2 border-[#D4AF37] rounded-[24px] p-8 relative transition-all duration-500 cubic-bezier(0.34, 1.56, 0.64, 1) text-center ${isOpen ? 'scale-100 translate-y-0 opacity-100' : 'scale-90 translate-y-8 opacity-0'}`}
+                className={`w-[85%] max-w-[360px] border-2 border-luxury-gold rounded-[24px] p-8 relative transition-all duration-500 cubic-bezier(0.34, 1.56, 0.64, 1) text-center ${isOpen ? 'scale-100 translate-y-0 opacity-100' : 'scale-90 translate-y-8 opacity-0'}`}
                 style={{ 
                     backgroundColor: 'rgba(255, 255, 255, 0.05)', 
                     backdropFilter: 'blur(32px) saturate(180%)', 
                     WebkitBackdropFilter: 'blur(32px) saturate(180%)',
-                    boxShadow: '0 0 50px rgba(212, 175, 55, 0.3)'
+                    boxShadow: '0 0 50px color-mix(in srgb, var(--color-luxury-gold) 30%, transparent)'
                 }}
                 onClick={e => e.stopPropagation()}
             >
-                <button onClick={onClose} className="absolute top-5 right-5 text-[#D4AF37]/60 hover:text-[#D4AF37] transition-colors p-2">
+                <button onClick={onClose} aria-label={m.common.close} className="absolute top-5 right-5 text-luxury-gold/60 hover:text-luxury-gold transition-colors p-2">
                     <IconClose size={24} />
                 </button>
                 <div className="flex flex-col items-center mb-6">
-                    <h2 className="text-[#D4AF37] text-2xl tracking-[0.2em] uppercase font-serif font-extrabold">定制寄语</h2>
-                    <p className="text-white/60 text-xs font-serif mt-2">Custom Message</p>
+                    <h2 className="text-luxury-gold text-2xl tracking-[0.2em] uppercase font-serif font-extrabold">{m.message.title}</h2>
+                    <p className="text-white/60 text-xs font-serif mt-2">{m.message.subtitle}</p>
                 </div>
                 
                 <textarea
                     value={text}
                     onChange={(e) => setText(e.target.value)}
-                    placeholder="在此输入您的祝福语..."
+                    placeholder={m.message.placeholder}
                     maxLength={140}
                     rows={4}
-                    className="w-full bg-black/30 border border-[#D4AF37]/50 rounded-lg p-3 text-white font-serif placeholder-white/30 focus:outline-none focus:border-[#D4AF37] focus:ring-1 focus:ring-[#D4AF37] mb-6 resize-none"
+                    className="w-full bg-black/30 border border-luxury-gold/50 rounded-lg p-3 text-white font-serif placeholder-white/30 focus:outline-none focus:border-luxury-gold focus:ring-1 focus:ring-luxury-gold mb-4 resize-none"
                     style={{ WebkitUserSelect: 'text', userSelect: 'text' }}
                 />
 
+                <button onClick={onEditDesign} className="mb-6 text-luxury-gold font-serif text-sm hover:text-luxury-gold-light transition-colors">
+                    {m.message.design}
+                </button>
+
                 <div className="flex gap-3">
                     <button 
                         onClick={handleClear}
-                        className="flex-1 px-4 py-2 border border-[#D4AF37]/50 text-[#D4AF37] rounded-full font-serif text-sm hover:bg-[#D4AF37]/10 transition-colors"
+                        className="flex-1 px-4 py-2 border border-luxury-gold/50 text-luxury-gold rounded-full font-serif text-sm hover:bg-luxury-gold/10 transition-colors"
                     >
-                        清空恢复
+                        {m.message.reset}
                     </button>
                     <button 
                         onClick={handleConfirm}
-                        className="flex-1 px-4 py-2 bg-[#D4AF37] text-black font-bold rounded-full font-serif text-sm hover:bg-[#FEDC56] transition-colors shadow-[0_0_15px_rgba(212,175,55,0.4)]"
+                        className="flex-1 px-4 py-2 bg-luxury-gold text-black font-bold rounded-full font-serif text-sm hover:bg-luxury-gold-light transition-colors shadow-[0_0_15px_color-mix(in_srgb,var(--color-luxury-gold)_40%,transparent)]"
                     >
-                        确认生成
+                        {m.message.confirm}
                     </button>
                 </div>
             </div>
@@ -304,123 +641,1792 @@ const MessageModal = ({ isOpen, onClose, onConfirm, onClear }: { isOpen: boolean
     );
 };
 
-const App = () => {
-    const [treeState, setTreeState] = useState<TreeState>(TreeState.CHAOS);
-    const [photos, setPhotos] = useState<PhotoItem[]>([]);
-    
-    // Split Back Photo State
-    const [backImgUrl, setBackImgUrl] = useState<string | null>(null);
-    const [backText, setBackText] = useState<string>("Wish you\nwere here.");
+// Template, type and branding of the generated backs; edited as a draft with a live preview
+const BackDesignModal = ({ isOpen, settings, previewText, onClose, onSave }: { isOpen: boolean; settings: BackFaceSettings; previewText: string; onClose: () => void; onSave: (settings: BackFaceSettings) => void }) => {
+    const m = useMessages();
+    const [draft, setDraft] = useState(settings);
 
-    const [isClearing, setIsClearing] = useState(false);
-    const [isHelpOpen, setIsHelpOpen] = useState(false);
-    const [isMessageOpen, setIsMessageOpen] = useState(false);
-    const [isProcessing, setIsProcessing] = useState(false);
-    const [isMenuOpen, setIsMenuOpen] = useState(false);
-    const [isRecording, setIsRecording] = useState(false);
+    // Start from the saved settings each time the modal opens
+    useEffect(() => {
+        if (isOpen) setDraft(settings);
+    }, [isOpen, settings]);
 
-    const pressTimer = useRef<number | null>(null);
-    const startPos = useRef<{ x: number, y: number } | null>(null);
-    const hasMoved = useRef(false);
+    const update = (changes: Partial<BackFaceSettings>) => setDraft(d => ({ ...d, ...changes }));
+    const previewUri = useMemo(() => isOpen ? createBackPhotoUri(previewText, STANDARD_HEIGHT / FRAME_WIDTH, draft) : '', [isOpen, previewText, draft]);
 
-    // Dynamic Document Title
-    useEffect(() => {
-        const focusTitle = "⛄ 圣诞快乐！🎄";
-        const blurTitle = " 🌟Polaroid Grand Luxury Christmas Tree🎁";
+    const optionClass = (active: boolean) =>
+        `px-3 py-1.5 rounded-full font-mono text-xs transition-colors ${active ? 'bg-luxury-gold text-black font-bold' : 'border border-luxury-gold/50 text-luxury-gold hover:bg-luxury-gold/10'}`;
+    const fieldClass = "w-full bg-black/30 border border-luxury-gold/50 rounded-lg p-3 text-white font-serif text-sm placeholder-white/30 focus:outline-none focus:border-luxury-gold focus:ring-1 focus:ring-luxury-gold resize-none";
 
-        const handleFocus = () => { document.title = focusTitle; };
-        const handleBlur = () => { document.title = blurTitle; };
+    return (
+        <div 
+            className={`fixed inset-0 z-[70] flex items-center justify-center bg-black/40 backdrop-blur-md transition-all duration-500 ease-in-out ${isOpen ? 'opacity-100 pointer-events-auto' : 'opacity-0 pointer-events-none'}`}
+            onClick={onClose}
+        >
+            <div 
+                className={`w-[85%] max-w-[400px] max-h-[90vh] overflow-y-auto border-2 border-luxury-gold rounded-[24px] p-8 relative transition-all duration-500 cubic-bezier(0.34, 1.56, 0.64, 1) text-center ${isOpen ? 'scale-100 translate-y-0 opacity-100' : 'scale-90 translate-y-8 opacity-0'}`}
+                style={{ 
+                    backgroundColor: 'rgba(255, 255, 255, 0.05)', 
+                    backdropFilter: 'blur(32px) saturate(180%)', 
+                    WebkitBackdropFilter: 'blur(32px) saturate(180%)',
+                    boxShadow: '0 0 50px color-mix(in srgb, var(--color-luxury-gold) 30%, transparent)'
+                }}
+                onClick={e => e.stopPropagation()}
+            >
+                <button onClick={onClose} aria-label={m.common.close} className="absolute top-5 right-5 text-luxury-gold/60 hover:text-luxury-gold transition-colors p-2">
+                    <IconClose size={24} />
+                </button>
+                <div className="flex flex-col items-center mb-6">
+                    <h2 className="text-luxury-gold text-2xl tracking-[0.2em] uppercase font-serif font-extrabold">{m.backFace.title}</h2>
+                    <p className="text-white/60 text-xs font-serif mt-2">{m.backFace.subtitle}</p>
+                </div>
 
-        window.addEventListener('focus', handleFocus);
-        window.addEventListener('blur', handleBlur);
+                {previewUri && <img src={previewUri} alt="" className="w-32 mx-auto mb-6 rounded shadow-[0_0_20px_rgba(0,0,0,0.6)]" />}
 
-        // Set initial title
-        document.title = document.hasFocus() ? focusTitle : blurTitle;
+                <div className="space-y-4">
+                    <div className="flex flex-wrap justify-center gap-2">
+                        {BACK_TEMPLATES.map(template => (
+                            <button key={template.id} onClick={() => setDraft(d => applyBackTemplate(d, template.id))} className={optionClass(draft.templateId === template.id)}>
+                                {m.backFace.templates[template.id]}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex flex-wrap items-center justify-center gap-2">
+                        <span className="text-white/80 font-serif text-xs">{m.backFace.font}</span>
+                        {BACK_FONTS.map(font => (
+                            <button key={font.id} onClick={() => update({ fontId: font.id })} className={optionClass(draft.fontId === font.id)} style={{ fontFamily: font.family }}>
+                                {m.backFace.fonts[font.id]}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex flex-wrap items-center justify-center gap-4">
+                        <label className="flex items-center gap-2 text-white/80 font-serif text-xs cursor-pointer">
+                            {m.backFace.ink}
+                            <input type="color" value={draft.inkColor} onChange={e => update({ inkColor: e.target.value })} className="w-8 h-6 bg-transparent cursor-pointer" />
+                        </label>
+                        <label className="flex items-center gap-2 text-white/80 font-serif text-xs cursor-pointer">
+                            {m.backFace.paper}
+                            <input type="color" value={draft.paperColor} onChange={e => update({ paperColor: e.target.value })} className="w-8 h-6 bg-transparent cursor-pointer" />
+                        </label>
+                    </div>
+                    <div className="flex flex-wrap items-center justify-center gap-2">
+                        <span className="text-white/80 font-serif text-xs">{m.backFace.align}</span>
+                        {BACK_ALIGNS.map(align => (
+                            <button key={align} onClick={() => update({ align })} className={optionClass(draft.align === align)}>
+                                {m.backFace.aligns[align]}
+                            </button>
+                        ))}
+                    </div>
+                    <input
+                        type="text"
+                        value={draft.signOff}
+                        onChange={e => update({ signOff: e.target.value })}
+                        placeholder={m.backFace.signOffPlaceholder}
+                        maxLength={40}
+                        className={fieldClass}
+                        style={{ WebkitUserSelect: 'text', userSelect: 'text' }}
+                    />
+                    <div className="flex flex-wrap items-center justify-center gap-2">
+                        <label className="flex items-center gap-2 text-white/80 font-serif text-xs cursor-pointer">
+                            <input 
+                                type="checkbox" 
+                                checked={draft.dateStamp !== ''} 
+                                onChange={e => update({ dateStamp: e.target.checked ? new Date().toISOString().slice(0, 10) : '' })} 
+                                className="accent-luxury-gold"
+                            />
+                            {m.backFace.dateStamp}
+                        </label>
+                        {draft.dateStamp && (
+                            <input
+                                type="date"
+                                value={draft.dateStamp}
+                                onChange={e => e.target.value && update({ dateStamp: e.target.value })}
+                                className="bg-black/30 border border-luxury-gold/50 rounded-lg px-2 py-1 text-white font-mono text-xs focus:outline-none focus:border-luxury-gold"
+                            />
+                        )}
+                    </div>
+                    <textarea
+                        value={draft.branding}
+                        onChange={e => update({ branding: e.target.value })}
+                        placeholder={m.backFace.brandingPlaceholder}
+                        maxLength={60}
+                        rows={2}
+                        className={fieldClass}
+                        style={{ WebkitUserSelect: 'text', userSelect: 'text' }}
+                    />
+                    <p className="text-white/50 text-[11px] font-serif">{m.backFace.brandingNote}</p>
+                </div>
 
-        return () => {
-            window.removeEventListener('focus', handleFocus);
-            window.removeEventListener('blur', handleBlur);
-        };
-    }, []);
+                <div className="mt-6 pt-5 border-t border-luxury-gold/40">
+                    <button
+                        onClick={() => onSave(draft)}
+                        className="px-6 py-2 bg-luxury-gold text-black rounded-full font-serif text-sm font-bold hover:bg-luxury-gold-light transition-colors"
+                    >
+                        {m.common.save}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
 
-    const handleStart = useCallback((e: any) => {
-        const clientX = e.touches ? e.touches[0].clientX : e.clientX;
-        const clientY = e.touches ? e.touches[0].clientY : e.clientY;
-        startPos.current = { x: clientX, y: clientY };
-        hasMoved.current = false;
-        pressTimer.current = window.setTimeout(() => {
-            if (!hasMoved.current) {
-                setTreeState(prev => prev === TreeState.CHAOS ? TreeState.FORMED : TreeState.CHAOS);
-            }
-        }, 1800);
-    }, []);
+// Edits the back face of a single (focused) photo; empty text inherits the global message
+const PhotoBackModal = ({ isOpen, photo, defaultText, onClose, onConfirm, onImageUpload, onReset }: { isOpen: boolean; photo: PhotoItem | null; defaultText: string; onClose: () => void; onConfirm: (text: string) => void; onImageUpload: (e: React.ChangeEvent<HTMLInputElement>) => void; onReset: () => void }) => {
+    const m = useMessages();
+    const [text, setText] = useState('');
 
-    const handleMove = useCallback((e: any) => {
-        if (!startPos.current) return;
-        const clientX = e.touches ? e.touches[0].clientX : e.clientX;
-        const clientY = e.touches ? e.touches[0].clientY : e.clientY;
-        const distance = Math.sqrt(Math.pow(clientX - startPos.current.x, 2) + Math.pow(clientY - startPos.current.y, 2));
-        if (distance > 10) {
-            hasMoved.current = true;
-            if (pressTimer.current) { clearTimeout(pressTimer.current); pressTimer.current = null; }
-        }
-    }, []);
+    // Load the photo's current caption each time the modal opens
+    useEffect(() => {
+        if (isOpen) setText(photo?.caption ?? '');
+    }, [isOpen, photo?.id, photo?.caption]);
 
-    const handleEnd = useCallback(() => {
-        startPos.current = null;
-        if (pressTimer.current) { clearTimeout(pressTimer.current); pressTimer.current = null; }
-    }, []);
+    return (
+        <div 
+            className={`fixed inset-0 z-[70] flex items-center justify-center bg-black/40 backdrop-blur-md transition-all duration-500 ease-in-out ${isOpen ? 'opacity-100 pointer-events-auto' : 'opacity-0 pointer-events-none'}`}
+            onClick={onClose}
+        >
+            <div 
+                className={`w-[85%] max-w-[360px] border-2 border-luxury-gold rounded-[24px] p-8 relative transition-all duration-500 cubic-bezier(0.34, 1.56, 0.64, 1) text-center ${isOpen ? 'scale-100 translate-y-0 opacity-100' : 'scale-90 translate-y-8 opacity-0'}`}
+                style={{ 
+                    backgroundColor: 'rgba(255, 255, 255, 0.05)', 
+                    backdropFilter: 'blur(32px) saturate(180%)', 
+                    WebkitBackdropFilter: 'blur(32px) saturate(180%)',
+                    boxShadow: '0 0 50px color-mix(in srgb, var(--color-luxury-gold) 30%, transparent)'
+                }}
+                onClick={e => e.stopPropagation()}
+            >
+                <button onClick={onClose} aria-label={m.common.close} className="absolute top-5 right-5 text-luxury-gold/60 hover:text-luxury-gold transition-colors p-2">
+                    <IconClose size={24} />
+                </button>
+                <div className="flex flex-col items-center mb-6">
+                    <h2 className="text-luxury-gold text-2xl tracking-[0.2em] uppercase font-serif font-extrabold">{m.photoBack.title}</h2>
+                    <p className="text-white/60 text-xs font-serif mt-2">{m.photoBack.subtitle}</p>
+                </div>
 
-    const handleBackgroundClick = useCallback(() => {
-        if (isMenuOpen) setIsMenuOpen(false);
-    }, [isMenuOpen]);
+                {photo?.backUrl && (
+                    <p className="text-white/60 text-xs font-serif mb-3">{m.photoBack.hasImage}</p>
+                )}
+                
+                <textarea
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    placeholder={defaultText || m.photoBack.placeholder}
+                    maxLength={140}
+                    rows={4}
+                    className="w-full bg-black/30 border border-luxury-gold/50 rounded-lg p-3 text-white font-serif placeholder-white/30 focus:outline-none focus:border-luxury-gold focus:ring-1 focus:ring-luxury-gold mb-4 resize-none"
+                    style={{ WebkitUserSelect: 'text', userSelect: 'text' }}
+                />
 
-    const handlePhotoUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
-        const files = e.target.files;
-        if (!files) return;
-        setIsProcessing(true);
-        const newPhotos = [...photos];
-        for (let i = 0; i < files.length; i++) {
-            if (newPhotos.length >= MAX_PHOTOS) break;
-            const { url } = await processImage(files[i]);
-            newPhotos.push({ url, height: STANDARD_HEIGHT });
-        }
-        setPhotos(newPhotos);
-        setIsProcessing(false);
-        e.target.value = '';
-    }, [photos]);
+                <label className="flex items-center justify-center gap-2 mb-6 cursor-pointer text-luxury-gold font-serif text-sm hover:text-luxury-gold-light transition-colors">
+                    <IconBackImage />
+                    <span>{m.photoBack.upload}</span>
+                    <input type="file" accept="image/*" className="hidden" onChange={onImageUpload} />
+                </label>
 
-    const handleFreeRatioUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+                <div className="flex gap-3">
+                    <button 
+                        onClick={onReset}
+                        className="flex-1 px-4 py-2 border border-luxury-gold/50 text-luxury-gold rounded-full font-serif text-sm hover:bg-luxury-gold/10 transition-colors"
+                    >
+                        {m.photoBack.useDefault}
+                    </button>
+                    <button 
+                        onClick={() => onConfirm(text)}
+                        className="flex-1 px-4 py-2 bg-luxury-gold text-black font-bold rounded-full font-serif text-sm hover:bg-luxury-gold-light transition-colors shadow-[0_0_15px_color-mix(in_srgb,var(--color-luxury-gold)_40%,transparent)]"
+                    >
+                        {m.common.save}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// Album manager: drag tiles to reorder (order = spiral slot on the tree), replace or delete single photos
+const PhotoManagerModal = ({ isOpen, photos, removingIds, onClose, onReorder, onReplace, onDelete }: { isOpen: boolean; photos: PhotoItem[]; removingIds: string[]; onClose: () => void; onReorder: (from: number, to: number) => void; onReplace: (id: string, file: File) => void; onDelete: (id: string) => void }) => {
+    const m = useMessages();
+    const [dragIndex, setDragIndex] = useState<number | null>(null);
+    const [overIndex, setOverIndex] = useState<number | null>(null);
+
+    const resetDrag = () => {
+        setDragIndex(null);
+        setOverIndex(null);
+    };
+
+    return (
+        <div 
+            className={`fixed inset-0 z-[70] flex items-center justify-center bg-black/40 backdrop-blur-md transition-all duration-500 ease-in-out ${isOpen ? 'opacity-100 pointer-events-auto' : 'opacity-0 pointer-events-none'}`}
+            onClick={onClose}
+        >
+            <div 
+                className={`w-[90%] max-w-[520px] max-h-[80vh] flex flex-col border-2 border-luxury-gold rounded-[24px] p-6 sm:p-8 relative transition-all duration-500 cubic-bezier(0.34, 1.56, 0.64, 1) text-center ${isOpen ? 'scale-100 translate-y-0 opacity-100' : 'scale-90 translate-y-8 opacity-0'}`}
+                style={{ 
+                    backgroundColor: 'rgba(255, 255, 255, 0.05)', 
+                    backdropFilter: 'blur(32px) saturate(180%)', 
+                    WebkitBackdropFilter: 'blur(32px) saturate(180%)',
+                    boxShadow: '0 0 50px color-mix(in srgb, var(--color-luxury-gold) 30%, transparent)'
+                }}
+                onClick={e => e.stopPropagation()}
+            >
+                <button onClick={onClose} aria-label={m.common.close} className="absolute top-5 right-5 text-luxury-gold/60 hover:text-luxury-gold transition-colors p-2">
+                    <IconClose size={24} />
+                </button>
+                <div className="flex flex-col items-center mb-6">
+                    <h2 className="text-luxury-gold text-2xl tracking-[0.2em] uppercase font-serif font-extrabold">{m.album.title}</h2>
+                    <p className="text-white/60 text-xs font-serif mt-2">{m.album.subtitle}</p>
+                </div>
+
+                {photos.length === 0 ? (
+                    <p className="text-white/60 text-sm font-serif py-8">{m.album.empty}</p>
+                ) : (
+                    <div className="grid grid-cols-3 sm:grid-cols-4 gap-3 overflow-y-auto no-scrollbar p-1">
+                        {photos.map((photo, index) => {
+                            const isRemoving = removingIds.includes(photo.id);
+                            return (
+                                <div
+                                    key={photo.id}
+                                    draggable={!isRemoving}
+                                    onDragStart={(e) => { e.dataTransfer.effectAllowed = 'move'; setDragIndex(index); }}
+                                    onDragOver={(e) => { e.preventDefault(); setOverIndex(index); }}
+                                    onDrop={(e) => {
+                                        e.preventDefault();
+                                        if (dragIndex !== null && dragIndex !== index) onReorder(dragIndex, index);
+                                        resetDrag();
+                                    }}
+                                    onDragEnd={resetDrag}
+                                    className={`relative aspect-square rounded-lg overflow-hidden border cursor-grab active:cursor-grabbing transition-all duration-300 ${overIndex === index && dragIndex !== index ? 'border-luxury-gold-light scale-105' : 'border-luxury-gold/50'} ${dragIndex === index ? 'opacity-40' : ''} ${isRemoving ? 'opacity-0 scale-75' : ''}`}
+                                >
+                                    <img src={photo.url} alt="" className="w-full h-full object-cover" />
+                                    <span className="absolute top-1 left-1 px-1.5 rounded-full bg-black/70 text-luxury-gold font-mono text-[10px]">{index + 1}</span>
+                                    <div className="absolute bottom-1 right-1 flex gap-1">
+                                        <label className="p-1 rounded-full bg-black/70 cursor-pointer hover:bg-black transition-colors">
+                                            <IconReplace size={12} />
+                                            <input 
+                                                type="file" 
+                                                accept="image/*" 
+                                                className="sr-only" 
+                                                aria-label={m.a11y.replacePhoto(index + 1)}
+                                                onChange={(e) => {
+                                                    const file = e.target.files?.[0];
+                                                    if (file) onReplace(photo.id, file);
+                                                    e.target.value = '';
+                                                }} 
+                                            />
+                                        </label>
+                                        <button onClick={() => onDelete(photo.id)} disabled={isRemoving} aria-label={m.a11y.deletePhoto(index + 1)} className="p-1 rounded-full bg-black/70 hover:bg-red-900/80 transition-colors">
+                                            <IconTrash />
+                                        </button>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+// A seed in the page URL (?seed=123) wins over the one saved in this browser
+const getUrlSeed = (): number | null => parseSeed(new URLSearchParams(window.location.search).get('seed'));
+
+const getShareUrl = (seed: number): string => {
+    const url = new URL(window.location.href);
+    url.searchParams.set('seed', String(seed));
+    return url.toString();
+};
+
+// Layout seed: the same seed always builds the same tree
+const SeedModal = ({ isOpen, seed, onClose, onApply }: { isOpen: boolean; seed: number; onClose: () => void; onApply: (seed: number) => void }) => {
+    const m = useMessages();
+    const [value, setValue] = useState('');
+    const [copied, setCopied] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) {
+            setValue(String(seed));
+            setCopied(false);
+        }
+    }, [isOpen, seed]);
+
+    const parsed = parseSeed(value);
+
+    const handleCopy = async () => {
+        if (parsed === null) return;
+        try {
+            await navigator.clipboard.writeText(getShareUrl(parsed));
+            setCopied(true);
+        } catch (err) {
+            console.error("Failed to copy share link:", err);
+        }
+    };
+
+    return (
+        <div 
+            className={`fixed inset-0 z-[70] flex items-center justify-center bg-black/40 backdrop-blur-md transition-all duration-500 ease-in-out ${isOpen ? 'opacity-100 pointer-events-auto' : 'opacity-0 pointer-events-none'}`}
+            onClick={onClose}
+        >
+            <div 
+                className={`w-[85%] max-w-[360px] border-2 border-luxury-gold rounded-[24px] p-8 relative transition-all duration-500 cubic-bezier(0.34, 1.56, 0.64, 1) text-center ${isOpen ? 'scale-100 translate-y-0 opacity-100' : 'scale-90 translate-y-8 opacity-0'}`}
+                style={{ 
+                    backgroundColor: 'rgba(255, 255, 255, 0.05)', 
+                    backdropFilter: 'blur(32px) saturate(180%)', 
+                    WebkitBackdropFilter: 'blur(32px) saturate(180%)',
+                    boxShadow: '0 0 50px color-mix(in srgb, var(--color-luxury-gold) 30%, transparent)'
+                }}
+                onClick={e => e.stopPropagation()}
+            >
+                <button onClick={onClose} aria-label={m.common.close} className="absolute top-5 right-5 text-luxury-gold/60 hover:text-luxury-gold transition-colors p-2">
+                    <IconClose size={24} />
+                </button>
+                <div className="flex flex-col items-center mb-6">
+                    <h2 className="text-luxury-gold text-2xl tracking-[0.2em] uppercase font-serif font-extrabold">{m.seed.title}</h2>
+                    <p className="text-white/60 text-xs font-serif mt-2">{m.seed.subtitle}</p>
+                </div>
+
+                <div className="flex gap-2 mb-3">
+                    <input
+                        value={value}
+                        onChange={(e) => setValue(e.target.value)}
+                        inputMode="numeric"
+                        className="flex-1 min-w-0 bg-black/30 border border-luxury-gold/50 rounded-lg px-3 py-2 text-white font-mono text-center focus:outline-none focus:border-luxury-gold focus:ring-1 focus:ring-luxury-gold"
+                        style={{ WebkitUserSelect: 'text', userSelect: 'text' }}
+                    />
+                    <button 
+                        onClick={() => setValue(String(generateSeed()))}
+                        aria-label={m.a11y.newSeed}
+                        className="px-3 border border-luxury-gold/50 rounded-lg hover:bg-luxury-gold/10 transition-colors"
+                    >
+                        <IconSeed />
+                    </button>
+                </div>
+                <p className={`text-xs font-serif mb-6 h-4 ${parsed === null ? 'text-red-400' : 'text-white/50'}`}>
+                    {parsed === null ? m.seed.invalid : (copied ? m.seed.copied : '')}
+                </p>
+
+                <div className="flex gap-3">
+                    <button 
+                        onClick={handleCopy}
+                        disabled={parsed === null}
+                        className="flex-1 px-4 py-2 border border-luxury-gold/50 text-luxury-gold rounded-full font-serif text-sm hover:bg-luxury-gold/10 transition-colors disabled:opacity-40"
+                    >
+                        {m.seed.copyLink}
+                    </button>
+                    <button 
+                        onClick={() => parsed !== null && onApply(parsed)}
+                        disabled={parsed === null}
+                        className="flex-1 px-4 py-2 bg-luxury-gold text-black font-bold rounded-full font-serif text-sm hover:bg-luxury-gold-light transition-colors shadow-[0_0_15px_color-mix(in_srgb,var(--color-luxury-gold)_40%,transparent)] disabled:opacity-40"
+                    >
+                        {m.seed.apply}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// Personalised reveal: particles assemble into text or an uploaded silhouette
+const CustomShapeModal = ({ isOpen, onClose, onApplyText, onApplyImage }: { isOpen: boolean; onClose: () => void; onApplyText: (text: string, includeOrnaments: boolean) => void; onApplyImage: (file: File, includeOrnaments: boolean) => void }) => {
+    const m = useMessages();
+    const [text, setText] = useState('');
+    const [includeOrnaments, setIncludeOrnaments] = useState(false);
+
+    return (
+        <div 
+            className={`fixed inset-0 z-[70] flex items-center justify-center bg-black/40 backdrop-blur-md transition-all duration-500 ease-in-out ${isOpen ? 'opacity-100 pointer-events-auto' : 'opacity-0 pointer-events-none'}`}
+            onClick={onClose}
+        >
+            <div 
+                className={`w-[85%] max-w-[360px] border-2 border-luxury-gold rounded-[24px] p-8 relative transition-all duration-500 cubic-bezier(0.34, 1.56, 0.64, 1) text-center ${isOpen ? 'scale-100 translate-y-0 opacity-100' : 'scale-90 translate-y-8 opacity-0'}`}
+                style={{ 
+                    backgroundColor: 'rgba(255, 255, 255, 0.05)', 
+                    backdropFilter: 'blur(32px) saturate(180%)', 
+                    WebkitBackdropFilter: 'blur(32px) saturate(180%)',
+                    boxShadow: '0 0 50px color-mix(in srgb, var(--color-luxury-gold) 30%, transparent)'
+                }}
+                onClick={e => e.stopPropagation()}
+            >
+                <button onClick={onClose} aria-label={m.common.close} className="absolute top-5 right-5 text-luxury-gold/60 hover:text-luxury-gold transition-colors p-2">
+                    <IconClose size={24} />
+                </button>
+                <div className="flex flex-col items-center mb-6">
+                    <h2 className="text-luxury-gold text-2xl tracking-[0.2em] uppercase font-serif font-extrabold">{m.customShape.title}</h2>
+                    <p className="text-white/60 text-xs font-serif mt-2">{m.customShape.subtitle}</p>
+                </div>
+
+                <textarea
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    placeholder={"Merry\nChristmas"}
+                    maxLength={40}
+                    rows={2}
+                    className="w-full bg-black/30 border border-luxury-gold/50 rounded-lg p-3 text-white font-serif placeholder-white/30 focus:outline-none focus:border-luxury-gold focus:ring-1 focus:ring-luxury-gold mb-3 resize-none"
+                    style={{ WebkitUserSelect: 'text', userSelect: 'text' }}
+                />
+                <button 
+                    onClick={() => onApplyText(text, includeOrnaments)}
+                    disabled={!text.trim()}
+                    className="w-full mb-4 px-4 py-2 bg-luxury-gold text-black font-bold rounded-full font-serif text-sm hover:bg-luxury-gold-light transition-colors shadow-[0_0_15px_color-mix(in_srgb,var(--color-luxury-gold)_40%,transparent)] disabled:opacity-40"
+                >
+                    {m.customShape.formText}
+                </button>
+
+                <label className="flex items-center justify-center gap-2 w-full mb-6 px-4 py-2 border border-luxury-gold/50 text-luxury-gold rounded-full font-serif text-sm hover:bg-luxury-gold/10 transition-colors cursor-pointer">
+                    <IconBackImage />
+                    <span>{m.customShape.upload}</span>
+                    <input 
+                        type="file" 
+                        accept="image/*,.svg" 
+                        className="hidden" 
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) onApplyImage(file, includeOrnaments);
+                            e.target.value = '';
+                        }} 
+                    />
+                </label>
+
+                <label className="flex items-center justify-center gap-2 text-white/80 font-serif text-xs cursor-pointer">
+                    <input 
+                        type="checkbox" 
+                        checked={includeOrnaments} 
+                        onChange={(e) => setIncludeOrnaments(e.target.checked)} 
+                        className="accent-luxury-gold"
+                    />
+                    {m.customShape.includeOrnaments}
+                </label>
+            </div>
+        </div>
+    );
+};
+
+// Time scales offered for state transitions
+const TRANSITION_SPEEDS = [0.5, 1, 2];
+
+// Jump straight to any state, choose which states FORM / long-press cycle through,
+// and pause or re-time the running transition
+const StatesModal = ({ isOpen, treeState, sequence, hasCustomShape, isPaused, speed, isChimeOn, onClose, onGoTo, onChangeSequence, onTogglePause, onSpeedChange, onChimeChange }: { isOpen: boolean; treeState: TreeState; sequence: TreeState[]; hasCustomShape: boolean; isPaused: boolean; speed: number; isChimeOn: boolean; onClose: () => void; onGoTo: (state: TreeState) => void; onChangeSequence: (sequence: TreeState[]) => void; onTogglePause: () => void; onSpeedChange: (speed: number) => void; onChimeChange: (enabled: boolean) => void }) => {
+    const m = useMessages();
+    const states = listStates().filter(s => s.id !== TreeState.CUSTOM || hasCustomShape);
+
+    const toggleInSequence = (id: TreeState) => {
+        const included = sequence.includes(id);
+        // Keep the cycle in the canonical state order
+        onChangeSequence(listStates()
+            .map(s => s.id)
+            .filter(s => s === id ? !included : sequence.includes(s)));
+    };
+
+    return (
+        <div 
+            className={`fixed inset-0 z-[70] flex items-center justify-center bg-black/40 backdrop-blur-md transition-all duration-500 ease-in-out ${isOpen ? 'opacity-100 pointer-events-auto' : 'opacity-0 pointer-events-none'}`}
+            onClick={onClose}
+        >
+            <div 
+                className={`w-[85%] max-w-[360px] border-2 border-luxury-gold rounded-[24px] p-8 relative transition-all duration-500 cubic-bezier(0.34, 1.56, 0.64, 1) text-center ${isOpen ? 'scale-100 translate-y-0 opacity-100' : 'scale-90 translate-y-8 opacity-0'}`}
+                style={{ 
+                    backgroundColor: 'rgba(255, 255, 255, 0.05)', 
+                    backdropFilter: 'blur(32px) saturate(180%)', 
+                    WebkitBackdropFilter: 'blur(32px) saturate(180%)',
+                    boxShadow: '0 0 50px color-mix(in srgb, var(--color-luxury-gold) 30%, transparent)'
+                }}
+                onClick={e => e.stopPropagation()}
+            >
+                <button onClick={onClose} aria-label={m.common.close} className="absolute top-5 right-5 text-luxury-gold/60 hover:text-luxury-gold transition-colors p-2">
+                    <IconClose size={24} />
+                </button>
+                <div className="flex flex-col items-center mb-6">
+                    <h2 className="text-luxury-gold text-2xl tracking-[0.2em] uppercase font-serif font-extrabold">{m.states.title}</h2>
+                    <p className="text-white/60 text-xs font-serif mt-2">{m.states.subtitle}</p>
+                </div>
+
+                <div className="space-y-2">
+                    {states.map(s => {
+                        const included = sequence.includes(s.id);
+                        return (
+                            <div key={s.id} className="flex items-center gap-3">
+                                <input 
+                                    type="checkbox" 
+                                    checked={included} 
+                                    // A cycle needs at least two states
+                                    disabled={included && sequence.length <= 2}
+                                    onChange={() => toggleInSequence(s.id)} 
+                                    className="accent-luxury-gold disabled:opacity-40"
+                                />
+                                <button
+                                    onClick={() => onGoTo(s.id)}
+                                    className={`flex-1 px-4 py-2 rounded-full font-serif text-sm transition-colors ${treeState === s.id ? 'bg-luxury-gold text-black font-bold' : 'border border-luxury-gold/50 text-luxury-gold hover:bg-luxury-gold/10'}`}
+                                >
+                                    {getLabel(m.labels.states, s.id, s.label)}
+                                </button>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <div className="flex items-center justify-center gap-2 mt-6 pt-5 border-t border-luxury-gold/40">
+                    <button
+                        onClick={onTogglePause}
+                        className="px-4 py-1.5 border border-luxury-gold/50 text-luxury-gold rounded-full font-serif text-xs hover:bg-luxury-gold/10 transition-colors"
+                    >
+                        {isPaused ? m.states.resume : m.states.pause}
+                    </button>
+                    {TRANSITION_SPEEDS.map(s => (
+                        <button
+                            key={s}
+                            onClick={() => onSpeedChange(s)}
+                            className={`px-3 py-1.5 rounded-full font-mono text-xs transition-colors ${speed === s ? 'bg-luxury-gold text-black font-bold' : 'border border-luxury-gold/50 text-luxury-gold hover:bg-luxury-gold/10'}`}
+                        >
+                            {s}×
+                        </button>
+                    ))}
+                </div>
+                <label className="flex items-center justify-center gap-2 mt-4 text-white/80 font-serif text-xs cursor-pointer">
+                    <input 
+                        type="checkbox" 
+                        checked={isChimeOn} 
+                        onChange={e => onChimeChange(e.target.checked)} 
+                        className="accent-luxury-gold"
+                    />
+                    {m.states.chime}
+                </label>
+            </div>
+        </div>
+    );
+};
+
+const RenderModal = ({ isOpen, paths, onClose, onStart }: { isOpen: boolean; paths: CameraPath[]; onClose: () => void; onStart: (settings: RenderSettings, morphOnStart: boolean, path: CameraPath | null) => void }) => {
+    const m = useMessages();
+    const [settings, setSettings] = useState<RenderSettings>(DEFAULT_RENDER_SETTINGS);
+    const [morphOnStart, setMorphOnStart] = useState(true);
+    const [pathId, setPathId] = useState<string | null>(null);
+    const path = paths.find(p => p.id === pathId) ?? null;
+    // A camera path sets the length of the video
+    const effective = path ? { ...settings, duration: getPathDuration(path) } : settings;
+
+    const optionClass = (active: boolean) =>
+        `px-3 py-1.5 rounded-full font-mono text-xs transition-colors ${active ? 'bg-luxury-gold text-black font-bold' : 'border border-luxury-gold/50 text-luxury-gold hover:bg-luxury-gold/10'}`;
+
+    return (
+        <div 
+            className={`fixed inset-0 z-[70] flex items-center justify-center bg-black/40 backdrop-blur-md transition-all duration-500 ease-in-out ${isOpen ? 'opacity-100 pointer-events-auto' : 'opacity-0 pointer-events-none'}`}
+            onClick={onClose}
+        >
+            <div 
+                className={`w-[85%] max-w-[360px] border-2 border-luxury-gold rounded-[24px] p-8 relative transition-all duration-500 cubic-bezier(0.34, 1.56, 0.64, 1) text-center ${isOpen ? 'scale-100 translate-y-0 opacity-100' : 'scale-90 translate-y-8 opacity-0'}`}
+                style={{ 
+                    backgroundColor: 'rgba(255, 255, 255, 0.05)', 
+                    backdropFilter: 'blur(32px) saturate(180%)', 
+                    WebkitBackdropFilter: 'blur(32px) saturate(180%)',
+                    boxShadow: '0 0 50px color-mix(in srgb, var(--color-luxury-gold) 30%, transparent)'
+                }}
+                onClick={e => e.stopPropagation()}
+            >
+                <button onClick={onClose} aria-label={m.common.close} className="absolute top-5 right-5 text-luxury-gold/60 hover:text-luxury-gold transition-colors p-2">
+                    <IconClose size={24} />
+                </button>
+                <div className="flex flex-col items-center mb-6">
+                    <h2 className="text-luxury-gold text-2xl tracking-[0.2em] uppercase font-serif font-extrabold">{m.render.title}</h2>
+                    <p className="text-white/60 text-xs font-serif mt-2">{m.render.subtitle}</p>
+                </div>
+
+                <div className="space-y-4">
+                    <div className="flex flex-wrap justify-center gap-2">
+                        {RENDER_RESOLUTIONS.map(r => (
+                            <button
+                                key={r.label}
+                                onClick={() => setSettings(s => ({ ...s, width: r.width, height: r.height }))}
+                                className={optionClass(settings.width === r.width && settings.height === r.height)}
+                            >
+                                {r.label}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex flex-wrap justify-center gap-2">
+                        {RENDER_FRAME_RATES.map(fps => (
+                            <button key={fps} onClick={() => setSettings(s => ({ ...s, fps }))} className={optionClass(settings.fps === fps)}>
+                                {fps}fps
+                            </button>
+                        ))}
+                    </div>
+                    {!path && (
+                        <div className="flex flex-wrap justify-center gap-2">
+                            {RENDER_DURATIONS.map(duration => (
+                                <button key={duration} onClick={() => setSettings(s => ({ ...s, duration }))} className={optionClass(settings.duration === duration)}>
+                                    {duration}s
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    <div className="flex flex-wrap justify-center gap-2">
+                        <button onClick={() => setPathId(null)} className={optionClass(!path)}>{m.render.freeCamera}</button>
+                        {paths.map(p => (
+                            <button key={p.id} onClick={() => setPathId(p.id)} className={optionClass(path?.id === p.id)}>
+                                {getLabel(m.labels.paths, p.id, p.name)}
+                            </button>
+                        ))}
+                    </div>
+                    <label className="flex items-center justify-center gap-2 text-white/80 font-serif text-xs cursor-pointer">
+                        <input 
+                            type="checkbox" 
+                            checked={morphOnStart} 
+                            onChange={e => setMorphOnStart(e.target.checked)} 
+                            className="accent-luxury-gold"
+                        />
+                        {m.render.morphOnStart}
+                    </label>
+                </div>
+
+                <div className="mt-6 pt-5 border-t border-luxury-gold/40">
+                    <p className="text-white/50 text-[11px] font-serif mb-3">
+                        {m.render.frames(getFrameCount(effective))}
+                    </p>
+                    <button
+                        onClick={() => onStart(effective, morphOnStart, path)}
+                        className="px-6 py-2 bg-luxury-gold text-black rounded-full font-serif text-sm font-bold hover:bg-luxury-gold-light transition-colors"
+                    >
+                        {m.render.start}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const SnapshotModal = ({ isOpen, onClose, onStart }: { isOpen: boolean; onClose: () => void; onStart: (settings: SnapshotSettings) => void }) => {
+    const m = useMessages();
+    const [settings, setSettings] = useState<SnapshotSettings>(DEFAULT_SNAPSHOT_SETTINGS);
+    // Typical tile count; the real split depends on this GPU's limits
+    const tileCount = planTiles(settings.width || 1, settings.height || 1, MAX_TILE_SIZE - 2 * TILE_MARGIN).length;
+
+    const optionClass = (active: boolean) =>
+        `px-3 py-1.5 rounded-full font-mono text-xs transition-colors ${active ? 'bg-luxury-gold text-black font-bold' : 'border border-luxury-gold/50 text-luxury-gold hover:bg-luxury-gold/10'}`;
+    const inputClass = "w-24 bg-black/30 border border-luxury-gold/50 rounded-lg px-2 py-1 text-white font-mono text-xs text-center focus:outline-none focus:border-luxury-gold";
+
+    return (
+        <div 
+            className={`fixed inset-0 z-[70] flex items-center justify-center bg-black/40 backdrop-blur-md transition-all duration-500 ease-in-out ${isOpen ? 'opacity-100 pointer-events-auto' : 'opacity-0 pointer-events-none'}`}
+            onClick={onClose}
+        >
+            <div 
+                className={`w-[85%] max-w-[380px] border-2 border-luxury-gold rounded-[24px] p-8 relative transition-all duration-500 cubic-bezier(0.34, 1.56, 0.64, 1) text-center ${isOpen ? 'scale-100 translate-y-0 opacity-100' : 'scale-90 translate-y-8 opacity-0'}`}
+                style={{ 
+                    backgroundColor: 'rgba(255, 255, 255, 0.05)', 
+                    backdropFilter: 'blur(32px) saturate(180%)', 
+                    WebkitBackdropFilter: 'blur(32px) saturate(180%)',
+                    boxShadow: '0 0 50px color-mix(in srgb, var(--color-luxury-gold) 30%, transparent)'
+                }}
+                onClick={e => e.stopPropagation()}
+            >
+                <button onClick={onClose} aria-label={m.common.close} className="absolute top-5 right-5 text-luxury-gold/60 hover:text-luxury-gold transition-colors p-2">
+                    <IconClose size={24} />
+                </button>
+                <div className="flex flex-col items-center mb-6">
+                    <h2 className="text-luxury-gold text-2xl tracking-[0.2em] uppercase font-serif font-extrabold">{m.snapshot.title}</h2>
+                    <p className="text-white/60 text-xs font-serif mt-2">{m.snapshot.subtitle}</p>
+                </div>
+
+                <div className="space-y-4">
+                    <div className="flex flex-wrap justify-center gap-2">
+                        {SNAPSHOT_PRESETS.map(preset => (
+                            <button
+                                key={preset.label}
+                                onClick={() => setSettings(s => ({ ...s, width: preset.width, height: preset.height }))}
+                                className={optionClass(settings.width === preset.width && settings.height === preset.height)}
+                            >
+                                {getLabel(m.labels.snapshotPresets, preset.label, preset.label)}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex items-center justify-center gap-2 text-white/60 font-mono text-xs">
+                        <input 
+                            type="number" 
+                            min={1} 
+                            max={MAX_SNAPSHOT_SIDE} 
+                            value={settings.width || ''} 
+                            onChange={e => setSettings(s => ({ ...s, width: Math.round(Number(e.target.value)) }))} 
+                            className={inputClass}
+                        />
+                        ×
+                        <input 
+                            type="number" 
+                            min={1} 
+                            max={MAX_SNAPSHOT_SIDE} 
+                            value={settings.height || ''} 
+                            onChange={e => setSettings(s => ({ ...s, height: Math.round(Number(e.target.value)) }))} 
+                            className={inputClass}
+                        />
+                    </div>
+                    <label className="flex items-center justify-center gap-2 text-white/80 font-serif text-xs cursor-pointer">
+                        <input 
+                            type="checkbox" 
+                            checked={settings.transparent} 
+                            onChange={e => setSettings(s => ({ ...s, transparent: e.target.checked }))} 
+                            className="accent-luxury-gold"
+                        />
+                        {m.snapshot.transparent}
+                    </label>
+                </div>
+
+                <div className="mt-6 pt-5 border-t border-luxury-gold/40">
+                    <p className="text-white/50 text-[11px] font-serif mb-3">
+                        {m.snapshot.note(tileCount)}
+                    </p>
+                    <button
+                        onClick={() => onStart(settings)}
+                        className="px-6 py-2 bg-luxury-gold text-black rounded-full font-serif text-sm font-bold hover:bg-luxury-gold-light transition-colors"
+                    >
+                        {m.snapshot.start}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// Bundled tracks are named in the current language; local files keep their file name
+const getTrackLabel = (m: Messages, source: SoundtrackSource): string =>
+    source.kind === 'bundled' ? getLabel(m.labels.tracks, source.id, getSoundtrackName(source)) : getSoundtrackName(source);
+
+const RecordingModal = ({ isOpen, format, maxDuration, titleCards, settings, buffer, isLoading, onClose, onFormatChange, onMaxDurationChange, onEditTitleCards, onChange }: { isOpen: boolean; format: RecordingFormat | null; maxDuration: number | null; titleCards: TitleCardSettings; settings: SoundtrackSettings; buffer: AudioBuffer | null; isLoading: boolean; onClose: () => void; onFormatChange: (formatId: string | null) => void; onMaxDurationChange: (seconds: number | null) => void; onEditTitleCards: () => void; onChange: (settings: SoundtrackSettings) => void }) => {
+    const m = useMessages();
+    const { source } = settings;
+    const update = (changes: Partial<SoundtrackSettings>) => onChange({ ...settings, ...changes });
+
+    const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) update({ source: { kind: 'file', name: file.name, file }, trimStart: 0 });
+    };
+
+    const optionClass = (active: boolean) =>
+        `px-3 py-1.5 rounded-full font-mono text-xs transition-colors ${active ? 'bg-luxury-gold text-black font-bold' : 'border border-luxury-gold/50 text-luxury-gold hover:bg-luxury-gold/10'}`;
+
+    return (
+        <div 
+            className={`fixed inset-0 z-[70] flex items-center justify-center bg-black/40 backdrop-blur-md transition-all duration-500 ease-in-out ${isOpen ? 'opacity-100 pointer-events-auto' : 'opacity-0 pointer-events-none'}`}
+            onClick={onClose}
+        >
+            <div 
+                className={`w-[85%] max-w-[380px] border-2 border-luxury-gold rounded-[24px] p-8 relative transition-all duration-500 cubic-bezier(0.34, 1.56, 0.64, 1) text-center ${isOpen ? 'scale-100 translate-y-0 opacity-100' : 'scale-90 translate-y-8 opacity-0'}`}
+                style={{ 
+                    backgroundColor: 'rgba(255, 255, 255, 0.05)', 
+                    backdropFilter: 'blur(32px) saturate(180%)', 
+                    WebkitBackdropFilter: 'blur(32px) saturate(180%)',
+                    boxShadow: '0 0 50px color-mix(in srgb, var(--color-luxury-gold) 30%, transparent)'
+                }}
+                onClick={e => e.stopPropagation()}
+            >
+                <button onClick={onClose} aria-label={m.common.close} className="absolute top-5 right-5 text-luxury-gold/60 hover:text-luxury-gold transition-colors p-2">
+                    <IconClose size={24} />
+                </button>
+                <div className="flex flex-col items-center mb-6">
+                    <h2 className="text-luxury-gold text-2xl tracking-[0.2em] uppercase font-serif font-extrabold">{m.recording.title}</h2>
+                    <p className="text-white/60 text-xs font-serif mt-2">{m.recording.subtitle(COUNTDOWN_SECONDS)}</p>
+                </div>
+
+                <div className="space-y-4">
+                    <div className="flex flex-wrap items-center justify-center gap-2">
+                        <span className="text-white/80 font-serif text-xs">{m.recording.format}</span>
+                        <button onClick={() => onFormatChange(null)} className={optionClass(format === null)}>{m.recording.window}</button>
+                        {RECORDING_FORMATS.map(f => (
+                            <button key={f.id} onClick={() => onFormatChange(f.id)} className={optionClass(format?.id === f.id)}>
+                                {f.label}
+                            </button>
+                        ))}
+                    </div>
+                    {format && (
+                        <p className="-mt-2 text-white/50 text-[11px] font-serif">
+                            {m.recording.formatNote(format.width, format.height)}
+                        </p>
+                    )}
+
+                    <div className="flex flex-wrap items-center justify-center gap-2">
+                        <span className="text-white/80 font-serif text-xs">{m.recording.autoStop}</span>
+                        {MAX_DURATION_OPTIONS.map(seconds => (
+                            <button key={seconds ?? 'none'} onClick={() => onMaxDurationChange(seconds)} className={optionClass(maxDuration === seconds)}>
+                                {seconds === null ? m.recording.unlimited : `${seconds}s`}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="flex items-center justify-center gap-2 pt-4 border-t border-luxury-gold/20">
+                        <span className="text-white/80 font-serif text-xs">
+                            {m.recording.titleCards(hasOverlays(titleCards))}
+                        </span>
+                        <button onClick={onEditTitleCards} className={optionClass(false)}>{m.recording.editTitleCards}</button>
+                    </div>
+
+                    <p className="pt-4 border-t border-luxury-gold/20 text-white/60 text-xs font-serif">{m.recording.soundtrackNote}</p>
+                    <div className="flex flex-wrap justify-center gap-2">
+                        <button onClick={() => update({ source: null })} className={optionClass(!source)}>{m.recording.noSoundtrack}</button>
+                        {BUNDLED_TRACK_OPTIONS.map(track => (
+                            <button 
+                                key={track.id} 
+                                onClick={() => update({ source: { kind: 'bundled', id: track.id }, trimStart: 0 })} 
+                                className={optionClass(source?.kind === 'bundled' && source.id === track.id)}
+                            >
+                                {getLabel(m.labels.tracks, track.id, track.name)}
+                            </button>
+                        ))}
+                        <label className={`${optionClass(source?.kind === 'file')} cursor-pointer max-w-full truncate`}>
+                            {source?.kind === 'file' ? source.name : m.common.localAudio}
+                            <input type="file" accept="audio/*" onChange={handleFile} className="hidden" />
+                        </label>
+                    </div>
+
+                    {source && (
+                        <>
+                            <p className="text-white/50 text-[11px] font-serif">
+                                {isLoading || !buffer
+                                    ? m.recording.loading
+                                    : m.recording.trackInfo(getTrackLabel(m, source), formatDuration(buffer.duration))}
+                            </p>
+                            <div className="flex flex-col gap-1 text-white/80 font-serif text-xs">
+                                <span>{m.recording.startAt(`${settings.trimStart.toFixed(1)}s`)}</span>
+                                <input 
+                                    type="range" 
+                                    min={0} 
+                                    max={buffer ? Math.max(0, buffer.duration - 1) : 0} 
+                                    step={0.1} 
+                                    value={settings.trimStart} 
+                                    disabled={!buffer} 
+                                    onChange={e => update({ trimStart: Number(e.target.value) })} 
+                                    className="accent-luxury-gold"
+                                />
+                            </div>
+                            <div className="flex flex-wrap items-center justify-center gap-2">
+                                <span className="text-white/80 font-serif text-xs">{m.recording.fadeOut}</span>
+                                {FADE_OUT_OPTIONS.map(seconds => (
+                                    <button key={seconds} onClick={() => update({ fadeOut: seconds })} className={optionClass(settings.fadeOut === seconds)}>
+                                        {seconds}s
+                                    </button>
+                                ))}
+                            </div>
+                            <label className="flex items-center justify-center gap-2 text-white/80 font-serif text-xs cursor-pointer">
+                                <input 
+                                    type="checkbox" 
+                                    checked={settings.matchTrackLength} 
+                                    onChange={e => update({ matchTrackLength: e.target.checked })} 
+                                    className="accent-luxury-gold"
+                                />
+                                {m.recording.matchTrackLength}
+                                {buffer && <span className="font-mono text-white/50">({formatDuration(getPlayableDuration(buffer, settings))})</span>}
+                            </label>
+                        </>
+                    )}
+                </div>
+
+                <div className="mt-6 pt-5 border-t border-luxury-gold/40">
+                    <button
+                        onClick={onClose}
+                        className="px-6 py-2 bg-luxury-gold text-black rounded-full font-serif text-sm font-bold hover:bg-luxury-gold-light transition-colors"
+                    >
+                        {m.common.done}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// Intro/outro cards and watermark; edited as a draft and applied on save
+const TitleCardModal = ({ isOpen, settings, onClose, onSave }: { isOpen: boolean; settings: TitleCardSettings; onClose: () => void; onSave: (settings: TitleCardSettings) => void }) => {
+    const m = useMessages();
+    const [draft, setDraft] = useState(settings);
+
+    // Start from the saved settings each time the modal opens
+    useEffect(() => {
+        if (isOpen) setDraft(settings);
+    }, [isOpen, settings]);
+
+    const update = (changes: Partial<TitleCardSettings>) => setDraft(d => ({ ...d, ...changes }));
+
+    const handleLogo = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) update({ watermarkLogo: file });
+    };
+
+    const optionClass = (active: boolean) =>
+        `px-3 py-1.5 rounded-full font-mono text-xs transition-colors ${active ? 'bg-luxury-gold text-black font-bold' : 'border border-luxury-gold/50 text-luxury-gold hover:bg-luxury-gold/10'}`;
+    const fieldClass = "w-full bg-black/30 border border-luxury-gold/50 rounded-lg p-3 text-white font-serif text-sm placeholder-white/30 focus:outline-none focus:border-luxury-gold focus:ring-1 focus:ring-luxury-gold resize-none";
+
+    return (
+        <div 
+            className={`fixed inset-0 z-[70] flex items-center justify-center bg-black/40 backdrop-blur-md transition-all duration-500 ease-in-out ${isOpen ? 'opacity-100 pointer-events-auto' : 'opacity-0 pointer-events-none'}`}
+            onClick={onClose}
+        >
+            <div 
+                className={`w-[85%] max-w-[400px] max-h-[90vh] overflow-y-auto border-2 border-luxury-gold rounded-[24px] p-8 relative transition-all duration-500 cubic-bezier(0.34, 1.56, 0.64, 1) text-center ${isOpen ? 'scale-100 translate-y-0 opacity-100' : 'scale-90 translate-y-8 opacity-0'}`}
+                style={{ 
+                    backgroundColor: 'rgba(255, 255, 255, 0.05)', 
+                    backdropFilter: 'blur(32px) saturate(180%)', 
+                    WebkitBackdropFilter: 'blur(32px) saturate(180%)',
+                    boxShadow: '0 0 50px color-mix(in srgb, var(--color-luxury-gold) 30%, transparent)'
+                }}
+                onClick={e => e.stopPropagation()}
+            >
+                <button onClick={onClose} aria-label={m.common.close} className="absolute top-5 right-5 text-luxury-gold/60 hover:text-luxury-gold transition-colors p-2">
+                    <IconClose size={24} />
+                </button>
+                <div className="flex flex-col items-center mb-6">
+                    <h2 className="text-luxury-gold text-2xl tracking-[0.2em] uppercase font-serif font-extrabold">{m.titleCards.title}</h2>
+                    <p className="text-white/60 text-xs font-serif mt-2">{m.titleCards.subtitle}</p>
+                </div>
+
+                <div className="space-y-4">
+                    <textarea
+                        value={draft.intro}
+                        onChange={e => update({ intro: e.target.value })}
+                        placeholder={m.titleCards.introPlaceholder}
+                        maxLength={120}
+                        rows={2}
+                        className={fieldClass}
+                        style={{ WebkitUserSelect: 'text', userSelect: 'text' }}
+                    />
+                    <textarea
+                        value={draft.outro}
+                        onChange={e => update({ outro: e.target.value })}
+                        placeholder={m.titleCards.outroPlaceholder}
+                        maxLength={120}
+                        rows={2}
+                        className={fieldClass}
+                        style={{ WebkitUserSelect: 'text', userSelect: 'text' }}
+                    />
+
+                    <div className="flex flex-wrap items-center justify-center gap-2">
+                        <span className="text-white/80 font-serif text-xs">{m.titleCards.font}</span>
+                        {CARD_FONTS.map(font => (
+                            <button key={font.id} onClick={() => update({ fontId: font.id })} className={optionClass(draft.fontId === font.id)} style={{ fontFamily: font.family }}>
+                                {m.titleCards.fonts[font.id]}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex flex-wrap items-center justify-center gap-2">
+                        <span className="text-white/80 font-serif text-xs">{m.titleCards.cardSeconds}</span>
+                        {CARD_SECONDS_OPTIONS.map(seconds => (
+                            <button key={seconds} onClick={() => update({ cardSeconds: seconds })} className={optionClass(draft.cardSeconds === seconds)}>
+                                {seconds}s
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex flex-wrap items-center justify-center gap-2">
+                        <button onClick={() => update({ layout: 'overlay' })} className={optionClass(draft.layout === 'overlay')}>{m.titleCards.overlay}</button>
+                        <button onClick={() => update({ layout: 'replace' })} className={optionClass(draft.layout === 'replace')}>{m.titleCards.replace}</button>
+                    </div>
+
+                    <p className="pt-4 border-t border-luxury-gold/20 text-white/60 text-xs font-serif">{m.titleCards.watermarkNote}</p>
+                    <input
+                        type="text"
+                        value={draft.watermarkText}
+                        onChange={e => update({ watermarkText: e.target.value })}
+                        placeholder={m.titleCards.watermarkPlaceholder}
+                        maxLength={40}
+                        className={fieldClass}
+                        style={{ WebkitUserSelect: 'text', userSelect: 'text' }}
+                    />
+                    <div className="flex flex-wrap items-center justify-center gap-2">
+                        <label className={`${optionClass(draft.watermarkLogo !== null)} cursor-pointer`}>
+                            {draft.watermarkLogo ? m.titleCards.replaceLogo : m.titleCards.uploadLogo}
+                            <input type="file" accept="image/*" onChange={handleLogo} className="hidden" />
+                        </label>
+                        {draft.watermarkLogo && (
+                            <button onClick={() => update({ watermarkLogo: null })} className={optionClass(false)}>{m.common.remove}</button>
+                        )}
+                    </div>
+                    <div className="flex flex-wrap items-center justify-center gap-2">
+                        <span className="text-white/80 font-serif text-xs">{m.titleCards.position}</span>
+                        {WATERMARK_CORNERS.map(corner => (
+                            <button key={corner} onClick={() => update({ watermarkCorner: corner })} className={optionClass(draft.watermarkCorner === corner)}>
+                                {m.titleCards.corners[corner]}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="mt-6 pt-5 border-t border-luxury-gold/40">
+                    <button
+                        onClick={() => onSave(draft)}
+                        className="px-6 py-2 bg-luxury-gold text-black rounded-full font-serif text-sm font-bold hover:bg-luxury-gold-light transition-colors"
+                    >
+                        {m.common.save}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const MusicModal = ({ isOpen, state, onClose, onPlay, onPause, onResume, onStop, onMute, onSensitivity }: { isOpen: boolean; state: MusicPlayerState; onClose: () => void; onPlay: (source: SoundtrackSource) => void; onPause: () => void; onResume: () => void; onStop: () => void; onMute: (isMuted: boolean) => void; onSensitivity: (sensitivity: number) => void }) => {
+    const m = useMessages();
+    const { source } = state;
+
+    const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) onPlay({ kind: 'file', name: file.name, file });
+    };
+
+    const optionClass = (active: boolean) =>
+        `px-3 py-1.5 rounded-full font-mono text-xs transition-colors ${active ? 'bg-luxury-gold text-black font-bold' : 'border border-luxury-gold/50 text-luxury-gold hover:bg-luxury-gold/10'}`;
+    const controlClass = "px-4 py-1.5 border border-luxury-gold/50 text-luxury-gold rounded-full font-serif text-xs hover:bg-luxury-gold/10 transition-colors disabled:opacity-40";
+
+    return (
+        <div 
+            className={`fixed inset-0 z-[70] flex items-center justify-center bg-black/40 backdrop-blur-md transition-all duration-500 ease-in-out ${isOpen ? 'opacity-100 pointer-events-auto' : 'opacity-0 pointer-events-none'}`}
+            onClick={onClose}
+        >
+            <div 
+                className={`w-[85%] max-w-[380px] border-2 border-luxury-gold rounded-[24px] p-8 relative transition-all duration-500 cubic-bezier(0.34, 1.56, 0.64, 1) text-center ${isOpen ? 'scale-100 translate-y-0 opacity-100' : 'scale-90 translate-y-8 opacity-0'}`}
+                style={{ 
+                    backgroundColor: 'rgba(255, 255, 255, 0.05)', 
+                    backdropFilter: 'blur(32px) saturate(180%)', 
+                    WebkitBackdropFilter: 'blur(32px) saturate(180%)',
+                    boxShadow: '0 0 50px color-mix(in srgb, var(--color-luxury-gold) 30%, transparent)'
+                }}
+                onClick={e => e.stopPropagation()}
+            >
+                <button onClick={onClose} aria-label={m.common.close} className="absolute top-5 right-5 text-luxury-gold/60 hover:text-luxury-gold transition-colors p-2">
+                    <IconClose size={24} />
+                </button>
+                <div className="flex flex-col items-center mb-6">
+                    <h2 className="text-luxury-gold text-2xl tracking-[0.2em] uppercase font-serif font-extrabold">{m.music.title}</h2>
+                    <p className="text-white/60 text-xs font-serif mt-2">{m.music.subtitle}</p>
+                </div>
+
+                <div className="space-y-4">
+                    <div className="flex flex-wrap justify-center gap-2">
+                        {BUNDLED_TRACK_OPTIONS.map(track => (
+                            <button 
+                                key={track.id} 
+                                onClick={() => onPlay({ kind: 'bundled', id: track.id })} 
+                                className={optionClass(source?.kind === 'bundled' && source.id === track.id)}
+                            >
+                                {getLabel(m.labels.tracks, track.id, track.name)}
+                            </button>
+                        ))}
+                        <label className={`${optionClass(source?.kind === 'file')} cursor-pointer max-w-full truncate`}>
+                            {source?.kind === 'file' ? source.name : m.common.localAudio}
+                            <input type="file" accept="audio/*" onChange={handleFile} className="hidden" />
+                        </label>
+                    </div>
+
+                    <p className="text-white/50 text-[11px] font-serif">
+                        {!source ? m.music.pickTrack : state.isLoading ? m.music.loading : `${state.isPlaying ? m.music.playing : m.music.paused} · ${getTrackLabel(m, source)}`}
+                    </p>
+
+                    <div className="flex justify-center gap-2">
+                        <button 
+                            onClick={state.isPlaying ? onPause : onResume} 
+                            disabled={!source || state.isLoading} 
+                            className={controlClass}
+                        >
+                            {state.isPlaying ? m.common.pause : m.common.play}
+                        </button>
+                        <button onClick={onStop} disabled={!source} className={controlClass}>{m.common.stop}</button>
+                        <button onClick={() => onMute(!state.isMuted)} className={optionClass(state.isMuted)}>
+                            {state.isMuted ? m.music.muted : m.music.mute}
+                        </button>
+                    </div>
+
+                    <div className="flex flex-col gap-1 text-white/80 font-serif text-xs">
+                        <span>{m.music.sensitivity} <span className="font-mono">{state.sensitivity.toFixed(1)}×</span></span>
+                        <input 
+                            type="range" 
+                            min={0} 
+                            max={MAX_SENSITIVITY} 
+                            step={0.1} 
+                            value={state.sensitivity} 
+                            onChange={e => onSensitivity(Number(e.target.value))} 
+                            className="accent-luxury-gold"
+                        />
+                    </div>
+                    <p className="text-white/40 text-[11px] font-serif">{m.music.restoreNote}</p>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// Slideshow settings; saved as the new defaults when the tour starts
+const TourModal = ({ isOpen, settings, photoCount, onClose, onStart }: { isOpen: boolean; settings: TourSettings; photoCount: number; onClose: () => void; onStart: (settings: TourSettings, record: boolean) => void }) => {
+    const m = useMessages();
+    const [draft, setDraft] = useState(settings);
+    const [record, setRecord] = useState(false);
+
+    // Start from the saved settings each time the modal opens
+    useEffect(() => {
+        if (isOpen) setDraft(settings);
+    }, [isOpen, settings]);
+
+    const optionClass = (active: boolean) =>
+        `px-3 py-1.5 rounded-full font-mono text-xs transition-colors ${active ? 'bg-luxury-gold text-black font-bold' : 'border border-luxury-gold/50 text-luxury-gold hover:bg-luxury-gold/10'}`;
+
+    return (
+        <div 
+            className={`fixed inset-0 z-[70] flex items-center justify-center bg-black/40 backdrop-blur-md transition-all duration-500 ease-in-out ${isOpen ? 'opacity-100 pointer-events-auto' : 'opacity-0 pointer-events-none'}`}
+            onClick={onClose}
+        >
+            <div 
+                className={`w-[85%] max-w-[360px] border-2 border-luxury-gold rounded-[24px] p-8 relative transition-all duration-500 cubic-bezier(0.34, 1.56, 0.64, 1) text-center ${isOpen ? 'scale-100 translate-y-0 opacity-100' : 'scale-90 translate-y-8 opacity-0'}`}
+                style={{ 
+                    backgroundColor: 'rgba(255, 255, 255, 0.05)', 
+                    backdropFilter: 'blur(32px) saturate(180%)', 
+                    WebkitBackdropFilter: 'blur(32px) saturate(180%)',
+                    boxShadow: '0 0 50px color-mix(in srgb, var(--color-luxury-gold) 30%, transparent)'
+                }}
+                onClick={e => e.stopPropagation()}
+            >
+                <button onClick={onClose} aria-label={m.common.close} className="absolute top-5 right-5 text-luxury-gold/60 hover:text-luxury-gold transition-colors p-2">
+                    <IconClose size={24} />
+                </button>
+                <div className="flex flex-col items-center mb-6">
+                    <h2 className="text-luxury-gold text-2xl tracking-[0.2em] uppercase font-serif font-extrabold">{m.tour.title}</h2>
+                    <p className="text-white/60 text-xs font-serif mt-2">{m.tour.subtitle}</p>
+                </div>
+
+                <div className="space-y-4">
+                    <p className="text-white/80 font-serif text-xs">{m.tour.photoSeconds}</p>
+                    <div className="flex flex-wrap justify-center gap-2">
+                        {TOUR_SECONDS_OPTIONS.map(seconds => (
+                            <button key={seconds} onClick={() => setDraft(d => ({ ...d, photoSeconds: seconds }))} className={optionClass(draft.photoSeconds === seconds)}>
+                                {seconds}s
+                            </button>
+                        ))}
+                    </div>
+                    <label className="flex items-center justify-center gap-2 text-white/80 font-serif text-xs cursor-pointer">
+                        <input 
+                            type="checkbox" 
+                            checked={draft.flip} 
+                            onChange={e => setDraft(d => ({ ...d, flip: e.target.checked }))} 
+                            className="accent-luxury-gold"
+                        />
+                        {m.tour.flip}
+                    </label>
+                    <label className="flex items-center justify-center gap-2 text-white/80 font-serif text-xs cursor-pointer">
+                        <input 
+                            type="checkbox" 
+                            checked={draft.loop} 
+                            onChange={e => setDraft(d => ({ ...d, loop: e.target.checked }))} 
+                            className="accent-luxury-gold"
+                        />
+                        {m.tour.loop}
+                    </label>
+                    <label className="flex items-center justify-center gap-2 text-white/80 font-serif text-xs cursor-pointer">
+                        <input 
+                            type="checkbox" 
+                            checked={record} 
+                            onChange={e => setRecord(e.target.checked)} 
+                            className="accent-luxury-gold"
+                        />
+                        {m.tour.record}
+                    </label>
+                    {record && <p className="text-white/50 text-[11px] font-serif">{m.tour.recordNote}</p>}
+                </div>
+
+                <div className="mt-6 pt-5 border-t border-luxury-gold/40">
+                    <p className="text-white/50 text-[11px] font-serif mb-3">
+                        {m.tour.length(formatDuration(photoCount * draft.photoSeconds))}
+                    </p>
+                    <button
+                        onClick={() => onStart(draft, record)}
+                        disabled={photoCount === 0}
+                        className="px-6 py-2 bg-luxury-gold text-black rounded-full font-serif text-sm font-bold hover:bg-luxury-gold-light transition-colors disabled:opacity-40"
+                    >
+                        {m.tour.start}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const createDraftPath = (): CameraPath => ({ id: crypto.randomUUID(), name: '', keyframes: [], cues: [] });
+
+const CameraModal = ({ isOpen, paths, playingPathId, photoCount, onClose, onPlay, onStop, onSave, onDelete, onCapture, onPreviewPose }: { isOpen: boolean; paths: CameraPath[]; playingPathId: string | null; photoCount: number; onClose: () => void; onPlay: (path: CameraPath, record: boolean) => void; onStop: () => void; onSave: (path: CameraPath) => void; onDelete: (id: string) => void; onCapture: () => CameraPose; onPreviewPose: (pose: CameraPose) => void }) => {
+    const m = useMessages();
+    const [draft, setDraft] = useState<CameraPath>(createDraftPath);
+    const [recordWhilePlaying, setRecordWhilePlaying] = useState(false);
+
+    const inputClass = "bg-black/30 border border-luxury-gold/50 rounded-lg px-2 py-1 text-white font-mono text-xs focus:outline-none focus:border-luxury-gold";
+    const smallButtonClass = "px-3 py-1 border border-luxury-gold/50 text-luxury-gold rounded-full font-serif text-xs hover:bg-luxury-gold/10 transition-colors disabled:opacity-40";
+
+    const updateKeyframe = (index: number, changes: Partial<CameraKeyframe>) =>
+        setDraft(d => ({ ...d, keyframes: d.keyframes.map((k, i) => i === index ? { ...k, ...changes } : k) }));
+    const updateCue = (index: number, cue: CameraCue) =>
+        setDraft(d => ({ ...d, cues: d.cues.map((c, i) => i === index ? cue : c) }));
+
+    const addKeyframe = () => {
+        const pose = onCapture();
+        setDraft(d => {
+            const time = d.keyframes.length ? Math.max(...d.keyframes.map(k => k.time)) + DEFAULT_KEYFRAME_GAP : 0;
+            return { ...d, keyframes: [...d.keyframes, { ...pose, time, easing: 'easeInOut' }] };
+        });
+    };
+
+    // Built-in paths are edited as a copy, so saving never replaces them
+    const editPath = (path: CameraPath) => setDraft(path.builtIn
+        ? { ...path, id: crypto.randomUUID(), name: m.camera.copyName(getLabel(m.labels.paths, path.id, path.name)), builtIn: undefined }
+        : path);
+
+    const canPlay = draft.keyframes.length > 0;
+    const canSave = canPlay && draft.name.trim().length > 0;
+    // Offer every album slot, plus any slot a saved cue already points past
+    const photoSlots = Math.max(photoCount, ...draft.cues.map(c => c.type === 'focus' && c.photoIndex !== null ? c.photoIndex + 1 : 0));
+
+    return (
+        <div 
+            className={`fixed inset-0 z-[70] flex items-center justify-center bg-black/40 backdrop-blur-md transition-all duration-500 ease-in-out ${isOpen ? 'opacity-100 pointer-events-auto' : 'opacity-0 pointer-events-none'}`}
+            onClick={onClose}
+        >
+            <div 
+                className={`w-[92%] max-w-[520px] max-h-[85vh] overflow-y-auto border-2 border-luxury-gold rounded-[24px] p-6 sm:p-8 relative transition-all duration-500 cubic-bezier(0.34, 1.56, 0.64, 1) text-center ${isOpen ? 'scale-100 translate-y-0 opacity-100' : 'scale-90 translate-y-8 opacity-0'}`}
+                style={{ 
+                    backgroundColor: 'rgba(255, 255, 255, 0.05)', 
+                    backdropFilter: 'blur(32px) saturate(180%)', 
+                    WebkitBackdropFilter: 'blur(32px) saturate(180%)',
+                    boxShadow: '0 0 50px color-mix(in srgb, var(--color-luxury-gold) 30%, transparent)'
+                }}
+                onClick={e => e.stopPropagation()}
+            >
+                <button onClick={onClose} aria-label={m.common.close} className="absolute top-5 right-5 text-luxury-gold/60 hover:text-luxury-gold transition-colors p-2">
+                    <IconClose size={24} />
+                </button>
+                <div className="flex flex-col items-center mb-6">
+                    <h2 className="text-luxury-gold text-2xl tracking-[0.2em] uppercase font-serif font-extrabold">{m.camera.title}</h2>
+                    <p className="text-white/60 text-xs font-serif mt-2">{m.camera.subtitle}</p>
+                </div>
+
+                <div className="space-y-2">
+                    {paths.map(path => (
+                        <div key={path.id} className="flex items-center gap-2">
+                            <span className="flex-1 text-left text-luxury-gold font-serif text-sm truncate">
+                                {getLabel(m.labels.paths, path.id, path.name)}
+                                <span className="ml-2 font-mono text-[10px] opacity-60">{getPathDuration(path).toFixed(1)}s</span>
+                            </span>
+                            {playingPathId === path.id ? (
+                                <button onClick={onStop} className={smallButtonClass}>{m.common.stop}</button>
+                            ) : (
+                                <button onClick={() => onPlay(path, recordWhilePlaying)} className={smallButtonClass}>{m.common.play}</button>
+                            )}
+                            <button onClick={() => editPath(path)} className={smallButtonClass}>{m.common.edit}</button>
+                            {!path.builtIn && (
+                                <button onClick={() => onDelete(path.id)} aria-label={m.a11y.deletePath(getLabel(m.labels.paths, path.id, path.name))} className="p-1 text-luxury-gold/60 hover:text-red-400 transition-colors">
+                                    <IconClose size={16} />
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                    <label className="flex items-center justify-center gap-2 pt-2 text-white/80 font-serif text-xs cursor-pointer">
+                        <input 
+                            type="checkbox" 
+                            checked={recordWhilePlaying} 
+                            onChange={e => setRecordWhilePlaying(e.target.checked)} 
+                            className="accent-luxury-gold"
+                        />
+                        {m.camera.recordWhilePlaying}
+                    </label>
+                </div>
+
+                <div className="mt-6 pt-5 border-t border-luxury-gold/40 space-y-3 text-left">
+                    <div className="flex gap-2">
+                        <input
+                            value={draft.name}
+                            onChange={e => setDraft(d => ({ ...d, name: e.target.value }))}
+                            placeholder={m.camera.namePlaceholder}
+                            className={`${inputClass} flex-1 min-w-0 font-serif text-sm py-2`}
+                            style={{ WebkitUserSelect: 'text', userSelect: 'text' }}
+                        />
+                        <button onClick={() => setDraft(createDraftPath())} className={smallButtonClass}>{m.camera.newPath}</button>
+                    </div>
+
+                    <div className="text-luxury-gold font-serif text-xs uppercase tracking-[0.2em]">{m.camera.keyframes}</div>
+                    {draft.keyframes.map((k, i) => (
+                        <div key={i} className="flex flex-wrap items-center gap-2">
+                            <input type="number" min={0} step={0.5} value={k.time} onChange={e => updateKeyframe(i, { time: Math.max(0, Number(e.target.value) || 0) })} className={`${inputClass} w-16`} />
+                            <span className="text-white/50 text-[10px] font-mono">s</span>
+                            <select value={k.easing} onChange={e => updateKeyframe(i, { easing: e.target.value as Easing })} className={inputClass}>
+                                {(Object.keys(EASING_LABELS) as Easing[]).map(e => <option key={e} value={e}>{getLabel(m.labels.easing, e, EASING_LABELS[e])}</option>)}
+                            </select>
+                            <input type="number" min={10} max={120} step={1} value={Math.round(k.fov)} onChange={e => updateKeyframe(i, { fov: Math.min(120, Math.max(10, Number(e.target.value) || 45)) })} className={`${inputClass} w-14`} />
+                            <span className="text-white/50 text-[10px] font-mono">FOV</span>
+                            <button onClick={() => onPreviewPose(k)} className={smallButtonClass}>{m.common.preview}</button>
+                            <button onClick={() => setDraft(d => ({ ...d, keyframes: d.keyframes.filter((_, j) => j !== i) }))} aria-label={m.a11y.deleteKeyframe(i + 1)} className="p-1 text-luxury-gold/60 hover:text-red-400 transition-colors">
+                                <IconClose size={14} />
+                            </button>
+                        </div>
+                    ))}
+                    <button onClick={addKeyframe} className={smallButtonClass}>{m.camera.addKeyframe}</button>
+
+                    <div className="text-luxury-gold font-serif text-xs uppercase tracking-[0.2em] pt-2">{m.camera.cues}</div>
+                    {draft.cues.map((c, i) => (
+                        <div key={i} className="flex flex-wrap items-center gap-2">
+                            <input type="number" min={0} step={0.5} value={c.time} onChange={e => updateCue(i, { ...c, time: Math.max(0, Number(e.target.value) || 0) })} className={`${inputClass} w-16`} />
+                            <span className="text-white/50 text-[10px] font-mono">s</span>
+                            <select 
+                                value={c.type} 
+                                onChange={e => updateCue(i, e.target.value === 'state' 
+                                    ? { time: c.time, type: 'state', state: TreeState.FORMED } 
+                                    : { time: c.time, type: 'focus', photoIndex: 0 })} 
+                                className={inputClass}
+                            >
+                                <option value="state">{m.camera.cueState}</option>
+                                <option value="focus">{m.camera.cueFocus}</option>
+                            </select>
+                            {c.type === 'state' ? (
+                                <select value={c.state} onChange={e => updateCue(i, { ...c, state: e.target.value as TreeState })} className={inputClass}>
+                                    {listStates().map(s => <option key={s.id} value={s.id}>{getLabel(m.labels.states, s.id, s.label)}</option>)}
+                                </select>
+                            ) : (
+                                <select value={c.photoIndex ?? ''} onChange={e => updateCue(i, { ...c, photoIndex: e.target.value === '' ? null : Number(e.target.value) })} className={inputClass}>
+                                    <option value="">{m.camera.unfocus}</option>
+                                    {Array.from({ length: photoSlots }, (_, n) => <option key={n} value={n}>{m.camera.photo(n + 1)}</option>)}
+                                </select>
+                            )}
+                            <button onClick={() => setDraft(d => ({ ...d, cues: d.cues.filter((_, j) => j !== i) }))} aria-label={m.a11y.deleteCue(i + 1)} className="p-1 text-luxury-gold/60 hover:text-red-400 transition-colors">
+                                <IconClose size={14} />
+                            </button>
+                        </div>
+                    ))}
+                    <button onClick={() => setDraft(d => ({ ...d, cues: [...d.cues, { time: 0, type: 'state', state: TreeState.FORMED }] }))} className={smallButtonClass}>{m.camera.addCue}</button>
+                </div>
+
+                <div className="flex items-center justify-center gap-2 mt-6 pt-5 border-t border-luxury-gold/40">
+                    <button onClick={() => onPlay(draft, recordWhilePlaying)} disabled={!canPlay} className={smallButtonClass}>{m.camera.previewPath}</button>
+                    <button
+                        onClick={() => onSave(normalizePath({ ...draft, name: draft.name.trim() }))}
+                        disabled={!canSave}
+                        className="px-6 py-1.5 bg-luxury-gold text-black rounded-full font-serif text-sm font-bold hover:bg-luxury-gold-light transition-colors disabled:opacity-40"
+                    >
+                        {m.common.save}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// Stored or imported sequences may name states this build no longer has
+const sanitizeSequence = (sequence: TreeState[]): TreeState[] | null => {
+    const known = sequence.filter(s => Object.values(TreeState).includes(s));
+    return known.length >= 2 ? known : null;
+};
+
+const App = () => {
+    const [treeState, setTreeState] = useState<TreeState>(TreeState.CHAOS);
+    // Shared clock for every state change; its events drive the transition UI
+    const [transition] = useState(() => new TransitionController(TreeState.CHAOS));
+    const [isTransitioning, setIsTransitioning] = useState(false);
+    const [isTransitionPaused, setIsTransitionPaused] = useState(false);
+    const [transitionSpeed, setTransitionSpeed] = useState(1);
+    const [chime] = useState(() => new TransitionChime());
+    const [isChimeOn, setIsChimeOn] = useState(true);
+    const [seed, setSeed] = useState<number>(() => getUrlSeed() ?? generateSeed());
+    const [shapeId, setShapeId] = useState<string>(DEFAULT_SHAPE_ID);
+    const [themeId, setThemeId] = useState<string>(DEFAULT_THEME_ID);
+    // 'auto' lets the frame-time monitor move autoTier up and down
+    const [qualityMode, setQualityMode] = useState<QualityMode>('auto');
+    const [autoTier, setAutoTier] = useState<QualityTier>(getInitialTier);
+    const [fps, setFps] = useState<number | null>(null);
+    // Registered text/silhouette shape used by the CUSTOM state
+    const [customShapeId, setCustomShapeId] = useState<string | null>(null);
+    const [customIncludesOrnaments, setCustomIncludesOrnaments] = useState(false);
+    // States the FORM button and long-press cycle through
+    const [stateSequence, setStateSequence] = useState<TreeState[]>(DEFAULT_STATE_SEQUENCE);
+    const [photos, setPhotos] = useState<PhotoItem[]>([]);
+    
+    // Split Back Photo State
+    const [backImgUrl, setBackImgUrl] = useState<string | null>(null);
+    // Empty shows the current language's default message
+    const [backText, setBackText] = useState<string>('');
+    const [backFace, setBackFace] = useState<BackFaceSettings>(DEFAULT_BACK_FACE_SETTINGS);
+    const [isBackDesignOpen, setIsBackDesignOpen] = useState(false);
+
+    const [isClearing, setIsClearing] = useState(false);
+    const [removingIds, setRemovingIds] = useState<string[]>([]);
+    const [isHelpOpen, setIsHelpOpen] = useState(false);
+    const [isSeedOpen, setIsSeedOpen] = useState(false);
+    const [isCustomShapeOpen, setIsCustomShapeOpen] = useState(false);
+    const [isStatesOpen, setIsStatesOpen] = useState(false);
+    const [isMessageOpen, setIsMessageOpen] = useState(false);
+    const [isPhotoBackOpen, setIsPhotoBackOpen] = useState(false);
+    const [isAlbumOpen, setIsAlbumOpen] = useState(false);
+    const [focusedPhotoId, setFocusedPhotoId] = useState<string | null>(null);
+    const [isProcessing, setIsProcessing] = useState(false);
+    const [isMenuOpen, setIsMenuOpen] = useState(false);
+    const [isRecording, setIsRecording] = useState(false);
+    const [isRenderOpen, setIsRenderOpen] = useState(false);
+    // Settings of the offline render in progress (null when idle)
+    const [activeRender, setActiveRender] = useState<RenderSettings | null>(null);
+    const [renderProgress, setRenderProgress] = useState<{ frame: number; total: number } | null>(null);
+    // Recording soundtrack; the decoded buffer is kept ready so recording starts in sync
+    const [soundtrack, setSoundtrack] = useState<SoundtrackSettings>(DEFAULT_SOUNDTRACK_SETTINGS);
+    const [soundtrackBuffer, setSoundtrackBuffer] = useState<AudioBuffer | null>(null);
+    const [isRecordingSetupOpen, setIsRecordingSetupOpen] = useState(false);
+    // Recording lifecycle: countdown, then recording (pausable), then a preview to confirm
+    const [recordCountdown, setRecordCountdown] = useState<number | null>(null);
+    const [isRecordingPaused, setIsRecordingPaused] = useState(false);
+    const [recordingProgress, setRecordingProgress] = useState<RecordingProgress>({ elapsed: 0, bytes: 0 });
+    const [maxRecordDuration, setMaxRecordDuration] = useState<number | null>(null);
+    const [recordingFormatId, setRecordingFormatId] = useState<string | null>(null);
+    // Title cards and watermark; the logo is decoded ahead so recording can draw it at once
+    const [titleCards, setTitleCards] = useState<TitleCardSettings>(DEFAULT_TITLE_CARD_SETTINGS);
+    const [watermarkLogo, setWatermarkLogo] = useState<ImageBitmap | null>(null);
+    const [isTitleCardsOpen, setIsTitleCardsOpen] = useState(false);
+    const recordingFormat = useMemo(() => getRecordingFormat(recordingFormatId), [recordingFormatId]);
+    const [recordingPreview, setRecordingPreview] = useState<(RecordingResult & { url: string }) | null>(null);
+    const [isSnapshotOpen, setIsSnapshotOpen] = useState(false);
+    const [activeSnapshot, setActiveSnapshot] = useState<SnapshotSettings | null>(null);
+    // Music player whose analysis drives the scene; its state mirrors into React for the UI
+    const [music] = useState(() => new MusicPlayer());
+    const [musicState, setMusicState] = useState<MusicPlayerState>(() => music.state);
+    const [isMusicOpen, setIsMusicOpen] = useState(false);
+    // Keyframed camera paths; the rig plays them on the scene camera
+    const [cameraRig] = useState(() => new CameraRig());
+    const [userCameraPaths, setUserCameraPaths] = useState<CameraPath[]>([]);
+    const [playingPath, setPlayingPath] = useState<CameraPath | null>(null);
+    const [focusRequest, setFocusRequest] = useState<{ photoId: string | null } | null>(null);
+    const [tour] = useState(() => new TourController());
+    const [tourSettings, setTourSettings] = useState<TourSettings>(DEFAULT_TOUR_SETTINGS);
+    // Position of the running tour, or null when none is running
+    const [tourStatus, setTourStatus] = useState<{ index: number; isPaused: boolean } | null>(null);
+    const [isTourOpen, setIsTourOpen] = useState(false);
+    // Set when starting the tour started the recording, so it pauses and ends with the tour
+    const recordingForTour = useRef(false);
+    // Keyboard cursor among the photos; stays null until the arrow keys are used
+    const [selectedPhotoId, setSelectedPhotoId] = useState<string | null>(null);
+    const [flipRequest, setFlipRequest] = useState<object | null>(null);
+    const [isCameraOpen, setIsCameraOpen] = useState(false);
+    // Set when playing a path started the recording, so its end stops it too
+    const recordingForPath = useRef(false);
+    const [restoreProgress, setRestoreProgress] = useState<{ loaded: number; total: number } | null>(null);
+    const [errorNotice, setErrorNotice] = useState<string | null>(null);
+    // Browser language until the saved choice (if any) is restored
+    const [language, setLanguage] = useState<Language>(detectLanguage);
+    const m = MESSAGES[language];
+
+    // Id of the registered text/silhouette shape (replaced on each new one)
+    const customShapeRef = useRef<{ id: string; count: number }>({ id: '', count: 0 });
+    // Latest album for deferred callbacks (e.g. the delete animation timeout)
+    const photosRef = useRef<PhotoItem[]>([]);
+
+    // CUSTOM only takes part in the cycle once a custom shape exists
+    const activeSequence = useMemo(() => {
+        const available = stateSequence.filter(s => s !== TreeState.CUSTOM || customShapeId !== null);
+        return available.length >= 2 ? available : DEFAULT_STATE_SEQUENCE;
+    }, [stateSequence, customShapeId]);
+    const nextState = getNextState(treeState, activeSequence);
+
+    const theme = getTheme(themeId);
+    const quality = getQualityProfile(qualityMode === 'auto' ? autoTier : qualityMode);
+    const qualityLabel = getLabel(m.labels.quality, quality.tier, quality.label);
+
+    // The UI chrome follows the same theme as the 3D scene
+    useEffect(() => {
+        applyThemeToDocument(theme);
+    }, [theme]);
+
+    useEffect(() => transition.subscribe((event) => {
+        switch (event.type) {
+            case 'start': setIsTransitioning(true); break;
+            case 'complete': setIsTransitioning(false); break;
+            case 'pause': setIsTransitionPaused(true); break;
+            case 'resume': setIsTransitionPaused(false); break;
+        }
+    }), [transition]);
+
+    // State changes chime as they start and land; morphs in place and offline renders stay quiet
+    useEffect(() => {
+        if (!isChimeOn || activeRender) return;
+        let isStateChange = false;
+        return transition.subscribe((event) => {
+            if (event.type === 'start') {
+                isStateChange = event.from !== event.to;
+                if (isStateChange) chime.play('start');
+            } else if (event.type === 'complete' && isStateChange) {
+                chime.play('complete');
+            }
+        });
+    }, [transition, chime, isChimeOn, activeRender]);
+
+    useEffect(() => () => chime.dispose(), [chime]);
+
+    // Every state change goes through the controller so all subsystems move together
+    const goToState = useCallback((next: TreeState) => {
+        transition.start(next);
+        setTreeState(next);
+    }, [transition]);
+
+    // Layout changes (shape, seed) morph in place on the same clock
+    const morphInPlace = useCallback(() => {
+        transition.start(transition.to);
+    }, [transition]);
+
+    const cameraPaths = useMemo(() => [...BUILT_IN_PATHS, ...userCameraPaths], [userCameraPaths]);
+
+    useEffect(() => music.subscribe(setMusicState), [music]);
+
+    const handlePlayMusic = useCallback((source: SoundtrackSource) => {
+        music.play(source).catch((err) => {
+            console.error("Failed to play music:", err);
+            setErrorNotice(m.notices.playAudio);
+        });
+    }, [music, m]);
+
+    // Camera path cues drive the same state changes and photo focus as the UI
+    useEffect(() => cameraRig.subscribe((event) => {
+        switch (event.type) {
+            case 'start':
+                setPlayingPath(event.path);
+                break;
+            case 'cue':
+                if (event.cue.type === 'state') {
+                    goToState(event.cue.state);
+                } else if (event.cue.photoIndex === null) {
+                    setFocusRequest({ photoId: null });
+                } else {
+                    // Cues point at album positions; skip ones past the end of this album
+                    const photo = photosRef.current[event.cue.photoIndex];
+                    if (photo) setFocusRequest({ photoId: photo.id });
+                }
+                break;
+            case 'end':
+                setPlayingPath(null);
+                if (recordingForPath.current) {
+                    recordingForPath.current = false;
+                    setIsRecording(false);
+                }
+                break;
+        }
+    }), [cameraRig, goToState]);
+
+    useEffect(() => tour.subscribe((event) => {
+        switch (event.type) {
+            case 'focus': {
+                // Photos removed mid-tour end it early
+                const photo = photosRef.current[event.index];
+                if (!photo) {
+                    tour.stop();
+                    break;
+                }
+                setTourStatus({ index: event.index, isPaused: false });
+                setFocusRequest({ photoId: photo.id });
+                break;
+            }
+            case 'flip':
+                setFlipRequest({});
+                break;
+            case 'pause':
+                setTourStatus(prev => prev && { ...prev, isPaused: true });
+                if (recordingForTour.current) setIsRecordingPaused(true);
+                break;
+            case 'resume':
+                if (recordingForTour.current) setIsRecordingPaused(false);
+                break;
+            case 'end':
+                setTourStatus(null);
+                setFocusRequest({ photoId: null });
+                if (recordingForTour.current) {
+                    recordingForTour.current = false;
+                    setIsRecording(false);
+                }
+                break;
+        }
+    }), [tour]);
+
+    useEffect(() => {
+        photosRef.current = photos;
+    }, [photos]);
+    const pressTimer = useRef<number | null>(null);
+    const startPos = useRef<{ x: number, y: number } | null>(null);
+    const hasMoved = useRef(false);
+
+    useEffect(() => {
+        document.documentElement.lang = language === 'zh' ? 'zh-CN' : language;
+    }, [language]);
+
+    // Dynamic Document Title
+    useEffect(() => {
+        const { focus: focusTitle, blur: blurTitle } = m.documentTitle;
+
+        const handleFocus = () => { document.title = focusTitle; };
+        const handleBlur = () => { document.title = blurTitle; };
+
+        window.addEventListener('focus', handleFocus);
+        window.addEventListener('blur', handleBlur);
+
+        // Set initial title
+        document.title = document.hasFocus() ? focusTitle : blurTitle;
+
+        return () => {
+            window.removeEventListener('focus', handleFocus);
+            window.removeEventListener('blur', handleBlur);
+        };
+    }, [m]);
+
+    // Surface persistence failures without interrupting the current session
+    const persist = useCallback((task: Promise<void>) => {
+        task.catch((err) => {
+            console.error("Failed to save tree:", err);
+            setErrorNotice(err instanceof StorageQuotaError
+                ? localizeError(m, err)
+                : m.notices.save);
+        });
+    }, [m]);
+
+    // Rehydrate the album saved by a previous session. Runs once on mount, with the seed
+    // and messages the page opened with; StrictMode's second run cancels the first.
+    useEffect(() => {
+        let isCancelled = false;
+        setIsProcessing(true);
+        loadScene((loaded, total) => {
+            if (!isCancelled) setRestoreProgress({ loaded, total });
+        })
+            .then(({ photos: restored, backImgUrl: restoredBackUrl, backText: restoredText, seed: restoredSeed, shapeId: restoredShape, stateSequence: restoredSequence, themeId: restoredTheme, qualityMode: restoredQuality, cameraPaths: restoredPaths, soundtrack: restoredSoundtrack, recordingLimit: restoredLimit, recordingFormat: restoredFormat, titleCards: restoredCards, language: restoredLanguage, tour: restoredTour, backFace: restoredBackFace, transitionChime: restoredChime }) => {
+                if (isCancelled) {
+                    // Nothing will own these images, so free them here
+                    restored.forEach(revokePhotoUrls);
+                    if (restoredBackUrl && restoredBackUrl.startsWith('blob:')) URL.revokeObjectURL(restoredBackUrl);
+                    return;
+                }
+                setPhotos(restored);
+                if (isLanguage(restoredLanguage)) setLanguage(restoredLanguage);
+                if (restoredShape !== null) {
+                    setShapeId(getShape(restoredShape).id);
+                    morphInPlace();
+                }
+                if (restoredTheme !== null) setThemeId(getTheme(restoredTheme).id);
+                if (isQualityMode(restoredQuality)) setQualityMode(restoredQuality);
+                setUserCameraPaths(sanitizeCameraPaths(restoredPaths));
+                setSoundtrack(sanitizeSoundtrackSettings(restoredSoundtrack));
+                if (MAX_DURATION_OPTIONS.includes(restoredLimit)) setMaxRecordDuration(restoredLimit);
+                setRecordingFormatId(getRecordingFormat(restoredFormat)?.id ?? null);
+                setTitleCards(sanitizeTitleCardSettings(restoredCards));
+                setTourSettings(sanitizeTourSettings(restoredTour));
+                setBackFace(sanitizeBackFaceSettings(restoredBackFace));
+                if (restoredChime !== null) setIsChimeOn(restoredChime);
+                const sequence = restoredSequence && sanitizeSequence(restoredSequence);
+                if (sequence) setStateSequence(sequence);
+                setBackImgUrl(restoredBackUrl);
+                if (restoredText !== null) setBackText(restoredText);
+                // Keep the layout from the last session unless a shared link chose one;
+                // otherwise store the seed this page opened with
+                if (getUrlSeed() === null && restoredSeed !== null) {
+                    setSeed(restoredSeed);
+                    morphInPlace();
+                } else {
+                    persist(saveSeed(seed));
+                }
+            })
+            .catch((err) => {
+                if (isCancelled) return;
+                console.error("Failed to restore tree:", err);
+                setErrorNotice(m.notices.restore);
+            })
+            .finally(() => {
+                if (isCancelled) return;
+                setRestoreProgress(null);
+                setIsProcessing(false);
+            });
+        return () => {
+            isCancelled = true;
+        };
+    }, []);
+
+    const handleStart = useCallback((e: any) => {
+        // Reaching into the scene takes over from the tour
+        if (e.target instanceof HTMLCanvasElement) tour.pause();
+        const clientX = e.touches ? e.touches[0].clientX : e.clientX;
+        const clientY = e.touches ? e.touches[0].clientY : e.clientY;
+        startPos.current = { x: clientX, y: clientY };
+        hasMoved.current = false;
+        pressTimer.current = window.setTimeout(() => {
+            if (!hasMoved.current) {
+                goToState(getNextState(transition.to, activeSequence));
+            }
+        }, 1800);
+    }, [activeSequence, transition, goToState, tour]);
+
+    const handleWheel = useCallback((e: React.WheelEvent) => {
+        if (e.target instanceof HTMLCanvasElement) tour.pause();
+    }, [tour]);
+
+    const handleMove = useCallback((e: any) => {
+        if (!startPos.current) return;
+        const clientX = e.touches ? e.touches[0].clientX : e.clientX;
+        const clientY = e.touches ? e.touches[0].clientY : e.clientY;
+        const distance = Math.sqrt(Math.pow(clientX - startPos.current.x, 2) + Math.pow(clientY - startPos.current.y, 2));
+        if (distance > 10) {
+            hasMoved.current = true;
+            if (pressTimer.current) { clearTimeout(pressTimer.current); pressTimer.current = null; }
+        }
+    }, []);
+
+    const handleEnd = useCallback(() => {
+        startPos.current = null;
+        if (pressTimer.current) { clearTimeout(pressTimer.current); pressTimer.current = null; }
+    }, []);
+
+    const handleBackgroundClick = useCallback(() => {
+        if (isMenuOpen) setIsMenuOpen(false);
+    }, [isMenuOpen]);
+
+    const handlePhotoUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = e.target.files;
+        if (!files) return;
+        setIsProcessing(true);
+        const newPhotos = [...photos];
+        const added: StoredPhoto[] = [];
+        for (let i = 0; i < files.length; i++) {
+            if (newPhotos.length >= MAX_PHOTOS) break;
+            const { url, blob } = await processImage(files[i]);
+            const id = crypto.randomUUID();
+            newPhotos.push({ id, url, height: STANDARD_HEIGHT });
+            added.push({ id, blob, height: STANDARD_HEIGHT });
+        }
+        setPhotos(newPhotos);
+        persist(savePhotos(added, newPhotos.map(p => p.id)));
+        setIsProcessing(false);
+        e.target.value = '';
+    }, [photos, persist]);
+
+    const handleFreeRatioUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
         const files = e.target.files;
         if (!files) return;
         setIsProcessing(true);
         const newPhotos = [...photos];
+        const added: StoredPhoto[] = [];
         for (let i = 0; i < files.length; i++) {
             if (newPhotos.length >= MAX_PHOTOS) break;
-            const { url, width, height } = await processImage(files[i]);
+            const { url, blob, width, height } = await processImage(files[i]);
             const aspectRatio = height / width;
             const dynamicHeight = FRAME_WIDTH * aspectRatio;
-            newPhotos.push({ url, height: dynamicHeight });
+            const id = crypto.randomUUID();
+            newPhotos.push({ id, url, height: dynamicHeight });
+            added.push({ id, blob, height: dynamicHeight });
         }
         setPhotos(newPhotos);
+        persist(savePhotos(added, newPhotos.map(p => p.id)));
         setIsProcessing(false);
         e.target.value = '';
-    }, [photos]);
+    }, [photos, persist]);
 
     const handleBackPhotoUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
         if (!file) return;
         setIsProcessing(true);
-        const { url } = await processImage(file);
+        const { url, blob } = await processImage(file);
         
         if (backImgUrl && backImgUrl.startsWith('blob:')) {
             URL.revokeObjectURL(backImgUrl);
         }
         
         setBackImgUrl(url); // Set Image
+        persist(saveBackImage(blob));
         setIsProcessing(false);
         e.target.value = '';
-    }, [backImgUrl]);
+    }, [backImgUrl, persist]);
 
     const handleUpdateMessage = (text: string) => {
         setIsProcessing(true);
@@ -433,6 +2439,8 @@ const App = () => {
             URL.revokeObjectURL(backImgUrl);
         }
         setBackImgUrl(null);
+        persist(saveBackText(text));
+        persist(saveBackImage(null));
         setIsMessageOpen(false);
         setTimeout(() => setIsProcessing(false), 500);
     };
@@ -444,206 +2452,1166 @@ const App = () => {
              URL.revokeObjectURL(backImgUrl);
         }
         setBackImgUrl(null);
+        persist(saveBackText(""));
+        persist(saveBackImage(null));
         setIsMessageOpen(false);
         setTimeout(() => setIsProcessing(false), 500);
     };
 
+    const focusedPhoto = photos.find(p => p.id === focusedPhotoId) ?? null;
+    const selectedPhoto = photos.find(p => p.id === selectedPhotoId) ?? null;
+
+    // Clicking a photo while moving with the keyboard moves the cursor with it
+    useEffect(() => {
+        if (focusedPhotoId) setSelectedPhotoId(prev => prev === null ? null : focusedPhotoId);
+    }, [focusedPhotoId]);
+
+    // Read out by screen readers whenever it changes
+    const photoAnnouncement = focusedPhoto
+        ? m.a11y.focused(photos.indexOf(focusedPhoto) + 1, photos.length, focusedPhoto.caption?.replace(/\s*\n\s*/g, ' ') ?? null)
+        : selectedPhoto ? m.a11y.selected(photos.indexOf(selectedPhoto) + 1, photos.length) : '';
+
+    // Per-photo back face: saving text replaces the photo's own back image (same as the global message)
+    const handleUpdatePhotoCaption = (text: string) => {
+        if (!focusedPhoto) return;
+        const id = focusedPhoto.id;
+        const caption = text.trim() ? text : undefined;
+        if (focusedPhoto.backUrl && focusedPhoto.backUrl.startsWith('blob:')) {
+            URL.revokeObjectURL(focusedPhoto.backUrl);
+        }
+        setPhotos(prev => prev.map(p => p.id === id ? { ...p, caption, backUrl: undefined } : p));
+        persist(updateStoredPhoto(id, { caption, backBlob: undefined }));
+        setIsPhotoBackOpen(false);
+    };
+
+    const handlePhotoBackUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file || !focusedPhoto) return;
+        const id = focusedPhoto.id;
+        setIsProcessing(true);
+        const { url, blob } = await processImage(file);
+
+        if (focusedPhoto.backUrl && focusedPhoto.backUrl.startsWith('blob:')) {
+            URL.revokeObjectURL(focusedPhoto.backUrl);
+        }
+
+        setPhotos(prev => prev.map(p => p.id === id ? { ...p, backUrl: url } : p));
+        persist(updateStoredPhoto(id, { backBlob: blob }));
+        setIsPhotoBackOpen(false);
+        setIsProcessing(false);
+        e.target.value = '';
+    }, [focusedPhoto, persist]);
+
+    const handleResetPhotoBack = () => {
+        if (!focusedPhoto) return;
+        const id = focusedPhoto.id;
+        if (focusedPhoto.backUrl && focusedPhoto.backUrl.startsWith('blob:')) {
+            URL.revokeObjectURL(focusedPhoto.backUrl);
+        }
+        setPhotos(prev => prev.map(p => p.id === id ? { ...p, caption: undefined, backUrl: undefined } : p));
+        persist(updateStoredPhoto(id, { caption: undefined, backBlob: undefined }));
+        setIsPhotoBackOpen(false);
+    };
+
+    // Plays the shrink animation on this photo only, then drops it from the album
+    const handleDeletePhoto = useCallback((id: string) => {
+        setRemovingIds(prev => prev.includes(id) ? prev : [...prev, id]);
+        setTimeout(() => {
+            // Read the latest album: other photos may have been removed while this one was shrinking
+            const current = photosRef.current;
+            const item = current.find(p => p.id === id);
+            if (item) revokePhotoUrls(item);
+            const remaining = current.filter(p => p.id !== id);
+            setPhotos(remaining);
+            setRemovingIds(prev => prev.filter(r => r !== id));
+            persist(deleteStoredPhoto(id, remaining.map(p => p.id)));
+        }, 800);
+    }, [persist]);
+
+    // Moving a photo in the list moves it to a different slot on the spiral
+    const handleReorderPhotos = useCallback((from: number, to: number) => {
+        const next = [...photos];
+        const [moved] = next.splice(from, 1);
+        next.splice(to, 0, moved);
+        setPhotos(next);
+        persist(savePhotoOrder(next.map(p => p.id)));
+    }, [photos, persist]);
+
+    // Swap the image but keep the photo's slot and back face. Standard frames stay standard.
+    const handleReplacePhoto = useCallback(async (id: string, file: File) => {
+        const item = photos.find(p => p.id === id);
+        if (!item) return;
+        setIsProcessing(true);
+        const { url, blob, width, height } = await processImage(file);
+        const frameHeight = item.height === STANDARD_HEIGHT ? STANDARD_HEIGHT : FRAME_WIDTH * (height / width);
+
+        if (item.url.startsWith('blob:')) URL.revokeObjectURL(item.url);
+
+        setPhotos(prev => prev.map(p => p.id === id ? { ...p, url, height: frameHeight } : p));
+        persist(updateStoredPhoto(id, { blob, height: frameHeight }));
+        setIsProcessing(false);
+    }, [photos, persist]);
+
     const clearPhotos = useCallback(() => {
+        tour.stop();
         setIsClearing(true);
         setTimeout(() => { 
-            photos.forEach(item => {
-                if (item.url.startsWith('blob:')) URL.revokeObjectURL(item.url);
-            });
+            photos.forEach(revokePhotoUrls);
             setPhotos([]); 
             setIsClearing(false); 
         }, 800);
-    }, [photos]);
+        persist(clearStoredPhotos());
+    }, [photos, persist, tour]);
+
+    // Download the whole scene as one portable file
+    const handleExportScene = useCallback(async (e: React.MouseEvent) => {
+        e.stopPropagation();
+        setIsProcessing(true);
+        try {
+            const blob = await exportScene({ photos, backImgUrl, backText, treeState, settings: { seed, shapeId, stateSequence, themeId, backFace } });
+            downloadBlob(blob, `Christmas_Tree_${getFileTimestamp()}${SCENE_FILE_EXTENSION}`);
+        } catch (err) {
+            console.error("Failed to export scene:", err);
+            setErrorNotice(m.notices.exportScene);
+        } finally {
+            setIsProcessing(false);
+        }
+    }, [photos, backImgUrl, backText, treeState, seed, shapeId, stateSequence, themeId, backFace, m]);
+
+    // Replace the current album, back face and tree state with an exported scene
+    const handleImportScene = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setIsProcessing(true);
+        try {
+            const scene = await importScene(file, MAX_PHOTOS);
+
+            photos.forEach(revokePhotoUrls);
+            if (backImgUrl && backImgUrl.startsWith('blob:')) URL.revokeObjectURL(backImgUrl);
+
+            // Keeping the archived ids keeps each photo's scattered position for the same seed
+            const stored: StoredPhoto[] = scene.photos.map(p => ({ ...p, id: p.id ?? crypto.randomUUID() }));
+            setPhotos(stored.map(p => ({
+                id: p.id,
+                url: URL.createObjectURL(p.blob),
+                height: p.height,
+                caption: p.caption,
+                backUrl: p.backBlob ? URL.createObjectURL(p.backBlob) : undefined,
+            })));
+            setBackImgUrl(scene.backImage ? URL.createObjectURL(scene.backImage) : null);
+            setBackText(scene.backText);
+            goToState(scene.treeState);
+            if (scene.settings.seed !== undefined) {
+                setSeed(scene.settings.seed);
+                persist(saveSeed(scene.settings.seed));
+            }
+            if (scene.settings.shapeId !== undefined) {
+                const importedShape = getShape(scene.settings.shapeId).id;
+                setShapeId(importedShape);
+                persist(saveShape(importedShape));
+            }
+            if (scene.settings.themeId !== undefined) {
+                const importedTheme = getTheme(scene.settings.themeId).id;
+                setThemeId(importedTheme);
+                persist(saveTheme(importedTheme));
+            }
+            if (scene.settings.backFace !== undefined) {
+                const importedBackFace = sanitizeBackFaceSettings(scene.settings.backFace);
+                setBackFace(importedBackFace);
+                persist(saveBackFace(importedBackFace));
+            }
+            const importedSequence = scene.settings.stateSequence && sanitizeSequence(scene.settings.stateSequence);
+            if (importedSequence) {
+                setStateSequence(importedSequence);
+                persist(saveStateSequence(importedSequence));
+            }
+
+            persist(clearStoredPhotos().then(() => savePhotos(stored, stored.map(p => p.id))));
+            persist(saveBackImage(scene.backImage));
+            persist(saveBackText(scene.backText));
+        } catch (err) {
+            console.error("Failed to import scene:", err);
+            setErrorNotice(err instanceof SceneImportError ? localizeError(m, err) : m.notices.importScene);
+        } finally {
+            setIsProcessing(false);
+        }
+    }, [photos, backImgUrl, persist, goToState, m]);
+
+    const handleApplySeed = useCallback((next: number) => {
+        setSeed(next);
+        morphInPlace();
+        persist(saveSeed(next));
+        setIsSeedOpen(false);
+    }, [persist, morphInPlace]);
+
+    // Cycle through the registered shapes; the tree morphs to the new one in place
+    const handleCycleShape = useCallback((e: React.MouseEvent) => {
+        e.stopPropagation();
+        const shapes = listShapes();
+        const index = shapes.findIndex(s => s.id === shapeId);
+        const next = shapes[(index + 1) % shapes.length].id;
+        setShapeId(next);
+        morphInPlace();
+        persist(saveShape(next));
+    }, [shapeId, persist, morphInPlace]);
 
-    // Record toggle handler
-    const toggleRecording = useCallback((e: React.MouseEvent) => {
+    const handleCycleTheme = useCallback((e: React.MouseEvent) => {
         e.stopPropagation();
-        setIsRecording(prev => !prev);
+        const themes = listThemes();
+        const index = themes.findIndex(t => t.id === themeId);
+        const next = themes[(index + 1) % themes.length].id;
+        setThemeId(next);
+        persist(saveTheme(next));
+    }, [themeId, persist]);
+
+    const handleLanguageChange = useCallback((next: Language) => {
+        setLanguage(next);
+        persist(saveLanguage(next));
+    }, [persist]);
+
+    const handleCycleLanguage = useCallback((e: React.MouseEvent) => {
+        e.stopPropagation();
+        const index = LANGUAGES.findIndex(l => l.id === language);
+        handleLanguageChange(LANGUAGES[(index + 1) % LANGUAGES.length].id);
+    }, [language, handleLanguageChange]);
+
+    const handleCycleQuality = useCallback((e: React.MouseEvent) => {
+        e.stopPropagation();
+        const next = QUALITY_MODES[(QUALITY_MODES.indexOf(qualityMode) + 1) % QUALITY_MODES.length];
+        setQualityMode(next);
+        persist(saveQuality(next));
+    }, [qualityMode, persist]);
+
+    const handleSoundtrackChange = useCallback((next: SoundtrackSettings) => {
+        setSoundtrack(next);
+        persist(saveSoundtrack(next));
+    }, [persist]);
+
+    const handleMaxRecordDurationChange = useCallback((seconds: number | null) => {
+        setMaxRecordDuration(seconds);
+        persist(saveRecordingLimit(seconds));
+    }, [persist]);
+
+    const handleRecordingFormatChange = useCallback((formatId: string | null) => {
+        setRecordingFormatId(formatId);
+        persist(saveRecordingFormat(formatId));
+    }, [persist]);
+
+    // Decode (or synthesize) the chosen track whenever the source changes
+    useEffect(() => {
+        const { source } = soundtrack;
+        setSoundtrackBuffer(null);
+        if (!source) return;
+        let cancelled = false;
+        loadSoundtrack(source)
+            .then(buffer => {
+                if (!cancelled) setSoundtrackBuffer(buffer);
+            })
+            .catch(err => {
+                if (cancelled) return;
+                console.error("Failed to load soundtrack:", err);
+                setErrorNotice(m.notices.readAudio);
+                setSoundtrack(s => ({ ...s, source: null }));
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [soundtrack.source]);
+
+    const handleSaveBackFace = useCallback((next: BackFaceSettings) => {
+        setBackFace(next);
+        setIsBackDesignOpen(false);
+        persist(saveBackFace(next));
+    }, [persist]);
+
+    const handleSaveTitleCards = useCallback((next: TitleCardSettings) => {
+        setTitleCards(next);
+        setIsTitleCardsOpen(false);
+        persist(saveTitleCards(next));
+    }, [persist]);
+
+    useEffect(() => {
+        const logo = titleCards.watermarkLogo;
+        setWatermarkLogo(null);
+        if (!logo) return;
+        let cancelled = false;
+        let bitmap: ImageBitmap | null = null;
+        createImageBitmap(logo)
+            .then(decoded => {
+                bitmap = decoded;
+                if (cancelled) decoded.close();
+                else setWatermarkLogo(decoded);
+            })
+            .catch(err => {
+                if (cancelled) return;
+                console.error("Failed to decode watermark logo:", err);
+                setErrorNotice(m.notices.readImage);
+                setTitleCards(c => ({ ...c, watermarkLogo: null }));
+            });
+        return () => {
+            cancelled = true;
+            bitmap?.close();
+        };
+    }, [titleCards.watermarkLogo]);
+
+    const recorderOverlays = useMemo<RecordingOverlays | null>(
+        () => hasOverlays(titleCards) ? { settings: titleCards, logo: watermarkLogo } : null,
+        [titleCards, watermarkLogo]
+    );
+
+    const recorderSoundtrack = useMemo(
+        () => soundtrackBuffer ? { buffer: soundtrackBuffer, settings: soundtrack } : null,
+        [soundtrackBuffer, soundtrack]
+    );
+
+    const handleQualityStep = useCallback((direction: 1 | -1) => {
+        setAutoTier(tier => stepTier(tier, direction));
     }, []);
 
+    // Register the mask as a runtime shape and move into the CUSTOM state.
+    // Custom shapes are not persisted: after a reload only the built-in shapes remain.
+    const applyMaskShape = useCallback((mask: ShapeMask, label: string, includeOrnaments: boolean) => {
+        const custom = customShapeRef.current;
+        const previousId = custom.id;
+        custom.count += 1;
+        custom.id = `custom-${custom.count}`;
+        registerShape(createMaskShape(custom.id, label, mask));
+
+        setCustomShapeId(custom.id);
+        // Ornaments stay scattered around the shape unless asked to join it
+        setCustomIncludesOrnaments(includeOrnaments);
+        if (previousId) unregisterShape(previousId);
+        goToState(TreeState.CUSTOM);
+        setIsCustomShapeOpen(false);
+    }, [goToState]);
+
+    const handleApplyTextShape = useCallback((text: string, includeOrnaments: boolean) => {
+        try {
+            applyMaskShape(rasterizeText(text), text.split('\n')[0].trim(), includeOrnaments);
+        } catch (err) {
+            console.error("Failed to build text shape:", err);
+            setErrorNotice(err instanceof MaskError ? localizeError(m, err) : m.notices.textShape);
+        }
+    }, [applyMaskShape, m]);
+
+    const handleApplyImageShape = useCallback(async (file: File, includeOrnaments: boolean) => {
+        setIsProcessing(true);
+        try {
+            applyMaskShape(await rasterizeImage(file), m.customShape.silhouette, includeOrnaments);
+        } catch (err) {
+            console.error("Failed to build silhouette shape:", err);
+            setErrorNotice(err instanceof MaskError ? localizeError(m, err) : m.notices.imageShape);
+        } finally {
+            setIsProcessing(false);
+        }
+    }, [applyMaskShape, m]);
+
+    // Record toggle handler: stops a recording, cancels a countdown, or starts one
+    const toggleRecording = useCallback(() => {
+        if (isRecording) setIsRecording(false);
+        else setRecordCountdown(prev => prev === null ? COUNTDOWN_SECONDS : null);
+    }, [isRecording]);
+
     // Stable handler for stopping recording to prevent unnecessary effect cleanup in Recorder
     const handleRecordStop = useCallback(() => {
         setIsRecording(false);
     }, []);
+
+    useEffect(() => {
+        if (recordCountdown === null) return;
+        const timer = window.setTimeout(() => {
+            if (recordCountdown > 1) {
+                setRecordCountdown(recordCountdown - 1);
+            } else {
+                setRecordCountdown(null);
+                setIsRecording(true);
+            }
+        }, 1000);
+        return () => clearTimeout(timer);
+    }, [recordCountdown]);
+
+    // Each recording starts unpaused from zero
+    useEffect(() => {
+        if (isRecording) return;
+        recordingForTour.current = false;
+        setIsRecordingPaused(false);
+        setRecordingProgress({ elapsed: 0, bytes: 0 });
+    }, [isRecording]);
+
+    const handleRecordingComplete = useCallback((result: RecordingResult) => {
+        setRecordingPreview({ ...result, url: URL.createObjectURL(result.blob) });
+    }, []);
+
+    const handleRecordingError = useCallback((err: unknown) => {
+        console.error("Recording failed:", err);
+        setErrorNotice(err instanceof RecordingError ? localizeError(m, err) : m.notices.recording);
+    }, [m]);
+
+    const closeRecordingPreview = useCallback((download: boolean) => {
+        if (!recordingPreview) return;
+        if (download) downloadBlob(recordingPreview.blob, `Christmas_Tree_${getFileTimestamp()}.${recordingPreview.extension}`);
+        URL.revokeObjectURL(recordingPreview.url);
+        setRecordingPreview(null);
+    }, [recordingPreview]);
+    
+    const handleStartRender = useCallback((settings: RenderSettings, morphOnStart: boolean, path: CameraPath | null) => {
+        setIsRenderOpen(false);
+        setIsMenuOpen(false);
+        tour.stop();
+        // Started in the same update as the render, so the morph and the path begin on frame 0
+        if (morphOnStart) goToState(getNextState(transition.to, activeSequence));
+        if (path) cameraRig.play(path);
+        setRenderProgress({ frame: 0, total: getFrameCount(settings) });
+        setActiveRender(settings);
+    }, [goToState, transition, activeSequence, cameraRig, tour]);
+
+    const finishRender = useCallback(() => {
+        // The last frame lands just short of the path's end
+        cameraRig.stop();
+        setActiveRender(null);
+        setRenderProgress(null);
+    }, [cameraRig]);
+
+    const handleRenderProgress = useCallback((frame: number, total: number) => {
+        setRenderProgress({ frame, total });
+    }, []);
+
+    const handleRenderComplete = useCallback(({ blob, extension }: RenderResult) => {
+        const suffix = extension === 'zip' ? '_frames' : '';
+        downloadBlob(blob, `Christmas_Tree_${getFileTimestamp()}${suffix}.${extension}`);
+        finishRender();
+    }, [finishRender]);
+
+    const handleRenderError = useCallback((err: unknown) => {
+        console.error("Offline render failed:", err);
+        setErrorNotice(m.notices.render);
+        finishRender();
+    }, [finishRender, m]);
+
+    const handleStartSnapshot = useCallback((settings: SnapshotSettings) => {
+        try {
+            validateSnapshotSize(settings);
+        } catch (err) {
+            setErrorNotice(err instanceof SnapshotError ? localizeError(m, err) : m.notices.snapshot);
+            return;
+        }
+        setIsSnapshotOpen(false);
+        setIsMenuOpen(false);
+        setIsProcessing(true);
+        setActiveSnapshot(settings);
+    }, [m]);
+
+    const handleSnapshotComplete = useCallback((png: Blob) => {
+        downloadBlob(png, `Christmas_Tree_${getFileTimestamp()}.png`);
+        setActiveSnapshot(null);
+        setIsProcessing(false);
+    }, []);
+
+    const handleSnapshotError = useCallback((err: unknown) => {
+        console.error("Snapshot failed:", err);
+        setErrorNotice(err instanceof SnapshotError ? localizeError(m, err) : m.notices.snapshot);
+        setActiveSnapshot(null);
+        setIsProcessing(false);
+    }, [m]);
+
+    const handlePlayPath = useCallback((path: CameraPath, record: boolean) => {
+        setIsCameraOpen(false);
+        // Both would direct the photo focus
+        tour.stop();
+        // Path recordings start with the path, so they skip the countdown
+        if (record && !isRecording) {
+            setRecordCountdown(null);
+            recordingForPath.current = true;
+            setIsRecording(true);
+        }
+        cameraRig.play(path);
+    }, [cameraRig, tour, isRecording]);
+
+    const handleStartTour = useCallback((settings: TourSettings, record: boolean) => {
+        setIsTourOpen(false);
+        setIsMenuOpen(false);
+        setTourSettings(settings);
+        persist(saveTourSettings(settings));
+        cameraRig.stop();
+        // Like path recordings, tour recordings start with the tour and skip the countdown
+        if (record && !isRecording) {
+            setRecordCountdown(null);
+            recordingForTour.current = true;
+            setIsRecording(true);
+        }
+        tour.play(settings, photos.length);
+    }, [persist, cameraRig, tour, isRecording, photos.length]);
+
+    const handleStopPath = useCallback(() => {
+        cameraRig.stop();
+    }, [cameraRig]);
+
+    const handleSavePath = useCallback((path: CameraPath) => {
+        setUserCameraPaths(prev => {
+            const next = prev.some(p => p.id === path.id)
+                ? prev.map(p => p.id === path.id ? path : p)
+                : [...prev, path];
+            persist(saveCameraPaths(next));
+            return next;
+        });
+    }, [persist]);
+
+    const handleDeletePath = useCallback((id: string) => {
+        setUserCameraPaths(prev => {
+            const next = prev.filter(p => p.id !== id);
+            persist(saveCameraPaths(next));
+            return next;
+        });
+    }, [persist]);
     
     // Toggle Tree State Button Handler
     const handleToggleState = useCallback((e: React.MouseEvent) => {
         e.stopPropagation();
-        setTreeState(prev => prev === TreeState.CHAOS ? TreeState.FORMED : TreeState.CHAOS);
-    }, []);
+        goToState(getNextState(transition.to, activeSequence));
+    }, [activeSequence, transition, goToState]);
 
-    return (
-        <ErrorBoundary>
-            <div 
-                className="fixed inset-0 bg-[#011510] select-none touch-none overflow-hidden"
-                onMouseDown={handleStart}
-                onMouseMove={handleMove}
-                onMouseUp={handleEnd}
-                onMouseLeave={handleEnd}
-                onTouchStart={handleStart}
-                onTouchMove={handleMove}
-                onTouchEnd={handleEnd}
-                onClick={handleBackgroundClick}
-            >
-                {/* 
-                  Removed outer Suspense to prevent Scene (and thus Recorder) 
-                  from unmounting when internal assets load (e.g., new photos).
-                  Suspense is now handled inside Scene.tsx.
-                */}
-                <Scene 
-                    treeState={treeState} 
-                    photos={photos} 
-                    backPhotoUrl={backImgUrl} 
-                    backText={backText}
-                    isClearing={isClearing} 
-                    isRecording={isRecording}
-                    onRecordStop={handleRecordStop}
-                />
+    // Every subsystem morphs from wherever it currently is, so any state can follow any other
+    const handleGoToState = useCallback((state: TreeState) => {
+        goToState(state);
+        setIsStatesOpen(false);
+    }, [goToState]);
 
-                <Loader />
-                <ProcessingOverlay isProcessing={isProcessing} />
-                <HelpModal isOpen={isHelpOpen} onClose={() => setIsHelpOpen(false)} />
-                <MessageModal 
-                    isOpen={isMessageOpen} 
-                    onClose={() => setIsMessageOpen(false)} 
-                    onConfirm={handleUpdateMessage}
-                    onClear={handleClearMessage}
-                />
+    const handleToggleTransitionPause = useCallback(() => {
+        if (transition.isPaused) transition.resume();
+        else transition.pause();
+    }, [transition]);
 
-                {/* Recording Indicator - Shows when menu is closed but recording is active */}
-                {isRecording && !isMenuOpen && (
-                    <div className="fixed top-6 right-6 z-[50] flex items-center gap-2 animate-pulse">
-                         <div className="w-3 h-3 bg-red-500 rounded-full shadow-[0_0_10px_rgba(255,0,0,0.8)]"></div>
-                         <span className="text-red-500 font-mono text-xs tracking-widest uppercase font-bold">REC</span>
-                    </div>
-                )}
+    const handleTransitionSpeed = useCallback((speed: number) => {
+        transition.setTimeScale(speed);
+        setTransitionSpeed(speed);
+    }, [transition]);
+
+    const handleChimeChange = useCallback((enabled: boolean) => {
+        setIsChimeOn(enabled);
+        persist(saveTransitionChime(enabled));
+    }, [persist]);
 
+    const handleChangeSequence = useCallback((sequence: TreeState[]) => {
+        setStateSequence(sequence);
+        persist(saveStateSequence(sequence));
+    }, [persist]);
+
+    // Shortcuts are off while a dialog has the keyboard or a render owns the scene
+    const isDialogOpen = isHelpOpen || isSeedOpen || isCustomShapeOpen || isStatesOpen || isMessageOpen || isBackDesignOpen || isPhotoBackOpen || isAlbumOpen
+        || isRenderOpen || isSnapshotOpen || isRecordingSetupOpen || isTitleCardsOpen || isMusicOpen || isCameraOpen || isTourOpen || recordingPreview !== null;
+
+    useEffect(() => {
+        if (isDialogOpen || activeRender || activeSnapshot) return;
+        const handleKeyDown = (event: KeyboardEvent) => {
+            const action = getShortcutAction(event);
+            if (!action) return;
+            // Moving between photos by hand takes over from the tour
+            if (action !== 'toggleState' && action !== 'record') tour.pause();
+            const photoIds = photos.map(p => p.id);
+            switch (action) {
+                case 'next':
+                case 'previous': {
+                    if (isClearing) return;
+                    // Moving while a photo is on show brings the next one forward in its place
+                    const id = stepPhoto(photoIds, focusedPhotoId ?? selectedPhotoId, action === 'next' ? 1 : -1);
+                    if (!id) return;
+                    setSelectedPhotoId(id);
+                    if (focusedPhotoId) setFocusRequest({ photoId: id });
+                    break;
+                }
+                case 'focus': {
+                    if (isClearing) return;
+                    const id = selectedPhoto ? selectedPhoto.id : stepPhoto(photoIds, null, 1);
+                    if (!id || id === focusedPhotoId) return;
+                    setSelectedPhotoId(id);
+                    setFocusRequest({ photoId: id });
+                    break;
+                }
+                case 'flip':
+                    if (!focusedPhotoId) return;
+                    setFlipRequest({});
+                    break;
+                case 'blur':
+                    if (isMenuOpen) setIsMenuOpen(false);
+                    else if (focusedPhotoId) setFocusRequest({ photoId: null });
+                    else if (selectedPhotoId) setSelectedPhotoId(null);
+                    else return;
+                    break;
+                case 'toggleState':
+                    goToState(getNextState(transition.to, activeSequence));
+                    break;
+                case 'record':
+                    toggleRecording();
+                    break;
+            }
+            event.preventDefault();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [isDialogOpen, activeRender, activeSnapshot, photos, isClearing, focusedPhotoId, selectedPhotoId, selectedPhoto, isMenuOpen, transition, activeSequence, goToState, toggleRecording, tour]);
+
+    return (
+        <LanguageContext.Provider value={m}>
+            <ErrorBoundary>
                 <div 
-                    className="absolute right-4 sm:right-8 z-[55] flex items-center justify-end overflow-visible"
-                    style={{ bottom: 'calc(2rem + env(safe-area-inset-bottom))' }}
+                    className="fixed inset-0 bg-luxury-night select-none touch-none overflow-hidden"
+                    onMouseDown={handleStart}
+                    onMouseMove={handleMove}
+                    onMouseUp={handleEnd}
+                    onMouseLeave={handleEnd}
+                    onTouchStart={handleStart}
+                    onTouchMove={handleMove}
+                    onTouchEnd={handleEnd}
+                    onWheel={handleWheel}
+                    onClick={handleBackgroundClick}
                 >
+                    {/* 
+                      Removed outer Suspense to prevent Scene (and thus Recorder) 
+                      from unmounting when internal assets load (e.g., new photos).
+                      Suspense is now handled inside Scene.tsx.
+                    */}
+                    <Scene 
+                        treeState={treeState} 
+                        transition={transition}
+                        theme={theme}
+                        quality={quality}
+                        isAutoQuality={qualityMode === 'auto'}
+                        onQualityStep={handleQualityStep}
+                        onFps={setFps}
+                        seed={seed}
+                        shapeId={shapeId}
+                        customShapeId={customShapeId}
+                        customIncludesOrnaments={customIncludesOrnaments}
+                        photos={photos} 
+                        backPhotoUrl={backImgUrl} 
+                        backText={backText || m.defaultBackText}
+                        backFace={backFace}
+                        isClearing={isClearing} 
+                        removingIds={removingIds}
+                        isRecording={isRecording}
+                        isRecordingPaused={isRecordingPaused}
+                        maxRecordDuration={maxRecordDuration}
+                        soundtrack={recorderSoundtrack}
+                        recordingFormat={recordingFormat}
+                        recordingOverlays={recorderOverlays}
+                        onRecordProgress={setRecordingProgress}
+                        onRecordComplete={handleRecordingComplete}
+                        onRecordError={handleRecordingError}
+                        onRecordStop={handleRecordStop}
+                        renderSettings={activeRender}
+                        onRenderProgress={handleRenderProgress}
+                        onRenderComplete={handleRenderComplete}
+                        onRenderError={handleRenderError}
+                        snapshotSettings={activeSnapshot}
+                        onSnapshotComplete={handleSnapshotComplete}
+                        onSnapshotError={handleSnapshotError}
+                        cameraRig={cameraRig}
+                        isCameraPathPlaying={playingPath !== null}
+                        focusRequest={focusRequest}
+                        selectedPhotoId={selectedPhotoId}
+                        flipRequest={flipRequest}
+                        music={music}
+                        tour={tour}
+                        onPhotoFocus={setFocusedPhotoId}
+                    />
+
+                    <RecordingGuides format={activeRender ? null : recordingFormat} isRecording={isRecording} />
+                    <div role="status" aria-live="polite" className="sr-only">{photoAnnouncement}</div>
+                    <Loader />
+                    <ProcessingOverlay isProcessing={isProcessing} progress={restoreProgress} />
+                    <RenderOverlay progress={renderProgress} onCancel={finishRender} />
+                    <RenderModal isOpen={isRenderOpen} paths={cameraPaths} onClose={() => setIsRenderOpen(false)} onStart={handleStartRender} />
+                    <SnapshotModal isOpen={isSnapshotOpen} onClose={() => setIsSnapshotOpen(false)} onStart={handleStartSnapshot} />
+                    <MusicModal 
+                        isOpen={isMusicOpen} 
+                        state={musicState} 
+                        onClose={() => setIsMusicOpen(false)} 
+                        onPlay={handlePlayMusic} 
+                        onPause={() => music.pause()} 
+                        onResume={() => music.resume()} 
+                        onStop={() => music.stop()} 
+                        onMute={(isMuted) => music.setMuted(isMuted)} 
+                        onSensitivity={(sensitivity) => music.setSensitivity(sensitivity)} 
+                    />
+                    <RecordingModal 
+                        isOpen={isRecordingSetupOpen} 
+                        format={recordingFormat} 
+                        maxDuration={maxRecordDuration} 
+                        titleCards={titleCards} 
+                        settings={soundtrack} 
+                        buffer={soundtrackBuffer} 
+                        isLoading={soundtrack.source !== null && !soundtrackBuffer} 
+                        onClose={() => setIsRecordingSetupOpen(false)} 
+                        onFormatChange={handleRecordingFormatChange} 
+                        onMaxDurationChange={handleMaxRecordDurationChange} 
+                        onEditTitleCards={() => { setIsRecordingSetupOpen(false); setIsTitleCardsOpen(true); }} 
+                        onChange={handleSoundtrackChange} 
+                    />
+                    <TitleCardModal isOpen={isTitleCardsOpen} settings={titleCards} onClose={() => setIsTitleCardsOpen(false)} onSave={handleSaveTitleCards} />
+                    <CountdownOverlay count={recordCountdown} onCancel={() => setRecordCountdown(null)} />
+                    <RecordingPreviewModal preview={recordingPreview} onDownload={() => closeRecordingPreview(true)} onDiscard={() => closeRecordingPreview(false)} />
+                    <CameraModal 
+                        isOpen={isCameraOpen} 
+                        paths={cameraPaths} 
+                        playingPathId={playingPath?.id ?? null} 
+                        photoCount={photos.length} 
+                        onClose={() => setIsCameraOpen(false)} 
+                        onPlay={handlePlayPath} 
+                        onStop={handleStopPath} 
+                        onSave={handleSavePath} 
+                        onDelete={handleDeletePath} 
+                        onCapture={() => cameraRig.capture()} 
+                        onPreviewPose={(pose) => cameraRig.preview(pose)} 
+                    />
+                    <TourModal isOpen={isTourOpen} settings={tourSettings} photoCount={photos.length} onClose={() => setIsTourOpen(false)} onStart={handleStartTour} />
+                    <NoticeBanner message={errorNotice} onDismiss={() => setErrorNotice(null)} />
+                    <HelpModal isOpen={isHelpOpen} language={language} onClose={() => setIsHelpOpen(false)} onLanguageChange={handleLanguageChange} />
+                    <CustomShapeModal 
+                        isOpen={isCustomShapeOpen} 
+                        onClose={() => setIsCustomShapeOpen(false)} 
+                        onApplyText={handleApplyTextShape}
+                        onApplyImage={handleApplyImageShape}
+                    />
+                    <StatesModal 
+                        isOpen={isStatesOpen} 
+                        treeState={treeState}
+                        sequence={stateSequence}
+                        hasCustomShape={customShapeId !== null}
+                        isPaused={isTransitionPaused}
+                        speed={transitionSpeed}
+                        isChimeOn={isChimeOn}
+                        onClose={() => setIsStatesOpen(false)} 
+                        onGoTo={handleGoToState}
+                        onChangeSequence={handleChangeSequence}
+                        onTogglePause={handleToggleTransitionPause}
+                        onSpeedChange={handleTransitionSpeed}
+                        onChimeChange={handleChimeChange}
+                    />
+                    <SeedModal isOpen={isSeedOpen} seed={seed} onClose={() => setIsSeedOpen(false)} onApply={handleApplySeed} />
+                    <MessageModal 
+                        isOpen={isMessageOpen} 
+                        onClose={() => setIsMessageOpen(false)} 
+                        onConfirm={handleUpdateMessage}
+                        onClear={handleClearMessage}
+                        onEditDesign={() => { setIsMessageOpen(false); setIsBackDesignOpen(true); }}
+                    />
+                    <BackDesignModal 
+                        isOpen={isBackDesignOpen} 
+                        settings={backFace} 
+                        previewText={backText || m.defaultBackText} 
+                        onClose={() => setIsBackDesignOpen(false)} 
+                        onSave={handleSaveBackFace} 
+                    />
+                    <PhotoManagerModal 
+                        isOpen={isAlbumOpen} 
+                        photos={photos}
+                        removingIds={removingIds}
+                        onClose={() => setIsAlbumOpen(false)} 
+                        onReorder={handleReorderPhotos}
+                        onReplace={handleReplacePhoto}
+                        onDelete={handleDeletePhoto}
+                    />
+                    <PhotoBackModal 
+                        isOpen={isPhotoBackOpen && !!focusedPhoto} 
+                        photo={focusedPhoto}
+                        defaultText={backText || m.defaultBackText}
+                        onClose={() => setIsPhotoBackOpen(false)} 
+                        onConfirm={handleUpdatePhotoCaption}
+                        onImageUpload={handlePhotoBackUpload}
+                        onReset={handleResetPhotoBack}
+                    />
+
+                    {/* Focused Photo Actions - edit this photo's own back face */}
                     <div 
-                        className={`absolute right-0 flex items-center gap-2 sm:gap-4 p-1 bg-black/80 backdrop-blur-3xl border border-luxury-gold rounded-full px-4 sm:px-6 py-2 shadow-[0_10px_50px_rgba(0,0,0,0.8)] transition-all duration-500 cubic-bezier(0.23, 1, 0.32, 1) overflow-x-auto no-scrollbar ${isMenuOpen ? 'translate-x-0 opacity-100 scale-100' : 'translate-x-[110%] opacity-0 scale-95 pointer-events-none'}`}
-                        style={{ 
-                            whiteSpace: 'nowrap', 
-                            maxWidth: 'calc(100vw - 2.5rem)',
-                            color: '#D4AF37',
-                            transform: 'translateZ(0)',
-                            backfaceVisibility: 'hidden',
-                            scrollbarWidth: 'none'
-                        }}
-                        onClick={(e) => e.stopPropagation()}
+                        className={`fixed left-1/2 -translate-x-1/2 z-[50] transition-all duration-500 ${focusedPhoto && !isMenuOpen ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-4 pointer-events-none'}`}
+                        style={{ bottom: 'calc(2rem + env(safe-area-inset-bottom))' }}
                     >
-                        <button onClick={() => setIsMenuOpen(false)} className="hover:scale-110 transition-transform p-1 shrink-0">
-                            <IconChevronRight />
-                        </button>
-
-                        <div className="w-[1px] h-4 bg-luxury-gold/40 shrink-0" />
-                        
-                        {/* New Toggle State Button */}
                         <button
-                            onClick={handleToggleState}
-                            className="flex items-center gap-2 cursor-pointer text-luxury-gold hover:text-luxury-gold-light transition-colors text-[10px] sm:text-xs font-medium uppercase tracking-[0.2em] px-1 font-serif shrink-0"
+                            onClick={(e) => { e.stopPropagation(); setIsPhotoBackOpen(true); }}
+                            className="flex items-center gap-2 px-5 py-2 bg-black/70 backdrop-blur-xl border border-luxury-gold rounded-full text-luxury-gold hover:text-luxury-gold-light transition-colors text-[10px] sm:text-xs font-medium uppercase tracking-[0.2em] font-serif shadow-[0_0_20px_color-mix(in_srgb,var(--color-luxury-gold)_30%,transparent)]"
                         >
-                            {treeState === TreeState.CHAOS ? <IconTree /> : <IconChaos />}
-                            <span className="shrink-0" style={{ transform: 'translateZ(0)' }}>
-                                <span className="hidden sm:inline">{treeState === TreeState.CHAOS ? 'FORM' : 'CHAOS'}</span>
-                            </span>
+                            <IconMessage size={16} />
+                            <span>{m.menu.editBack}</span>
                         </button>
-                        
-                        <div className="w-[1px] h-4 bg-luxury-gold/40 shrink-0" />
+                    </div>
 
-                        <button
-                            onClick={toggleRecording}
-                            className={`flex items-center gap-2 cursor-pointer transition-colors text-[10px] sm:text-xs font-medium uppercase tracking-[0.2em] px-1 font-serif shrink-0 ${isRecording ? 'text-red-500 hover:text-red-400' : 'text-luxury-gold hover:text-luxury-gold-light'}`}
+                    {/* Camera path playback, with a way out of the directed shot */}
+                    {playingPath && !activeRender && (
+                        <div className="fixed top-6 left-1/2 -translate-x-1/2 z-[50] flex items-center gap-3 px-4 py-1.5 bg-black/60 backdrop-blur-xl border border-luxury-gold/60 rounded-full" onClick={e => e.stopPropagation()}>
+                            <IconCamera size={14} />
+                            <span className="text-luxury-gold font-serif text-xs tracking-widest">{getLabel(m.labels.paths, playingPath.id, playingPath.name) || m.camera.untitled}</span>
+                            <button onClick={handleStopPath} aria-label={m.a11y.stopPath} className="text-luxury-gold/70 hover:text-luxury-gold transition-colors">
+                                <IconClose size={14} />
+                            </button>
+                        </div>
+                    )}
+
+                    {/* Tour progress, with a way to pick up again after touching the scene */}
+                    {tourStatus && !playingPath && (
+                        <div className="fixed top-6 left-1/2 -translate-x-1/2 z-[50] flex items-center gap-3 px-4 py-1.5 bg-black/60 backdrop-blur-xl border border-luxury-gold/60 rounded-full" onClick={e => e.stopPropagation()}>
+                            <IconTour />
+                            <span className="text-luxury-gold font-mono text-xs tracking-widest">{m.tour.progress(tourStatus.index + 1, photos.length)}</span>
+                            <button onClick={() => tourStatus.isPaused ? tour.resume() : tour.pause()} className="text-luxury-gold/80 hover:text-luxury-gold font-serif text-xs transition-colors">
+                                {tourStatus.isPaused ? m.common.resume : m.common.pause}
+                            </button>
+                            <button onClick={() => tour.stop()} aria-label={m.a11y.stopTour} className="text-luxury-gold/70 hover:text-luxury-gold transition-colors">
+                                <IconClose size={14} />
+                            </button>
+                        </div>
+                    )}
+
+                    {/* Recording Indicator - Shows when menu is closed but recording is active */}
+                    {isRecording && !isMenuOpen && (
+                        <RecordingHud 
+                            progress={recordingProgress} 
+                            maxDuration={maxRecordDuration} 
+                            isPaused={isRecordingPaused} 
+                            onPause={() => setIsRecordingPaused(true)} 
+                            onResume={() => setIsRecordingPaused(false)} 
+                            onStop={handleRecordStop} 
+                        />
+                    )}
+
+                    <div 
+                        className="absolute right-4 sm:right-8 z-[55] flex items-center justify-end overflow-visible"
+                        style={{ bottom: 'calc(2rem + env(safe-area-inset-bottom))' }}
+                    >
+                        <div 
+                            className={`absolute right-0 flex items-center gap-2 sm:gap-4 p-1 bg-black/80 backdrop-blur-3xl border border-luxury-gold rounded-full px-4 sm:px-6 py-2 shadow-[0_10px_50px_rgba(0,0,0,0.8)] transition-all duration-500 cubic-bezier(0.23, 1, 0.32, 1) overflow-x-auto no-scrollbar ${isMenuOpen ? 'translate-x-0 opacity-100 scale-100' : 'translate-x-[110%] opacity-0 scale-95 pointer-events-none'}`}
+                            style={{ 
+                                whiteSpace: 'nowrap', 
+                                maxWidth: 'calc(100vw - 2.5rem)',
+                                color: 'var(--color-luxury-gold)',
+                                transform: 'translateZ(0)',
+                                backfaceVisibility: 'hidden',
+                                scrollbarWidth: 'none'
+                            }}
+                            onClick={(e) => e.stopPropagation()}
+                            role="toolbar"
+                            aria-label={m.a11y.menu}
                         >
-                            <IconRecord isRecording={isRecording} />
-                            <span className="shrink-0" style={{ transform: 'translateZ(0)' }}>
-                                <span className="hidden sm:inline">{isRecording ? 'STOP' : 'REC'}</span>
-                            </span>
-                        </button>
+                            <button onClick={() => setIsMenuOpen(false)} aria-label={m.a11y.closeMenu} className="hover:scale-110 transition-transform p-1 shrink-0">
+                                <IconChevronRight />
+                            </button>
 
-                        <div className="w-[1px] h-4 bg-luxury-gold/40 shrink-0" />
+                            <div className="w-[1px] h-4 bg-luxury-gold/40 shrink-0" />
                         
-                        <label className="flex items-center gap-2 cursor-pointer text-luxury-gold hover:text-luxury-gold-light transition-colors text-[10px] sm:text-xs font-medium uppercase tracking-[0.2em] px-1 font-serif shrink-0">
-                            <IconUpload />
-                            <span className="text-luxury-gold shrink-0" style={{ transform: 'translateZ(0)' }}>
-                                <span className="hidden sm:inline">STD</span>
-                            </span>
-                            {/* Added photo count display */}
-                            <span className="ml-1 font-mono text-[9px] sm:text-[10px] opacity-70 tracking-normal">
-                                {photos.length}/{MAX_PHOTOS}
-                            </span>
-                            <input type="file" multiple accept="image/*" className="hidden" onChange={handlePhotoUpload} disabled={photos.length >= MAX_PHOTOS} />
-                        </label>
+                            {/* New Toggle State Button */}
+                            <button
+                                onClick={handleToggleState}
+                                aria-label={m.a11y.nextState(getLabel(m.labels.states, nextState, getStateDefinition(nextState).label))}
+                                className="flex items-center gap-2 cursor-pointer text-luxury-gold hover:text-luxury-gold-light transition-colors text-[10px] sm:text-xs font-medium uppercase tracking-[0.2em] px-1 font-serif shrink-0"
+                            >
+                                {/* Pulses while a transition is under way */}
+                                <span className={isTransitioning ? 'animate-pulse' : ''}>
+                                    {getStateDefinition(nextState).showTopper ? <IconTree /> : <IconChaos />}
+                                </span>
+                                <span className="shrink-0" style={{ transform: 'translateZ(0)' }}>
+                                    <span className="hidden sm:inline">{getLabel(m.labels.states, nextState, getStateDefinition(nextState).label)}</span>
+                                </span>
+                            </button>
+
+                            <div className="w-[1px] h-4 bg-luxury-gold/40 shrink-0" />
+
+                            <button
+                                onClick={(e) => { e.stopPropagation(); setIsStatesOpen(true); }}
+                                aria-label={m.menu.states}
+                                className="flex items-center gap-2 cursor-pointer text-luxury-gold hover:text-luxury-gold-light transition-colors text-[10px] sm:text-xs font-medium uppercase tracking-[0.2em] px-1 font-serif shrink-0"
+                            >
+                                <IconStates />
+                                <span className="text-luxury-gold shrink-0" style={{ transform: 'translateZ(0)' }}>
+                                    <span className="hidden sm:inline">{m.menu.states}</span>
+                                </span>
+                            </button>
                         
-                        <div className="w-[1px] h-4 bg-luxury-gold/40 shrink-0" />
+                            <div className="w-[1px] h-4 bg-luxury-gold/40 shrink-0" />
 
-                        <label className="flex items-center gap-2 cursor-pointer text-luxury-gold hover:text-luxury-gold-light transition-colors text-[10px] sm:text-xs font-medium uppercase tracking-[0.2em] px-1 font-serif shrink-0">
-                            <IconFreeRatio />
-                            <span className="text-luxury-gold shrink-0" style={{ transform: 'translateZ(0)' }}>
-                                <span className="hidden sm:inline">FREE</span>
-                            </span>
-                            <input type="file" multiple accept="image/*" className="hidden" onChange={handleFreeRatioUpload} disabled={photos.length >= MAX_PHOTOS} />
-                        </label>
+                            <button
+                                onClick={(e) => { e.stopPropagation(); toggleRecording(); }}
+                                aria-label={isRecording || recordCountdown !== null ? m.menu.stopRecording : m.menu.record}
+                                className={`flex items-center gap-2 cursor-pointer transition-colors text-[10px] sm:text-xs font-medium uppercase tracking-[0.2em] px-1 font-serif shrink-0 ${isRecording ? 'text-red-500 hover:text-red-400' : 'text-luxury-gold hover:text-luxury-gold-light'}`}
+                            >
+                                <IconRecord isRecording={isRecording || recordCountdown !== null} />
+                                <span className="shrink-0" style={{ transform: 'translateZ(0)' }}>
+                                    <span className="hidden sm:inline">{isRecording || recordCountdown !== null ? m.menu.stopRecording : m.menu.record}</span>
+                                </span>
+                            </button>
 
-                        <div className="w-[1px] h-4 bg-luxury-gold/40 shrink-0" />
+                            <div className="w-[1px] h-4 bg-luxury-gold/40 shrink-0" />
 
-                        <label className="flex items-center gap-2 cursor-pointer text-luxury-gold hover:text-luxury-gold-light transition-colors text-[10px] sm:text-xs font-medium uppercase tracking-[0.2em] px-1 font-serif shrink-0">
-                            <IconBackImage />
-                            <span className="text-luxury-gold shrink-0" style={{ transform: 'translateZ(0)' }}>
-                                <span className="hidden sm:inline">BACK</span>
-                            </span>
-                            <input type="file" accept="image/*" className="hidden" onChange={handleBackPhotoUpload} />
-                        </label>
+                            <button
+                                onClick={(e) => { e.stopPropagation(); setIsRecordingSetupOpen(true); }}
+                                aria-label={m.menu.recordingSetup}
+                                className="flex items-center gap-2 cursor-pointer text-luxury-gold hover:text-luxury-gold-light transition-colors text-[10px] sm:text-xs font-medium uppercase tracking-[0.2em] px-1 font-serif shrink-0"
+                            >
+                                <IconMusic />
+                                <span className="text-luxury-gold shrink-0" style={{ transform: 'translateZ(0)' }}>
+                                    <span className="hidden sm:inline">{m.menu.recordingSetup}</span>
+                                </span>
+                            </button>
 
-                        <div className="w-[1px] h-4 bg-luxury-gold/40 shrink-0" />
+                            <div className="w-[1px] h-4 bg-luxury-gold/40 shrink-0" />
 
-                        <button
-                            onClick={(e) => { e.stopPropagation(); setIsMessageOpen(true); }}
-                            className="flex items-center gap-2 cursor-pointer text-luxury-gold hover:text-luxury-gold-light transition-colors text-[10px] sm:text-xs font-medium uppercase tracking-[0.2em] px-1 font-serif shrink-0"
-                        >
-                            <IconMessage size={16} />
-                            <span className="text-luxury-gold shrink-0" style={{ transform: 'translateZ(0)' }}>
-                                <span className="hidden sm:inline">TEXT</span>
-                            </span>
-                        </button>
+                            <button
+                                onClick={(e) => { e.stopPropagation(); setIsMusicOpen(true); }}
+                                aria-label={m.menu.music}
+                                className="flex items-center gap-2 cursor-pointer text-luxury-gold hover:text-luxury-gold-light transition-colors text-[10px] sm:text-xs font-medium uppercase tracking-[0.2em] px-1 font-serif shrink-0"
+                            >
+                                <IconWave />
+                                <span className="text-luxury-gold shrink-0" style={{ transform: 'translateZ(0)' }}>
+                                    <span className="hidden sm:inline">{m.menu.music}</span>
+                                </span>
+                            </button>
 
-                        <div className="w-[1px] h-4 bg-luxury-gold/40 shrink-0" />
+                            <div className="w-[1px] h-4 bg-luxury-gold/40 shrink-0" />
 
-                        <button
-                            onClick={(e) => { e.stopPropagation(); setIsHelpOpen(true); }}
-                            className="flex items-center gap-2 cursor-pointer text-luxury-gold hover:text-luxury-gold-light transition-colors text-[10px] sm:text-xs font-medium uppercase tracking-[0.2em] px-1 font-serif shrink-0"
+                            <button
+                                onClick={(e) => { e.stopPropagation(); setIsRenderOpen(true); }}
+                                aria-label={m.menu.render}
+                                disabled={isRecording}
+                                className="flex items-center gap-2 cursor-pointer text-luxury-gold hover:text-luxury-gold-light transition-colors text-[10px] sm:text-xs font-medium uppercase tracking-[0.2em] px-1 font-serif shrink-0 disabled:opacity-40 disabled:cursor-not-allowed"
+                            >
+                                <IconFilm />
+                                <span className="text-luxury-gold shrink-0" style={{ transform: 'translateZ(0)' }}>
+                                    <span className="hidden sm:inline">{m.menu.render}</span>
+                                </span>
+                            </button>
+
+                            <div className="w-[1px] h-4 bg-luxury-gold/40 shrink-0" />
+
+                            <button
+                                onClick={(e) => { e.stopPropagation(); setIsSnapshotOpen(true); }}
+                                aria-label={m.menu.snapshot}
+                                className="flex items-center gap-2 cursor-pointer text-luxury-gold hover:text-luxury-gold-light transition-colors text-[10px] sm:text-xs font-medium uppercase tracking-[0.2em] px-1 font-serif shrink-0"
+                            >
+                                <IconSnapshot />
+                                <span className="text-luxury-gold shrink-0" style={{ transform: 'translateZ(0)' }}>
+                                    <span className="hidden sm:inline">{m.menu.snapshot}</span>
+                                </span>
+                            </button>
+
+                            <div className="w-[1px] h-4 bg-luxury-gold/40 shrink-0" />
+
+                            <button
+                                onClick={(e) => { e.stopPropagation(); setIsCameraOpen(true); }}
+                                aria-label={m.menu.camera}
+                                className="flex items-center gap-2 cursor-pointer text-luxury-gold hover:text-luxury-gold-light transition-colors text-[10px] sm:text-xs font-medium uppercase tracking-[0.2em] px-1 font-serif shrink-0"
+                            >
+                                <IconCamera />
+                                <span className="text-luxury-gold shrink-0" style={{ transform: 'translateZ(0)' }}>
+                                    <span className="hidden sm:inline">{m.menu.camera}</span>
+                                </span>
+                            </button>
+
+                            <div className="w-[1px] h-4 bg-luxury-gold/40 shrink-0" />
+                        
+                            <label className="flex items-center gap-2 cursor-pointer text-luxury-gold hover:text-luxury-gold-light transition-colors text-[10px] sm:text-xs font-medium uppercase tracking-[0.2em] px-1 font-serif shrink-0">
+                                <IconUpload />
+                                <span className="text-luxury-gold shrink-0" style={{ transform: 'translateZ(0)' }}>
+                                    <span className="hidden sm:inline">{m.menu.standard}</span>
+                                </span>
+                                {/* Added photo count display */}
+                                <span className="ml-1 font-mono text-[9px] sm:text-[10px] opacity-70 tracking-normal">
+                                    {photos.length}/{MAX_PHOTOS}
+                                </span>
+                                <input type="file" multiple accept="image/*" className="sr-only" aria-label={m.a11y.addPhotos(photos.length, MAX_PHOTOS)} onChange={handlePhotoUpload} disabled={photos.length >= MAX_PHOTOS} />
+                            </label>
+                        
+                            <div className="w-[1px] h-4 bg-luxury-gold/40 shrink-0" />
+
+                            <label className="flex items-center gap-2 cursor-pointer text-luxury-gold hover:text-luxury-gold-light transition-colors text-[10px] sm:text-xs font-medium uppercase tracking-[0.2em] px-1 font-serif shrink-0">
+                                <IconFreeRatio />
+                                <span className="text-luxury-gold shrink-0" style={{ transform: 'translateZ(0)' }}>
+                                    <span className="hidden sm:inline">{m.menu.free}</span>
+                                </span>
+                                <input type="file" multiple accept="image/*" className="sr-only" aria-label={m.a11y.addFreePhotos} onChange={handleFreeRatioUpload} disabled={photos.length >= MAX_PHOTOS} />
+                            </label>
+
+                            <div className="w-[1px] h-4 bg-luxury-gold/40 shrink-0" />
+
+                            <label className="flex items-center gap-2 cursor-pointer text-luxury-gold hover:text-luxury-gold-light transition-colors text-[10px] sm:text-xs font-medium uppercase tracking-[0.2em] px-1 font-serif shrink-0">
+                                <IconBackImage />
+                                <span className="text-luxury-gold shrink-0" style={{ transform: 'translateZ(0)' }}>
+                                    <span className="hidden sm:inline">{m.menu.back}</span>
+                                </span>
+                                <input type="file" accept="image/*" className="sr-only" aria-label={m.a11y.backImage} onChange={handleBackPhotoUpload} />
+                            </label>
+
+                            <div className="w-[1px] h-4 bg-luxury-gold/40 shrink-0" />
+
+                            <button
+                                onClick={(e) => { e.stopPropagation(); setIsMessageOpen(true); }}
+                                aria-label={m.menu.text}
+                                className="flex items-center gap-2 cursor-pointer text-luxury-gold hover:text-luxury-gold-light transition-colors text-[10px] sm:text-xs font-medium uppercase tracking-[0.2em] px-1 font-serif shrink-0"
+                            >
+                                <IconMessage size={16} />
+                                <span className="text-luxury-gold shrink-0" style={{ transform: 'translateZ(0)' }}>
+                                    <span className="hidden sm:inline">{m.menu.text}</span>
+                                </span>
+                            </button>
+
+                            <div className="w-[1px] h-4 bg-luxury-gold/40 shrink-0" />
+
+                            <button
+                                onClick={handleCycleShape}
+                                aria-label={m.a11y.shape(getLabel(m.labels.shapes, shapeId, getShape(shapeId).label))}
+                                className="flex items-center gap-2 cursor-pointer text-luxury-gold hover:text-luxury-gold-light transition-colors text-[10px] sm:text-xs font-medium uppercase tracking-[0.2em] px-1 font-serif shrink-0"
+                            >
+                                <IconShape />
+                                <span className="shrink-0" style={{ transform: 'translateZ(0)' }}>
+                                    <span className="hidden sm:inline">{getLabel(m.labels.shapes, shapeId, getShape(shapeId).label)}</span>
+                                </span>
+                            </button>
+
+                            <div className="w-[1px] h-4 bg-luxury-gold/40 shrink-0" />
+
+                            <button
+                                onClick={handleCycleTheme}
+                                aria-label={m.a11y.theme(getLabel(m.labels.themes, theme.id, theme.label))}
+                                className="flex items-center gap-2 cursor-pointer text-luxury-gold hover:text-luxury-gold-light transition-colors text-[10px] sm:text-xs font-medium uppercase tracking-[0.2em] px-1 font-serif shrink-0"
+                            >
+                                <IconTheme />
+                                <span className="shrink-0" style={{ transform: 'translateZ(0)' }}>
+                                    <span className="hidden sm:inline">{getLabel(m.labels.themes, theme.id, theme.label)}</span>
+                                </span>
+                            </button>
+
+                            <div className="w-[1px] h-4 bg-luxury-gold/40 shrink-0" />
+
+                            <button
+                                onClick={handleCycleQuality}
+                                aria-label={m.a11y.quality(qualityMode === 'auto' ? m.menu.autoQuality(qualityLabel) : qualityLabel)}
+                                className="flex items-center gap-2 cursor-pointer text-luxury-gold hover:text-luxury-gold-light transition-colors text-[10px] sm:text-xs font-medium uppercase tracking-[0.2em] px-1 font-serif shrink-0"
+                            >
+                                <IconQuality />
+                                <span className="shrink-0" style={{ transform: 'translateZ(0)' }}>
+                                    <span className="hidden sm:inline">{qualityMode === 'auto' ? m.menu.autoQuality(qualityLabel) : qualityLabel}</span>
+                                    {fps !== null && (
+                                        <span className="ml-1 font-mono text-[9px] sm:text-[10px] opacity-70 tracking-normal">{fps}fps</span>
+                                    )}
+                                </span>
+                            </button>
+
+                            <div className="w-[1px] h-4 bg-luxury-gold/40 shrink-0" />
+
+                            <button
+                                onClick={(e) => { e.stopPropagation(); setIsCustomShapeOpen(true); }}
+                                aria-label={m.menu.reveal}
+                                className="flex items-center gap-2 cursor-pointer text-luxury-gold hover:text-luxury-gold-light transition-colors text-[10px] sm:text-xs font-medium uppercase tracking-[0.2em] px-1 font-serif shrink-0"
+                            >
+                                <IconSparkle />
+                                <span className="text-luxury-gold shrink-0" style={{ transform: 'translateZ(0)' }}>
+                                    <span className="hidden sm:inline">{m.menu.reveal}</span>
+                                </span>
+                            </button>
+
+                            <div className="w-[1px] h-4 bg-luxury-gold/40 shrink-0" />
+
+                            <button
+                                onClick={(e) => { e.stopPropagation(); setIsSeedOpen(true); }}
+                                aria-label={m.menu.seed}
+                                className="flex items-center gap-2 cursor-pointer text-luxury-gold hover:text-luxury-gold-light transition-colors text-[10px] sm:text-xs font-medium uppercase tracking-[0.2em] px-1 font-serif shrink-0"
+                            >
+                                <IconSeed />
+                                <span className="text-luxury-gold shrink-0" style={{ transform: 'translateZ(0)' }}>
+                                    <span className="hidden sm:inline">{m.menu.seed}</span>
+                                </span>
+                            </button>
+
+                            <div className="w-[1px] h-4 bg-luxury-gold/40 shrink-0" />
+
+                            <button
+                                onClick={handleExportScene}
+                                aria-label={m.menu.save}
+                                className="flex items-center gap-2 cursor-pointer text-luxury-gold hover:text-luxury-gold-light transition-colors text-[10px] sm:text-xs font-medium uppercase tracking-[0.2em] px-1 font-serif shrink-0"
+                            >
+                                <IconExport />
+                                <span className="text-luxury-gold shrink-0" style={{ transform: 'translateZ(0)' }}>
+                                    <span className="hidden sm:inline">{m.menu.save}</span>
+                                </span>
+                            </button>
+
+                            <div className="w-[1px] h-4 bg-luxury-gold/40 shrink-0" />
+
+                            <label className="flex items-center gap-2 cursor-pointer text-luxury-gold hover:text-luxury-gold-light transition-colors text-[10px] sm:text-xs font-medium uppercase tracking-[0.2em] px-1 font-serif shrink-0">
+                                <IconImport />
+                                <span className="text-luxury-gold shrink-0" style={{ transform: 'translateZ(0)' }}>
+                                    <span className="hidden sm:inline">{m.menu.open}</span>
+                                </span>
+                                <input type="file" accept=".json,application/json" className="sr-only" aria-label={m.a11y.openScene} onChange={handleImportScene} />
+                            </label>
+
+                            <div className="w-[1px] h-4 bg-luxury-gold/40 shrink-0" />
+
+                            <button
+                                onClick={(e) => { e.stopPropagation(); setIsHelpOpen(true); }}
+                                aria-label={m.menu.info}
+                                className="flex items-center gap-2 cursor-pointer text-luxury-gold hover:text-luxury-gold-light transition-colors text-[10px] sm:text-xs font-medium uppercase tracking-[0.2em] px-1 font-serif shrink-0"
+                            >
+                                <IconInfo size={16} />
+                                <span className="text-luxury-gold shrink-0" style={{ transform: 'translateZ(0)' }}>
+                                    <span className="hidden sm:inline">{m.menu.info}</span>
+                                </span>
+                            </button>
+
+                            <div className="w-[1px] h-4 bg-luxury-gold/40 shrink-0" />
+
+                            <button
+                                onClick={handleCycleLanguage}
+                                aria-label={m.a11y.language(LANGUAGES.find(l => l.id === language)?.label ?? language)}
+                                className="flex items-center gap-2 cursor-pointer text-luxury-gold hover:text-luxury-gold-light transition-colors text-[10px] sm:text-xs font-medium uppercase tracking-[0.2em] px-1 font-serif shrink-0"
+                            >
+                                <IconLanguage />
+                                <span className="text-luxury-gold shrink-0" style={{ transform: 'translateZ(0)' }}>
+                                    <span className="hidden sm:inline">{LANGUAGES.find(l => l.id === language)?.label}</span>
+                                </span>
+                            </button>
+
+                            {photos.length > 0 && (
+                                <>
+                                    <div className="w-[1px] h-4 bg-luxury-gold/40 shrink-0" />
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); setIsAlbumOpen(true); }}
+                                        aria-label={m.menu.album}
+                                        className="flex items-center gap-2 cursor-pointer text-luxury-gold hover:text-luxury-gold-light transition-colors text-[10px] sm:text-xs font-medium uppercase tracking-[0.2em] px-1 font-serif shrink-0"
+                                    >
+                                        <IconAlbum />
+                                        <span className="text-luxury-gold shrink-0" style={{ transform: 'translateZ(0)' }}>
+                                            <span className="hidden sm:inline">{m.menu.album}</span>
+                                        </span>
+                                    </button>
+                                    <div className="w-[1px] h-4 bg-luxury-gold/40 shrink-0" />
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); setIsTourOpen(true); }}
+                                        aria-label={m.menu.tour}
+                                        className="flex items-center gap-2 cursor-pointer text-luxury-gold hover:text-luxury-gold-light transition-colors text-[10px] sm:text-xs font-medium uppercase tracking-[0.2em] px-1 font-serif shrink-0"
+                                    >
+                                        <IconTour />
+                                        <span className="text-luxury-gold shrink-0" style={{ transform: 'translateZ(0)' }}>
+                                            <span className="hidden sm:inline">{m.menu.tour}</span>
+                                        </span>
+                                    </button>
+                                    <div className="w-[1px] h-4 bg-luxury-gold/40 shrink-0" />
+                                    <button onClick={clearPhotos} aria-label={m.a11y.clearPhotos} className="text-luxury-gold hover:text-red-500 transition-colors p-1 shrink-0">
+                                        <IconTrash />
+                                    </button>
+                                </>
+                            )}
+                        </div>
+
+                        <button 
+                            onClick={(e) => { e.stopPropagation(); setIsMenuOpen(true); }}
+                            aria-label={m.a11y.openMenu}
+                            aria-expanded={isMenuOpen}
+                            className={`flex items-center justify-center p-3 rounded-full bg-black/60 border border-luxury-gold shadow-[0_0_20px_color-mix(in_srgb,var(--color-luxury-gold)_40%,transparent)] backdrop-blur-xl transition-all duration-500 ${isMenuOpen ? 'opacity-0 scale-50 pointer-events-none' : 'opacity-100 scale-100 active:scale-90 hover:bg-luxury-gold/20'}`}
                         >
-                            <IconInfo size={16} />
-                            <span className="text-luxury-gold shrink-0" style={{ transform: 'translateZ(0)' }}>
-                                <span className="hidden sm:inline">INFO</span>
-                            </span>
+                            <IconChevronLeft />
                         </button>
-
-                        {photos.length > 0 && (
-                            <>
-                                <div className="w-[1px] h-4 bg-luxury-gold/40 shrink-0" />
-                                <button onClick={clearPhotos} className="text-luxury-gold hover:text-red-500 transition-colors p-1 shrink-0">
-                                    <IconTrash />
-                                </button>
-                            </>
-                        )}
                     </div>
-
-                    <button 
-                        onClick={(e) => { e.stopPropagation(); setIsMenuOpen(true); }}
-                        className={`flex items-center justify-center p-3 rounded-full bg-black/60 border border-luxury-gold shadow-[0_0_20px_rgba(212,175,55,0.4)] backdrop-blur-xl transition-all duration-500 ${isMenuOpen ? 'opacity-0 scale-50 pointer-events-none' : 'opacity-100 scale-100 active:scale-90 hover:bg-luxury-gold/20'}`}
-                    >
-                        <IconChevronLeft />
-                    </button>
                 </div>
-            </div>
-        </ErrorBoundary>
+            </ErrorBoundary>
+        </LanguageContext.Provider>
     );
 };
 
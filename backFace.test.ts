@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_BACK_FACE_SETTINGS, MIN_FONT_SIZE, MeasureAt, TextLine, applyBackTemplate, createBackPhotoUri, fitText, truncateLines } from './backFace.ts';
+import { splitGraphemes } from './utils.ts';
+
+// Every grapheme is half an em wide
+const measureAt: MeasureAt = (fontSize) => (text) => splitGraphemes(text).length * fontSize * 0.5;
+
+const box = { x: 0, y: 0, width: 600, height: 300 };
+const LONG_MESSAGE = 'Merry Christmas and a happy new year! '.repeat(4).trim(); // 151 characters
+
+const decodeSvg = (uri: string): string => decodeURIComponent(uri.slice(uri.indexOf(',') + 1));
+
+describe('fitText', () => {
+  it('keeps the template size when the message fits', () => {
+    const fitted = fitText('Wish you\nwere here.', '', box, 64, measureAt);
+    expect(fitted.fontSize).toBe(64);
+    expect(fitted.lines.map(line => line.text)).toEqual(['Wish you', 'were here.']);
+  });
+
+  it('shrinks the type until the message fits the box', () => {
+    const fitted = fitText(LONG_MESSAGE, '', { ...box, height: 500 }, 64, measureAt);
+    expect(fitted.fontSize).toBeLessThan(64);
+    expect(fitted.fontSize).toBeGreaterThanOrEqual(MIN_FONT_SIZE);
+    expect(fitted.lines.length * fitted.lineHeight).toBeLessThanOrEqual(500);
+    expect(fitted.lines.map(line => line.text).join(' ')).toBe(LONG_MESSAGE);
+  });
+
+  it('stops at the minimum size and ends an overlong message with an ellipsis', () => {
+    const short = { ...box, height: 120 };
+    const fitted = fitText(LONG_MESSAGE, 'Love, Ana', short, 64, measureAt);
+    expect(fitted.fontSize).toBe(MIN_FONT_SIZE);
+    expect((fitted.lines.length + fitted.signOff.length) * fitted.lineHeight).toBeLessThanOrEqual(short.height);
+    expect(fitted.signOff.map(line => line.text)).toEqual(['', 'Love, Ana']);
+    const last = fitted.lines[fitted.lines.length - 1].text;
+    expect(last.endsWith('…')).toBe(true);
+    expect(measureAt(MIN_FONT_SIZE, 'normal')(last)).toBeLessThanOrEqual(short.width);
+  });
+
+  it('gives up the sign-off before the whole message', () => {
+    const fitted = fitText(LONG_MESSAGE, 'Love, Ana', { ...box, height: 80 }, 64, measureAt);
+    expect(fitted.signOff).toEqual([]);
+    expect(fitted.lines).toHaveLength(2);
+  });
+
+  it('sets each paragraph in its own direction', () => {
+    const fitted = fitText('Merry Christmas\nعيد ميلاد مجيد', '', box, 64, measureAt);
+    expect(fitted.lines.map(line => line.direction)).toEqual(['ltr', 'rtl']);
+  });
+});
+
+describe('truncateLines', () => {
+  const measure = measureAt(40, 'normal');
+  const lines: TextLine[] = [
+    { text: 'The first line', direction: 'ltr' },
+    { text: 'The second line is full', direction: 'ltr' },
+    { text: 'The third line', direction: 'ltr' },
+  ];
+
+  it('leaves lines that already fit alone', () => {
+    expect(truncateLines(lines, 3, 460, measure)).toBe(lines);
+  });
+
+  it('fits the ellipsis inside the width', () => {
+    const cut = truncateLines(lines, 2, 460, measure);
+    expect(cut).toHaveLength(2);
+    // 23 graphemes fit; the last one makes way for the ellipsis
+    expect(cut[1].text).toBe('The second line is ful…');
+    expect(measure(cut[1].text)).toBeLessThanOrEqual(460);
+  });
+
+  it('never splits an emoji sequence to make room', () => {
+    const emoji: TextLine[] = [{ text: '👨‍👩‍👧‍👦👨‍👩‍👧‍👦👨‍👩‍👧‍👦', direction: 'ltr' }, { text: 'more', direction: 'ltr' }];
+    expect(truncateLines(emoji, 1, 60, measure)[0].text).toBe('👨‍👩‍👧‍👦👨‍👩‍👧‍👦…');
+  });
+});
+
+describe('createBackPhotoUri', () => {
+  it('sets right-to-left lines from the right edge', () => {
+    const settings = applyBackTemplate(DEFAULT_BACK_FACE_SETTINGS, 'handwritten');
+    const svg = decodeSvg(createBackPhotoUri('שנה טובה', 1.2, settings));
+    // The handwritten text box runs from x=150 to x=964
+    expect(svg).toMatch(/<text x="964" y="[\d.]+" text-anchor="start" direction="rtl" unicode-bidi="embed"[^>]*>שנה טובה<\/text>/);
+  });
+
+  it('keeps left-to-right lines on the left', () => {
+    const settings = applyBackTemplate(DEFAULT_BACK_FACE_SETTINGS, 'handwritten');
+    const svg = decodeSvg(createBackPhotoUri('Merry Christmas', 1.2, settings));
+    expect(svg).toMatch(/<text x="150" y="[\d.]+" text-anchor="start" fill=[^>]*>Merry Christmas<\/text>/);
+  });
+});
@@ -0,0 +1,354 @@
+import { createTextMeasurer, getTextDirection, MeasureText, splitGraphemes, wrapText } from './utils.ts';
+
+// Designs for the back of the polaroids. Each template draws its paper, ornaments,
+// branding and date stamp as SVG at the frame's aspect; the message and sign-off are
+// laid out on top in the text box the template sets aside.
+
+export type BackAlign = 'left' | 'center' | 'right';
+
+// Labels live in the message catalogues (i18n.ts), keyed by id
+export interface BackFont {
+  id: string;
+  family: string;
+  weight: 'normal' | 'bold';
+}
+
+export interface BackFaceSettings {
+  templateId: string;
+  fontId: string;
+  inkColor: string; // #rrggbb
+  paperColor: string; // #rrggbb
+  align: BackAlign;
+  signOff: string; // Empty for no sign-off line
+  dateStamp: string; // yyyy-mm-dd, or empty for no date
+  branding: string; // Up to two lines; empty removes it
+}
+
+// What picking a template fills in; all of it can be changed afterwards
+type BackStyle = Pick<BackFaceSettings, 'fontId' | 'inkColor' | 'paperColor' | 'align'>;
+
+interface Frame {
+  width: number;
+  height: number;
+}
+
+export interface TextBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TextLine {
+  text: string;
+  direction: 'ltr' | 'rtl';
+}
+
+// Where the message rows landed, for templates that rule lines under them
+interface TextLayout {
+  box: TextBox;
+  lineHeight: number;
+  firstBaseline: number;
+}
+
+interface BackTemplate {
+  id: string;
+  style: BackStyle;
+  fontSize: number; // At the reference width; shrinks when the message does not fit
+  verticalAlign: 'top' | 'middle';
+  textBox: (frame: Frame) => TextBox;
+  // Everything beneath the message: paper, ornaments, branding and the date stamp
+  decorate: (frame: Frame, settings: BackFaceSettings, layout: TextLayout) => string;
+}
+
+export const BACK_FONTS: BackFont[] = [
+  { id: 'sans', family: '"Helvetica Neue", Arial, "PingFang SC", "Microsoft YaHei", sans-serif', weight: 'bold' },
+  { id: 'serif', family: 'Georgia, "Songti SC", "SimSun", serif', weight: 'normal' },
+  { id: 'script', family: '"Segoe Script", "Bradley Hand", "Brush Script MT", "Kaiti SC", "KaiTi", cursive', weight: 'normal' },
+  { id: 'mono', family: '"Courier New", Courier, "Songti SC", monospace', weight: 'normal' },
+];
+
+export const BACK_ALIGNS: BackAlign[] = ['left', 'center', 'right'];
+
+// Reference width of the generated image; 1024px keeps text sharp when focused
+const WIDTH = 1024;
+export const MIN_FONT_SIZE = 28;
+const LINE_SPACING = 1.375;
+const FILM_DATE_COLOR = '#ff8c1a';
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const getFont = (fontId: string): BackFont =>
+  BACK_FONTS.find(font => font.id === fontId) ?? BACK_FONTS[0];
+
+const getBrandingLines = (settings: BackFaceSettings): string[] =>
+  settings.branding.split('\n').map(line => line.trim()).filter(Boolean).slice(0, 2);
+
+const textElement = (text: string, x: number, y: number, attributes: string): string =>
+  `<text x="${x}" y="${y}" ${attributes}>${escapeXml(text)}</text>`;
+
+// e.g. '26 10 19 for the film stamp, 2026.10.19 elsewhere
+const formatDate = (date: string, style: 'film' | 'plain'): string => {
+  const [year, month, day] = date.split('-');
+  return style === 'film' ? `'${year.slice(2)} ${month} ${day}` : `${year}.${month}.${day}`;
+};
+
+// Polaroid chin along the bottom, shared by the classic layout
+const getStripHeight = (frame: Frame): number => Math.max(160, Math.round(frame.height * 0.15));
+
+const CLASSIC: BackTemplate = {
+  id: 'classic',
+  style: { fontId: 'sans', inkColor: '#ffffff', paperColor: '#111111', align: 'center' },
+  fontSize: 64,
+  verticalAlign: 'middle',
+  textBox: (frame) => ({ x: 80, y: 40, width: frame.width - 160, height: frame.height - getStripHeight(frame) - 80 }),
+  decorate: (frame, settings) => {
+    const strip = getStripHeight(frame);
+    const panel = frame.height - strip;
+    const [brand, subBrand] = getBrandingLines(settings);
+    const right = frame.width - 40;
+    return [
+      `<rect width="${frame.width}" height="${frame.height}" fill="#f0f0f0"/>`,
+      `<rect width="${frame.width}" height="${panel}" fill="${settings.paperColor}"/>`,
+      settings.dateStamp && textElement(formatDate(settings.dateStamp, 'film'), right, panel - 40, `text-anchor="end" fill="${FILM_DATE_COLOR}" font-family="monospace" font-weight="bold" font-size="40" opacity="0.9"`),
+      brand && textElement(brand, right, frame.height - strip / 2 - 10, 'text-anchor="end" fill="#333" font-family="sans-serif" font-weight="bold" font-size="48"'),
+      subBrand && textElement(subBrand, right, frame.height - strip / 2 + 50, 'text-anchor="end" fill="#333" font-family="monospace" font-size="40"'),
+    ].filter(Boolean).join('');
+  },
+};
+
+// Ruled notepaper with a margin line, written top to bottom
+const HANDWRITTEN: BackTemplate = {
+  id: 'handwritten',
+  style: { fontId: 'script', inkColor: '#1d3c8f', paperColor: '#fbf6e9', align: 'left' },
+  fontSize: 60,
+  verticalAlign: 'top',
+  textBox: (frame) => ({ x: 150, y: 150, width: frame.width - 210, height: frame.height - 280 }),
+  decorate: (frame, settings, layout) => {
+    const { family } = getFont(settings.fontId);
+    const rules: string[] = [];
+    for (let y = layout.firstBaseline + layout.lineHeight * 0.2; y < frame.height - 60; y += layout.lineHeight) {
+      rules.push(`<line x1="0" y1="${y}" x2="${frame.width}" y2="${y}" stroke="#9fb7d9" stroke-width="2" opacity="0.6"/>`);
+    }
+    const branding = getBrandingLines(settings).join(' · ');
+    return [
+      `<rect width="${frame.width}" height="${frame.height}" fill="${settings.paperColor}"/>`,
+      ...rules,
+      `<line x1="120" y1="0" x2="120" y2="${frame.height}" stroke="#e06c75" stroke-width="3" opacity="0.7"/>`,
+      settings.dateStamp && textElement(formatDate(settings.dateStamp, 'plain'), frame.width - 60, 100, `text-anchor="end" fill="${settings.inkColor}" font-family='${family}' font-size="40"`),
+      branding && textElement(branding, frame.width / 2, frame.height - 40, `text-anchor="middle" fill="#8a8577" font-family="sans-serif" font-size="28" letter-spacing="4"`),
+    ].filter(Boolean).join('');
+  },
+};
+
+// Letter paper with the branding set as a letterhead
+const TYPED: BackTemplate = {
+  id: 'typed',
+  style: { fontId: 'mono', inkColor: '#222222', paperColor: '#f7f4ec', align: 'left' },
+  fontSize: 44,
+  verticalAlign: 'top',
+  textBox: (frame) => ({ x: 100, y: 260, width: frame.width - 200, height: frame.height - 360 }),
+  decorate: (frame, settings) => {
+    const [brand, subBrand] = getBrandingLines(settings);
+    const { family } = getFont(settings.fontId);
+    return [
+      `<rect width="${frame.width}" height="${frame.height}" fill="${settings.paperColor}"/>`,
+      brand && textElement(brand.toUpperCase(), frame.width / 2, 110, `text-anchor="middle" fill="${settings.inkColor}" font-family="Georgia, serif" font-weight="bold" font-size="44" letter-spacing="10"`),
+      subBrand && textElement(subBrand, frame.width / 2, 160, `text-anchor="middle" fill="${settings.inkColor}" font-family="Georgia, serif" font-size="28" opacity="0.7"`),
+      (brand || subBrand) && `<line x1="100" y1="190" x2="${frame.width - 100}" y2="190" stroke="${settings.inkColor}" stroke-width="2" opacity="0.5"/>`,
+      settings.dateStamp && textElement(formatDate(settings.dateStamp, 'plain'), frame.width - 100, 240, `text-anchor="end" fill="${settings.inkColor}" font-family='${family}' font-size="32"`),
+    ].filter(Boolean).join('');
+  },
+};
+
+// Message on the left, stamp, postmark and address lines on the right
+const POSTCARD: BackTemplate = {
+  id: 'postcard',
+  style: { fontId: 'serif', inkColor: '#3a2f25', paperColor: '#f4ecd8', align: 'left' },
+  fontSize: 44,
+  verticalAlign: 'middle',
+  textBox: (frame) => ({ x: 60, y: 160, width: frame.width * 0.58 - 100, height: frame.height - 220 }),
+  decorate: (frame, settings) => {
+    const divider = frame.width * 0.58;
+    const stamp = { width: 170, height: 210, x: frame.width - 230, y: 170 };
+    const postmark = { x: stamp.x - 20, y: stamp.y + stamp.height - 20, r: 90 };
+    const addressLines = [0.55, 0.67, 0.79].map(ratio => {
+      const y = frame.height * ratio;
+      return `<line x1="${divider + 50}" y1="${y}" x2="${frame.width - 60}" y2="${y}" stroke="${settings.inkColor}" stroke-width="2" opacity="0.4"/>`;
+    });
+    const branding = getBrandingLines(settings).join(' · ');
+    return [
+      `<rect width="${frame.width}" height="${frame.height}" fill="${settings.paperColor}"/>`,
+      branding && textElement(branding.toUpperCase(), frame.width / 2, 100, `text-anchor="middle" fill="${settings.inkColor}" font-family="Georgia, serif" font-size="36" letter-spacing="12" opacity="0.8"`),
+      `<line x1="${divider}" y1="160" x2="${divider}" y2="${frame.height - 60}" stroke="${settings.inkColor}" stroke-width="2" opacity="0.5"/>`,
+      ...addressLines,
+      // Perforated stamp with a little tree on it
+      `<rect x="${stamp.x}" y="${stamp.y}" width="${stamp.width}" height="${stamp.height}" fill="#fffaf0" stroke="${settings.inkColor}" stroke-width="6" stroke-dasharray="2 10" stroke-linecap="round"/>`,
+      `<rect x="${stamp.x + 18}" y="${stamp.y + 18}" width="${stamp.width - 36}" height="${stamp.height - 36}" fill="#1f5c3a"/>`,
+      `<polygon points="${stamp.x + stamp.width / 2},${stamp.y + 45} ${stamp.x + 45},${stamp.y + stamp.height - 55} ${stamp.x + stamp.width - 45},${stamp.y + stamp.height - 55}" fill="#d4af37"/>`,
+      settings.dateStamp && [
+        `<circle cx="${postmark.x}" cy="${postmark.y}" r="${postmark.r}" fill="none" stroke="${settings.inkColor}" stroke-width="4" opacity="0.6"/>`,
+        `<circle cx="${postmark.x}" cy="${postmark.y}" r="${postmark.r - 14}" fill="none" stroke="${settings.inkColor}" stroke-width="2" opacity="0.6"/>`,
+        textElement(formatDate(settings.dateStamp, 'plain'), postmark.x, postmark.y + 10, `text-anchor="middle" fill="${settings.inkColor}" font-family="monospace" font-weight="bold" font-size="28" opacity="0.7"`),
+      ].join(''),
+    ].filter(Boolean).join('');
+  },
+};
+
+// Brown paper with a fibre grain and a stitched border
+const KRAFT: BackTemplate = {
+  id: 'kraft',
+  style: { fontId: 'sans', inkColor: '#2b1d0e', paperColor: '#b08a5a', align: 'center' },
+  fontSize: 60,
+  verticalAlign: 'middle',
+  textBox: (frame) => ({ x: 110, y: 110, width: frame.width - 220, height: frame.height - 300 }),
+  decorate: (frame, settings) => {
+    const [brand, subBrand] = getBrandingLines(settings);
+    return [
+      `<defs><filter id="grain"><feTurbulence type="fractalNoise" baseFrequency="0.9" numOctaves="3" seed="7"/><feColorMatrix values="0 0 0 0 0.2  0 0 0 0 0.12  0 0 0 0 0.05  0 0 0 0.35 0"/></filter></defs>`,
+      `<rect width="${frame.width}" height="${frame.height}" fill="${settings.paperColor}"/>`,
+      `<rect width="${frame.width}" height="${frame.height}" filter="url(#grain)"/>`,
+      `<rect x="50" y="50" width="${frame.width - 100}" height="${frame.height - 100}" fill="none" stroke="${settings.inkColor}" stroke-width="4" stroke-dasharray="24 14" opacity="0.5"/>`,
+      settings.dateStamp && textElement(formatDate(settings.dateStamp, 'plain'), 100, frame.height - 100, `fill="${settings.inkColor}" font-family="monospace" font-size="32" opacity="0.75"`),
+      brand && textElement(brand, frame.width - 100, frame.height - (subBrand ? 130 : 100), `text-anchor="end" fill="${settings.inkColor}" font-family="Georgia, serif" font-weight="bold" font-size="40" opacity="0.75"`),
+      subBrand && textElement(subBrand, frame.width - 100, frame.height - 90, `text-anchor="end" fill="${settings.inkColor}" font-family="monospace" font-size="30" opacity="0.75"`),
+    ].filter(Boolean).join('');
+  },
+};
+
+export const BACK_TEMPLATES: BackTemplate[] = [CLASSIC, HANDWRITTEN, TYPED, POSTCARD, KRAFT];
+
+const getTemplate = (templateId: string): BackTemplate =>
+  BACK_TEMPLATES.find(template => template.id === templateId) ?? CLASSIC;
+
+export const DEFAULT_BACK_FACE_SETTINGS: BackFaceSettings = {
+  templateId: CLASSIC.id,
+  ...CLASSIC.style,
+  signOff: '',
+  dateStamp: '',
+  branding: 'Polaroid\nCapyPola',
+};
+
+// Switching template brings in its font, colours and alignment; the words stay
+export const applyBackTemplate = (settings: BackFaceSettings, templateId: string): BackFaceSettings => {
+  const template = getTemplate(templateId);
+  return { ...settings, templateId: template.id, ...template.style };
+};
+
+// Each paragraph keeps its own reading direction, so Arabic or Hebrew lines run right
+// to left even in a message that mixes them with English
+const layoutText = (text: string, maxWidth: number, measure: MeasureText): TextLine[] =>
+  text.split('\n').flatMap(paragraph => {
+    const direction = getTextDirection(paragraph);
+    return wrapText(paragraph, maxWidth, measure).map(line => ({ text: line, direction }));
+  });
+
+// Cuts the last kept line short with an ellipsis that still fits the width
+export const truncateLines = (lines: TextLine[], count: number, maxWidth: number, measure: MeasureText): TextLine[] => {
+  if (lines.length <= count) return lines;
+  const last = lines[count - 1];
+  const chars = splitGraphemes(last.text);
+  while (chars.length > 0 && measure(`${chars.join('').trimEnd()}…`) > maxWidth) chars.pop();
+  return [...lines.slice(0, count - 1), { ...last, text: `${chars.join('').trimEnd()}…` }];
+};
+
+// Measures type of the chosen font at a size; the sign-off is set in italic
+export type MeasureAt = (fontSize: number, fontStyle: 'normal' | 'italic') => MeasureText;
+
+export interface FittedText {
+  fontSize: number;
+  lineHeight: number;
+  lines: TextLine[];
+  signOff: TextLine[]; // Starts with a blank row when there is one
+}
+
+// Shrink the type from maxFontSize until the message and sign-off fit the box
+export const fitText = (message: string, signOffText: string, box: TextBox, maxFontSize: number, measureAt: MeasureAt): FittedText => {
+  let fontSize = maxFontSize;
+  let measure: MeasureText;
+  let lines: TextLine[];
+  let signOff: TextLine[];
+  let lineHeight: number;
+  for (;;) {
+    lineHeight = Math.round(fontSize * LINE_SPACING);
+    measure = measureAt(fontSize, 'normal');
+    lines = layoutText(message, box.width, measure);
+    signOff = signOffText ? [{ text: '', direction: 'ltr' }, ...layoutText(signOffText, box.width, measureAt(Math.round(fontSize * 0.8), 'italic'))] : [];
+    if ((lines.length + signOff.length) * lineHeight <= box.height || fontSize <= MIN_FONT_SIZE) break;
+    fontSize = Math.max(MIN_FONT_SIZE, Math.floor(fontSize * 0.9));
+  }
+
+  // Still too long at the smallest size: the sign-off keeps its place if it can, and the
+  // message ends early rather than running off the paper
+  const rows = Math.max(1, Math.floor(box.height / lineHeight));
+  if (lines.length + signOff.length > rows) {
+    if (signOff.length >= rows) signOff = [];
+    lines = truncateLines(lines, rows - signOff.length, box.width, measure);
+  }
+  return { fontSize, lineHeight, lines, signOff };
+};
+
+// aspectRatio = height / width
+export const createBackPhotoUri = (text: string, aspectRatio: number, settings: BackFaceSettings = DEFAULT_BACK_FACE_SETTINGS): string => {
+  const template = getTemplate(settings.templateId);
+  const font = getFont(settings.fontId);
+  const frame = { width: WIDTH, height: Math.round(WIDTH * aspectRatio) };
+  const box = template.textBox(frame);
+
+  const { fontSize, lineHeight, lines, signOff } = fitText(text || "Wish you\nwere here.", settings.signOff.trim(), box, template.fontSize,
+    (size, style) => createTextMeasurer(size, font.family, style === 'italic' ? 'normal' : font.weight, style));
+
+  const textHeight = (lines.length + signOff.length) * lineHeight;
+  const top = template.verticalAlign === 'middle' ? box.y + Math.max(0, (box.height - textHeight) / 2) : box.y;
+  const firstBaseline = top + lineHeight / 2 + fontSize * 0.4;
+
+  // Alignment reads as start/end: a left-aligned right-to-left line sits on the right
+  const placeLine = (line: TextLine, y: number, attributes: string): string => {
+    const isRtl = line.direction === 'rtl';
+    const side = isRtl && settings.align !== 'center' ? (settings.align === 'left' ? 'right' : 'left') : settings.align;
+    const x = side === 'left' ? box.x : side === 'right' ? box.x + box.width : box.x + box.width / 2;
+    // text-anchor follows the line's direction, so under rtl 'start' is the right edge
+    const anchor = side === 'center' ? 'middle' : (side === 'left') !== isRtl ? 'start' : 'end';
+    const direction = isRtl ? ' direction="rtl" unicode-bidi="embed"' : '';
+    return textElement(line.text, x, y, `text-anchor="${anchor}"${direction} fill="${settings.inkColor}" font-family='${font.family}' ${attributes}`);
+  };
+
+  const textContent = [
+    ...lines.map((line, i) => placeLine(line, firstBaseline + i * lineHeight, `font-weight="${font.weight}" font-size="${fontSize}"`)),
+    ...signOff.map((line, i) => line.text && placeLine(line, firstBaseline + (lines.length + i) * lineHeight, `font-style="italic" font-size="${Math.round(fontSize * 0.8)}"`)),
+  ].join('');
+
+  const svg = `
+<svg xmlns="http://www.w3.org/2000/svg" width="${frame.width}" height="${frame.height}" viewBox="0 0 ${frame.width} ${frame.height}">
+  ${template.decorate(frame, settings, { box, lineHeight, firstBaseline })}
+  ${textContent}
+</svg>
+`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg.trim())}`;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isHexColor = (value: unknown): value is string =>
+  typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+const isDate = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+// Settings saved by an older build (or imported) may be missing fields; fall back field by field
+export const sanitizeBackFaceSettings = (value: unknown): BackFaceSettings => {
+  if (!isRecord(value)) return DEFAULT_BACK_FACE_SETTINGS;
+  const defaults = DEFAULT_BACK_FACE_SETTINGS;
+  return {
+    templateId: BACK_TEMPLATES.some(template => template.id === value.templateId) ? value.templateId as string : defaults.templateId,
+    fontId: BACK_FONTS.some(font => font.id === value.fontId) ? value.fontId as string : defaults.fontId,
+    inkColor: isHexColor(value.inkColor) ? value.inkColor : defaults.inkColor,
+    paperColor: isHexColor(value.paperColor) ? value.paperColor : defaults.paperColor,
+    align: BACK_ALIGNS.includes(value.align as BackAlign) ? value.align as BackAlign : defaults.align,
+    signOff: typeof value.signOff === 'string' ? value.signOff : defaults.signOff,
+    dateStamp: isDate(value.dateStamp) ? value.dateStamp : '',
+    branding: typeof value.branding === 'string' ? value.branding : defaults.branding,
+  };
+};
@@ -0,0 +1,173 @@
+import { CatmullRomCurve3, MathUtils, Vector3 } from 'three';
+import { TreeState } from './types.ts';
+
+// Keyframed camera paths ("directed shots") for recordings. Keyframes are plain
+// data so paths can be saved; CameraRig plays them back against the live camera.
+
+export type Vec3 = [number, number, number];
+
+export type Easing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut';
+
+export interface CameraPose {
+  position: Vec3;
+  target: Vec3;
+  fov: number;
+}
+
+export interface CameraKeyframe extends CameraPose {
+  time: number; // Seconds from the start of the path
+  easing: Easing; // Applied to the segment that arrives at this keyframe
+}
+
+// Actions fired when playback passes their time
+export type CameraCue =
+  | { time: number; type: 'state'; state: TreeState }
+  | { time: number; type: 'focus'; photoIndex: number | null }; // Album position; null clears focus
+
+export interface CameraPath {
+  id: string;
+  name: string;
+  keyframes: CameraKeyframe[];
+  cues: CameraCue[];
+  builtIn?: boolean;
+}
+
+export const EASINGS: Record<Easing, (t: number) => number> = {
+  linear: t => t,
+  easeIn: t => t * t * t,
+  easeOut: t => 1 - Math.pow(1 - t, 3),
+  easeInOut: t => MathUtils.smootherstep(t, 0, 1),
+};
+
+export const EASING_LABELS: Record<Easing, string> = {
+  linear: 'Linear',
+  easeIn: 'Ease In',
+  easeOut: 'Ease Out',
+  easeInOut: 'Ease In-Out',
+};
+
+// Matches the Canvas camera in Scene
+export const DEFAULT_FOV = 45;
+export const DEFAULT_KEYFRAME_GAP = 3; // Seconds between newly added keyframes
+
+export const BUILT_IN_PATHS: CameraPath[] = [
+  {
+    id: 'grand-reveal',
+    name: 'Grand Reveal',
+    builtIn: true,
+    keyframes: [
+      { time: 0, position: [0, 1, 32], target: [0, 2, 0], fov: 50, easing: 'linear' },
+      { time: 4, position: [14, 6, 18], target: [0, 2, 0], fov: 45, easing: 'easeInOut' },
+      { time: 8, position: [0, 9, 14], target: [0, 3, 0], fov: 40, easing: 'easeInOut' },
+      { time: 12, position: [0, 4, 20], target: [0, 0, 0], fov: 45, easing: 'easeInOut' },
+    ],
+    cues: [{ time: 0.5, type: 'state', state: TreeState.FORMED }],
+  },
+  {
+    id: 'spiral-ascent',
+    name: 'Spiral Ascent',
+    builtIn: true,
+    keyframes: [
+      { time: 0, position: [18, -3, 0], target: [0, -2, 0], fov: 45, easing: 'linear' },
+      { time: 3, position: [0, 0, 18], target: [0, -1, 0], fov: 45, easing: 'linear' },
+      { time: 6, position: [-16, 3, 0], target: [0, 1, 0], fov: 45, easing: 'linear' },
+      { time: 9, position: [0, 6, -15], target: [0, 2, 0], fov: 42, easing: 'linear' },
+      { time: 12, position: [14, 9, 4], target: [0, 4, 0], fov: 40, easing: 'easeOut' },
+    ],
+    cues: [
+      { time: 0, type: 'state', state: TreeState.CHAOS },
+      { time: 2, type: 'state', state: TreeState.FORMED },
+      { time: 7, type: 'focus', photoIndex: 0 },
+      { time: 10, type: 'focus', photoIndex: null },
+    ],
+  },
+];
+
+export const getPathDuration = (path: CameraPath): number => Math.max(
+  0,
+  ...path.keyframes.map(k => k.time),
+  ...path.cues.map(c => c.time),
+);
+
+// Keyframes and cues in playback order
+export const normalizePath = (path: CameraPath): CameraPath => ({
+  ...path,
+  keyframes: [...path.keyframes].sort((a, b) => a.time - b.time),
+  cues: [...path.cues].sort((a, b) => a.time - b.time),
+});
+
+// Smooth curves through the keyframe positions and targets, built once per playback
+export interface PathCurves {
+  keyframes: CameraKeyframe[];
+  positions: CatmullRomCurve3 | null;
+  targets: CatmullRomCurve3 | null;
+}
+
+export const buildPathCurves = (path: CameraPath): PathCurves => {
+  const { keyframes } = normalizePath(path);
+  const curve = (points: Vec3[]) => keyframes.length >= 2
+    ? new CatmullRomCurve3(points.map(p => new Vector3(...p)), false, 'centripetal')
+    : null;
+  return {
+    keyframes,
+    positions: curve(keyframes.map(k => k.position)),
+    targets: curve(keyframes.map(k => k.target)),
+  };
+};
+
+// Pose at `time`, holding the first and last keyframes outside the path
+export const samplePath = (curves: PathCurves, time: number, position: Vector3, target: Vector3): number => {
+  const { keyframes } = curves;
+  const last = keyframes.length - 1;
+  if (last < 0) return DEFAULT_FOV;
+
+  let segment = 0;
+  while (segment < last - 1 && time >= keyframes[segment + 1].time) segment++;
+  const from = keyframes[segment];
+  const to = keyframes[Math.min(segment + 1, last)];
+
+  if (!curves.positions || !curves.targets || time <= from.time || to === from) {
+    const pose = time <= from.time ? from : keyframes[last];
+    position.set(...pose.position);
+    target.set(...pose.target);
+    return pose.fov;
+  }
+
+  const span = to.time - from.time;
+  const local = span > 0 ? MathUtils.clamp((time - from.time) / span, 0, 1) : 1;
+  const eased = EASINGS[to.easing](local);
+  // CatmullRomCurve3 spaces its points evenly in t, so segment i covers [i, i + 1] / last
+  const t = (segment + eased) / last;
+  curves.positions.getPoint(t, position);
+  curves.targets.getPoint(t, target);
+  return MathUtils.lerp(from.fov, to.fov, eased);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isVec3 = (value: unknown): value is Vec3 =>
+  Array.isArray(value) && value.length === 3 && value.every(isFiniteNumber);
+
+const isKeyframe = (value: unknown): value is CameraKeyframe =>
+  isRecord(value) && isFiniteNumber(value.time) && value.time >= 0 && isVec3(value.position) && isVec3(value.target) &&
+  isFiniteNumber(value.fov) && value.fov > 0 && value.fov < 180 && typeof value.easing === 'string' && value.easing in EASINGS;
+
+const isCue = (value: unknown): value is CameraCue => {
+  if (!isRecord(value) || !isFiniteNumber(value.time) || value.time < 0) return false;
+  if (value.type === 'state') return Object.values(TreeState).includes(value.state as TreeState);
+  if (value.type === 'focus') return value.photoIndex === null || (Number.isInteger(value.photoIndex) && (value.photoIndex as number) >= 0);
+  return false;
+};
+
+// Saved paths from an older build may be malformed; keep only the valid ones
+export const sanitizeCameraPaths = (value: unknown): CameraPath[] => {
+  if (!Array.isArray(value)) return [];
+  return value.filter((path): path is CameraPath =>
+    isRecord(path) && typeof path.id === 'string' && typeof path.name === 'string' &&
+    Array.isArray(path.keyframes) && path.keyframes.length > 0 && path.keyframes.every(isKeyframe) &&
+    Array.isArray(path.cues) && path.cues.every(isCue) && !path.builtIn
+  );
+};
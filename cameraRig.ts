@@ -0,0 +1,131 @@
+import { PerspectiveCamera, Vector3 } from 'three';
+import { CameraCue, CameraPath, CameraPose, PathCurves, DEFAULT_FOV, buildPathCurves, getPathDuration, normalizePath, samplePath } from './cameraPaths.ts';
+
+// Plays camera paths against the scene camera. Like TransitionController it is
+// created once by the app and stepped by the scene each frame, so playback follows
+// the render clock (including the fixed timestep of offline renders).
+
+export type CameraRigEvent =
+  | { type: 'start'; path: CameraPath }
+  | { type: 'cue'; cue: CameraCue }
+  // completed is false when playback was stopped early
+  | { type: 'end'; path: CameraPath; completed: boolean };
+
+export type CameraRigListener = (event: CameraRigEvent) => void;
+
+// The parts of OrbitControls the rig hands the camera back to
+export interface RigControls {
+  target: Vector3;
+  update: () => void;
+}
+
+export class CameraRig {
+  private camera: PerspectiveCamera | null = null;
+  private controls: RigControls | null = null;
+  private path: CameraPath | null = null;
+  private curves: PathCurves | null = null;
+  private duration = 0;
+  private elapsed = 0;
+  private nextCue = 0;
+  private fovBeforePlay = DEFAULT_FOV;
+  private listeners = new Set<CameraRigListener>();
+  private position = new Vector3();
+  private target = new Vector3();
+
+  get isPlaying(): boolean { return this.path !== null; }
+  get currentPath(): CameraPath | null { return this.path; }
+
+  // Called by the scene once the camera and controls exist
+  attach(camera: PerspectiveCamera, controls: RigControls | null): void {
+    this.camera = camera;
+    this.controls = controls;
+  }
+
+  // Current view, for adding a keyframe
+  capture(): CameraPose {
+    const camera = this.camera;
+    const target = this.controls?.target ?? new Vector3();
+    return {
+      position: camera ? [camera.position.x, camera.position.y, camera.position.z] : [0, 4, 20],
+      target: [target.x, target.y, target.z],
+      fov: camera?.fov ?? DEFAULT_FOV,
+    };
+  }
+
+  // Jump straight to a pose (keyframe preview)
+  preview(pose: CameraPose): void {
+    this.position.set(...pose.position);
+    this.target.set(...pose.target);
+    this.apply(pose.fov);
+  }
+
+  play(path: CameraPath): void {
+    if (this.path) this.stop();
+    this.path = normalizePath(path);
+    this.curves = buildPathCurves(this.path);
+    this.duration = getPathDuration(this.path);
+    this.elapsed = 0;
+    this.nextCue = 0;
+    this.fovBeforePlay = this.camera?.fov ?? DEFAULT_FOV;
+    this.emit({ type: 'start', path: this.path });
+  }
+
+  stop(): void {
+    this.finish(false);
+  }
+
+  // Called once per frame by the scene, after OrbitControls so the path wins
+  update(delta: number): void {
+    if (!this.path || !this.curves) return;
+    this.elapsed = Math.min(this.duration, this.elapsed + delta);
+
+    const fov = samplePath(this.curves, this.elapsed, this.position, this.target);
+    this.apply(fov);
+
+    const { cues } = this.path;
+    while (this.nextCue < cues.length && cues[this.nextCue].time <= this.elapsed) {
+      this.emit({ type: 'cue', cue: cues[this.nextCue++] });
+    }
+
+    if (this.elapsed >= this.duration) this.finish(true);
+  }
+
+  subscribe(listener: CameraRigListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private apply(fov: number): void {
+    const camera = this.camera;
+    if (!camera) return;
+    camera.position.copy(this.position);
+    camera.lookAt(this.target);
+    if (camera.fov !== fov) {
+      camera.fov = fov;
+      camera.updateProjectionMatrix();
+    }
+    // Keep OrbitControls orbiting the point the camera looks at, so handing back is seamless
+    if (this.controls) {
+      this.controls.target.copy(this.target);
+    }
+  }
+
+  private finish(completed: boolean): void {
+    const path = this.path;
+    if (!path) return;
+    this.path = null;
+    this.curves = null;
+    if (this.camera && this.camera.fov !== this.fovBeforePlay) {
+      this.camera.fov = this.fovBeforePlay;
+      this.camera.updateProjectionMatrix();
+    }
+    this.controls?.update();
+    this.emit({ type: 'end', path, completed });
+  }
+
+  private emit(event: CameraRigEvent): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+}
@@ -1,38 +1,59 @@
-import React, { useMemo, useRef } from 'react';
+import React, { useMemo, useRef, useEffect, useLayoutEffect } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { TreeState } from '../types.ts';
-import { getRandomSpherePoint, getTreePoint } from '../utils.ts';
+import { createRandom, deriveSeed } from '../utils.ts';
+import { LayoutContext, getStateDefinition } from '../treeStates.ts';
+import { TransitionController } from '../transitionController.ts';
+import { Theme } from '../themes.ts';
+import { MAX_FOLIAGE_COUNT } from '../quality.ts';
+import { MusicPlayer } from '../musicPlayer.ts';
 
 interface FoliageProps {
   treeState: TreeState;
+  seed: number;
+  layout: LayoutContext;
+  transition: TransitionController;
+  palette: Theme['foliage'];
+  count: number; // Points drawn; buffers always hold MAX_FOLIAGE_COUNT
+  music: MusicPlayer; // Mids swell the points
 }
 
-const COUNT = 12000;
-const TREE_HEIGHT = 14;
-const TREE_RADIUS = 5;
+const POINT_SIZE = 0.16;
+const MID_SIZE_BOOST = 0.8; // Extra point size at full mids
+
 
 const FoliageShader = {
   uniforms: {
     uTime: { value: 0 },
-    uProgress: { value: 0 },
-    uSize: { value: 0.16 }
+    uProgress: { value: 1 },
+    uFloat: { value: 1 },
+    uSpin: { value: 0 },
+    uSize: { value: POINT_SIZE }
   },
   vertexShader: `
     uniform float uTime;
     uniform float uProgress;
+    uniform float uFloat;
+    uniform float uSpin;
     uniform float uSize;
-    attribute vec3 chaosPos;
+    attribute vec3 fromPos;
     attribute vec3 targetPos;
     varying vec3 vColor;
 
     void main() {
       vColor = color;
-      vec3 pos = mix(chaosPos, targetPos, uProgress);
+      // Blend from wherever the particles were when the transition started
+      vec3 pos = mix(fromPos, targetPos, uProgress);
+
+      // Orbiting states turn the whole layout around the trunk axis
+      float c = cos(uSpin);
+      float s = sin(uSpin);
+      pos = vec3(pos.x * c + pos.z * s, pos.y, -pos.x * s + pos.z * c);
       
       // Floating animation for elegance
-      pos.x += sin(uTime * 0.8 + float(gl_VertexID) * 0.001) * 0.15 * (1.0 - uProgress);
-      pos.z += cos(uTime * 0.8 + float(gl_VertexID) * 0.001) * 0.15 * (1.0 - uProgress);
+      pos.x += sin(uTime * 0.8 + float(gl_VertexID) * 0.001) * 0.15 * uFloat;
+      pos.z += cos(uTime * 0.8 + float(gl_VertexID) * 0.001) * 0.15 * uFloat;
 
       vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
       gl_PointSize = uSize * (400.0 / -mvPosition.z);
@@ -50,54 +71,130 @@ const FoliageShader = {
   `
 };
 
-const Foliage: React.FC<FoliageProps> = ({ treeState }) => {
+const Foliage: React.FC<FoliageProps> = ({ treeState, seed, layout, transition, palette, count, music }) => {
   const shaderRef = useRef<THREE.ShaderMaterial>(null);
-  const progressRef = useRef(0);
+  const geometryRef = useRef<THREE.BufferGeometry>(null);
+  const spinAngle = useRef(0);
+  // Drift and orbit speed blend between the two states of the running transition
+  const motion = useRef({ fromFloat: 0, toFloat: 0, fromSpin: 0, toSpin: 0 });
+  const hasTargets = useRef(false);
+
+  // Transition buffers are updated in place, so changing state never remounts the points
+  const fromPositions = useMemo(() => new Float32Array(MAX_FOLIAGE_COUNT * 3), []);
+  const targetPositions = useMemo(() => new Float32Array(MAX_FOLIAGE_COUNT * 3), []);
+
+  const statePositions = useMemo(() => {
+    const definition = getStateDefinition(treeState);
+    const positions = new Float32Array(MAX_FOLIAGE_COUNT * 3);
+    const random = createRandom(deriveSeed(seed, `foliage-${treeState}`));
+    for (let i = 0; i < MAX_FOLIAGE_COUNT; i++) {
+      const { position } = definition.samplePoint({
+        subsystem: 'foliage',
+        random,
+        yRatio: Math.pow(random(), 0.8),
+        index: i,
+        total: MAX_FOLIAGE_COUNT,
+        context: layout,
+      });
+      positions[i * 3] = position.x;
+      positions[i * 3 + 1] = position.y;
+      positions[i * 3 + 2] = position.z;
+    }
+    return positions;
+  }, [treeState, seed, layout]);
+
+  // When a transition starts, freeze the on-screen layout (blend and orbit) as the new
+  // starting point. This also handles changing state mid-transition.
+  useEffect(() => transition.subscribe((event) => {
+    if (event.type !== 'start' || !hasTargets.current) return;
+    const t = event.interruptedProgress;
+    const c = Math.cos(spinAngle.current);
+    const s = Math.sin(spinAngle.current);
+    for (let i = 0; i < MAX_FOLIAGE_COUNT * 3; i += 3) {
+      const x = fromPositions[i] + (targetPositions[i] - fromPositions[i]) * t;
+      const y = fromPositions[i + 1] + (targetPositions[i + 1] - fromPositions[i + 1]) * t;
+      const z = fromPositions[i + 2] + (targetPositions[i + 2] - fromPositions[i + 2]) * t;
+      fromPositions[i] = x * c + z * s;
+      fromPositions[i + 1] = y;
+      fromPositions[i + 2] = -x * s + z * c;
+    }
+    const m = motion.current;
+    m.fromFloat = THREE.MathUtils.lerp(m.fromFloat, m.toFloat, t);
+    m.fromSpin = THREE.MathUtils.lerp(m.fromSpin, m.toSpin, t);
+    spinAngle.current = 0;
+    if (geometryRef.current) geometryRef.current.attributes.fromPos.needsUpdate = true;
+  }), [transition, fromPositions, targetPositions]);
+
+  // Aim the running transition at the new layout
+  useLayoutEffect(() => {
+    const definition = getStateDefinition(treeState);
+    const m = motion.current;
+    if (!hasTargets.current) {
+      fromPositions.set(statePositions);
+      hasTargets.current = true;
+      m.fromFloat = definition.float;
+      m.fromSpin = definition.spin;
+    }
+    m.toFloat = definition.float;
+    m.toSpin = definition.spin;
+    targetPositions.set(statePositions);
+
+    const geometry = geometryRef.current;
+    if (geometry) {
+      geometry.attributes.fromPos.needsUpdate = true;
+      geometry.attributes.targetPos.needsUpdate = true;
+    }
+  }, [treeState, statePositions, fromPositions, targetPositions]);
   
-  const { chaosPositions, targetPositions, colors } = useMemo(() => {
-    const chaos = new Float32Array(COUNT * 3);
-    const target = new Float32Array(COUNT * 3);
-    const cols = new Float32Array(COUNT * 3);
-
-    const color1 = new THREE.Color('#012115'); // Deep emerald
-    const color2 = new THREE.Color('#0F5132'); // Leaf green
-    const color3 = new THREE.Color('#D4AF37'); // Gold flecks
-
-    for (let i = 0; i < COUNT; i++) {
-      const tPos = getTreePoint(TREE_HEIGHT, TREE_RADIUS, Math.pow(Math.random(), 0.8));
-      target[i * 3] = tPos.x;
-      target[i * 3 + 1] = tPos.y;
-      target[i * 3 + 2] = tPos.z;
-
-      const cPos = getRandomSpherePoint(15);
-      chaos[i * 3] = cPos.x;
-      chaos[i * 3 + 1] = cPos.y;
-      chaos[i * 3 + 2] = cPos.z;
-
-      const choice = Math.random();
+  // Recoloured in place when the theme changes
+  const colors = useMemo(() => new Float32Array(MAX_FOLIAGE_COUNT * 3), []);
+  // Unused by the shader, but three.js needs a position attribute to size the draw
+  const positions = useMemo(() => new Float32Array(MAX_FOLIAGE_COUNT * 3), []);
+
+  // Quality tiers draw a prefix of the buffers; every sample is independent, so any prefix is an even spread
+  useLayoutEffect(() => {
+    geometryRef.current?.setDrawRange(0, count);
+  }, [count, seed]);
+
+  useLayoutEffect(() => {
+    const random = createRandom(deriveSeed(seed, 'foliage'));
+
+    const color1 = new THREE.Color(palette[0]); // Base (deep emerald in the classic theme)
+    const color2 = new THREE.Color(palette[1]); // Leaf
+    const color3 = new THREE.Color(palette[2]); // Accent flecks
+
+    for (let i = 0; i < MAX_FOLIAGE_COUNT; i++) {
+      const choice = random();
       const c = choice > 0.92 ? color3 : (choice > 0.4 ? color2 : color1);
-      cols[i * 3] = c.r;
-      cols[i * 3 + 1] = c.g;
-      cols[i * 3 + 2] = c.b;
+      colors[i * 3] = c.r;
+      colors[i * 3 + 1] = c.g;
+      colors[i * 3 + 2] = c.b;
     }
-    return { chaosPositions: chaos, targetPositions: target, colors: cols };
-  }, []);
+    if (geometryRef.current) geometryRef.current.attributes.color.needsUpdate = true;
+  }, [seed, palette, colors]);
 
   useFrame((state, delta) => {
     if (!shaderRef.current) return;
-    const targetVal = treeState === TreeState.FORMED ? 1 : 0;
-    progressRef.current = THREE.MathUtils.lerp(progressRef.current, targetVal, delta * 2.5);
-    shaderRef.current.uniforms.uProgress.value = progressRef.current;
-    shaderRef.current.uniforms.uTime.value = state.clock.elapsedTime;
+    const t = transition.eased;
+    const m = motion.current;
+    spinAngle.current += THREE.MathUtils.lerp(m.fromSpin, m.toSpin, t) * delta;
+
+    const { uniforms } = shaderRef.current;
+    uniforms.uProgress.value = t;
+    uniforms.uFloat.value = THREE.MathUtils.lerp(m.fromFloat, m.toFloat, t);
+    uniforms.uSpin.value = spinAngle.current;
+    uniforms.uTime.value = state.clock.elapsedTime;
+    uniforms.uSize.value = POINT_SIZE * (1 + music.levels.mid * MID_SIZE_BOOST);
   });
 
   return (
     <points frustumCulled={false}>
-      <bufferGeometry>
-        <bufferAttribute attach="attributes-chaosPos" count={COUNT} array={chaosPositions} itemSize={3} />
-        <bufferAttribute attach="attributes-targetPos" count={COUNT} array={targetPositions} itemSize={3} />
-        <bufferAttribute attach="attributes-color" count={COUNT} array={colors} itemSize={3} />
-        <bufferAttribute attach="attributes-position" count={COUNT} array={new Float32Array(COUNT * 3)} itemSize={3} />
+      {/* Keyed by seed so a re-roll uploads fresh attribute buffers */}
+      <bufferGeometry key={seed} ref={geometryRef}>
+        <bufferAttribute attach="attributes-fromPos" count={MAX_FOLIAGE_COUNT} array={fromPositions} itemSize={3} />
+        <bufferAttribute attach="attributes-targetPos" count={MAX_FOLIAGE_COUNT} array={targetPositions} itemSize={3} />
+        <bufferAttribute attach="attributes-color" count={MAX_FOLIAGE_COUNT} array={colors} itemSize={3} />
+        <bufferAttribute attach="attributes-position" count={MAX_FOLIAGE_COUNT} array={positions} itemSize={3} />
       </bufferGeometry>
       <shaderMaterial
         ref={shaderRef}
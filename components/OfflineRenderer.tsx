@@ -0,0 +1,100 @@
+import React, { useEffect, useRef } from 'react';
+import { useThree, useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import type { EffectComposer } from 'postprocessing';
+import { RenderSettings, RenderResult, FrameSink, createFrameSink, getFrameCount } from '../offlineRender.ts';
+
+interface OfflineRendererProps {
+  settings: RenderSettings | null; // Renders while set; the Canvas must be on frameloop="never" meanwhile
+  composer: React.RefObject<EffectComposer>;
+  onProgress: (frame: number, total: number) => void;
+  onComplete: (result: RenderResult) => void;
+  onError: (error: unknown) => void;
+}
+
+// Steps the whole scene (useFrame subscribers and the EffectComposer) one fixed
+// timestep at a time and hands each finished frame to the encoder
+const OfflineRenderer: React.FC<OfflineRendererProps> = ({ settings, composer, onProgress, onComplete, onError }) => {
+  const { gl, camera, clock, advance, get } = useThree();
+  // Clock time of the last realtime frame: switching frameloop resets the clock to zero
+  const lastElapsed = useRef(0);
+  const resumeAt = useRef<number | null>(null);
+  // Latest callbacks, so a parent re-render mid-render does not restart the effect
+  const callbacks = useRef({ onProgress, onComplete, onError });
+  callbacks.current = { onProgress, onComplete, onError };
+
+  useFrame((state) => {
+    lastElapsed.current = state.clock.elapsedTime;
+  });
+
+  useEffect(() => {
+    if (!settings) {
+      // Back on the realtime loop
+      if (resumeAt.current !== null) {
+        clock.elapsedTime = resumeAt.current;
+        resumeAt.current = null;
+      }
+      return;
+    }
+
+    let cancelled = false;
+    const perspective = camera as THREE.PerspectiveCamera;
+
+    const run = async () => {
+      const start = lastElapsed.current;
+      const total = getFrameCount(settings);
+      let sink: FrameSink | null = null;
+      let time = start;
+
+      // Draw at exactly the requested size. Only the drawing buffer changes, so the
+      // page layout stays put and R3F's own size state is untouched.
+      gl.setPixelRatio(1);
+      if (composer.current) composer.current.setSize(settings.width, settings.height, false);
+      else gl.setSize(settings.width, settings.height, false);
+      perspective.aspect = settings.width / settings.height;
+      perspective.updateProjectionMatrix();
+
+      try {
+        sink = await createFrameSink(settings);
+        clock.elapsedTime = start;
+        for (let i = 0; i < total && !cancelled; i++) {
+          time = start + i / settings.fps;
+          advance(time);
+          await sink.addFrame(gl.domElement, i);
+          callbacks.current.onProgress(i + 1, total);
+          // Let the progress UI update between frames
+          await new Promise(resolve => setTimeout(resolve, 0));
+        }
+        if (!cancelled) {
+          const result = await sink.finish();
+          if (!cancelled) callbacks.current.onComplete(result);
+        }
+      } catch (err) {
+        if (!cancelled) callbacks.current.onError(err);
+      } finally {
+        if (cancelled) sink?.cancel();
+
+        const { size, viewport, frameloop } = get();
+        gl.setPixelRatio(viewport.dpr);
+        if (composer.current) composer.current.setSize(size.width, size.height);
+        else gl.setSize(size.width, size.height);
+        perspective.aspect = size.width / size.height;
+        perspective.updateProjectionMatrix();
+
+        // Continue the realtime clock from the last rendered frame. When cancelled, the
+        // loop is already running again; otherwise it resumes once settings clear.
+        if (frameloop === 'never') resumeAt.current = time;
+        else clock.elapsedTime = time;
+      }
+    };
+
+    run();
+    return () => {
+      cancelled = true;
+    };
+  }, [settings, gl, camera, clock, advance, get, composer]);
+
+  return null;
+};
+
+export default OfflineRenderer;
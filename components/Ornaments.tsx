@@ -1,61 +1,216 @@
-import React, { useMemo, useRef, useLayoutEffect } from 'react';
+import React, { useMemo, useRef, useEffect, useLayoutEffect, useCallback } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { TreeState } from '../types.ts';
-import { getRandomSpherePoint, getTreePoint } from '../utils.ts';
+import { createRandom, deriveSeed } from '../utils.ts';
+import { LayoutContext, getStateDefinition } from '../treeStates.ts';
+import { TransitionController } from '../transitionController.ts';
+import { MusicPlayer } from '../musicPlayer.ts';
 
 interface OrnamentsProps {
   treeState: TreeState;
   type: 'ball' | 'box' | 'light';
-  count: number;
+  count: number; // Allocated instances (largest quality tier)
+  visibleCount: number; // Instances drawn at the current quality tier
   colorPalette: string[];
+  glowColor: string; // Emissive colour, used by the small lights
+  seed: number;
+  layout: LayoutContext;
+  transition: TransitionController;
+  music: MusicPlayer; // Bass pulses the small lights
 }
 
-const tempObject = new THREE.Object3D();
+// Share of the transition by which the slowest ornaments start late, so the
+// ornaments still arrive one after another yet all finish with the transition
+const STAGGER = 0.35;
 
-const Ornaments: React.FC<OrnamentsProps> = ({ treeState, type, count, colorPalette }) => {
+// Light response at full bass
+const BASS_SCALE = 0.6; // Extra size
+const BASS_GLOW = 1.5; // Extra emissive intensity, relative to the resting glow
+const LIGHT_GLOW = 2;
+
+// Injected into MeshStandardMaterial so ornaments keep the lit, reflective look while
+// the morph, orbit, spin and light pulse run on the GPU. The instance matrix holds only
+// each ornament's resting position, which passes that swap the material (the contact
+// shadow depth pass) still pick up.
+const VERTEX_HEADER = /* glsl */`
+  uniform float uTime;
+  uniform float uProgress;
+  uniform float uSpin;
+  uniform float uTurn;
+  uniform float uPulse;
+  uniform float uBass;
+  attribute vec3 fromPos;
+  attribute vec3 aRotation;
+  attribute float aSpeed;
+
+  // Same matrix as a THREE.Euler in XYZ order
+  mat3 rotationXYZ(vec3 e) {
+    float a = cos(e.x), b = sin(e.x);
+    float c = cos(e.y), d = sin(e.y);
+    float g = cos(e.z), f = sin(e.z);
+    return mat3(
+      c * g, a * f + b * g * d, b * f - a * g * d,
+      -c * f, a * g - b * f * d, b * g + a * f * d,
+      d, -b * c, a * c
+    );
+  }
+`;
+
+const VERTEX_NORMAL = /* glsl */`
+  #include <beginnormal_vertex>
+  mat3 ornamentRotation = rotationXYZ(aRotation + vec3(0.0, uTime * uTurn * aSpeed, 0.0));
+  objectNormal = ornamentRotation * objectNormal;
+`;
+
+const VERTEX_POSITION = /* glsl */`
+  #include <begin_vertex>
+  // Faster ornaments (speed 1-3) set off earlier within the shared transition
+  float delay = (3.0 - aSpeed) * 0.5 * ${STAGGER.toFixed(2)};
+  float local = clamp((uProgress - delay) / (1.0 - delay), 0.0, 1.0);
+  float eased = local * local * local * (local * (local * 6.0 - 15.0) + 10.0);
+
+  // Orbiting states turn the resting layout around the trunk axis
+  vec3 rest = instanceMatrix[3].xyz;
+  float c = cos(uSpin);
+  float s = sin(uSpin);
+  vec3 target = vec3(rest.x * c + rest.z * s, rest.y, -rest.x * s + rest.z * c);
+  vec3 pos = mix(fromPos, target, eased);
+
+  float pulse = (1.0 + sin(uTime * 5.0 + float(gl_InstanceID)) * uPulse) * (1.0 + uBass);
+  // project_vertex adds the resting position back through instanceMatrix
+  transformed = ornamentRotation * transformed * pulse + pos - rest;
+`;
+
+const smootherstep = (x: number) => x * x * x * (x * (x * 6 - 15) + 10);
+
+const tempMatrix = new THREE.Matrix4();
+
+const Ornaments: React.FC<OrnamentsProps> = ({ treeState, type, count, visibleCount, colorPalette, glowColor, seed, layout, transition, music }) => {
   const meshRef = useRef<THREE.InstancedMesh>(null);
+  const spinAngle = useRef(0);
+  // Progress and orbit of the last drawn frame, to freeze the on-screen layout on a new transition
+  const lastFrame = useRef({ progress: 1, spin: 0 });
+  // Orbit speed eases between states along with the foliage
+  const motion = useRef({ fromSpin: 0, toSpin: 0 });
+  const hasTargets = useRef(false);
+
+  const uniforms = useMemo(() => ({
+    uTime: { value: 0 },
+    uProgress: { value: 1 },
+    uSpin: { value: 0 },
+    uTurn: { value: type === 'box' ? 0 : 0.1 }, // Boxes keep their random tilt, the rest turn slowly
+    uPulse: { value: type === 'light' ? 0.2 : 0 },
+    uBass: { value: 0 },
+  }), [type]);
 
-  // Generate data
-  const { chaosData, targetData, speeds, initialRotations } = useMemo(() => {
-    const chaos = [];
-    const target = [];
-    const spds = [];
-    const rots = [];
+  const onBeforeCompile = useCallback((shader: THREE.WebGLProgramParametersWithUniforms) => {
+    Object.assign(shader.uniforms, uniforms);
+    shader.vertexShader = VERTEX_HEADER + shader.vertexShader
+      .replace('#include <beginnormal_vertex>', VERTEX_NORMAL)
+      .replace('#include <begin_vertex>', VERTEX_POSITION);
+  }, [uniforms]);
+
+  // Generate per-instance data
+  const { speeds, rotations, colorPicks } = useMemo(() => {
+    const spds = new Float32Array(count);
+    const rots = new Float32Array(count * 3);
+    const picks = [];
+    const random = createRandom(deriveSeed(seed, `ornaments-${type}`));
 
     for (let i = 0; i < count; i++) {
-      // Chaos position
-      chaos.push(getRandomSpherePoint(20));
+      // Random speed for organic movement
+      spds[i] = 1 + random() * 2;
+
+      // Initial random rotation, only kept by boxes (always drawn so the stream stays the same)
+      for (let axis = 0; axis < 3; axis++) {
+        const angle = random() * Math.PI;
+        if (type === 'box') rots[i * 3 + axis] = angle;
+      }
+
+      // Palette pick (0-1), mapped to a colour when the palette is applied
+      picks.push(random());
+    }
+    return { speeds: spds, rotations: rots, colorPicks: picks };
+  }, [count, type, seed]);
 
-      // Tree position (slightly offset radius to sit ON the foliage)
+  // Positions for the current state. Kept separate from the per-instance data so a
+  // state or shape change only retargets the morph instead of resetting the ornaments.
+  const statePositions = useMemo(() => {
+    const definition = getStateDefinition(treeState);
+    const random = createRandom(deriveSeed(seed, `ornaments-${type}-${treeState}`));
+    const positions = new Float32Array(count * 3);
+    for (let i = 0; i < count; i++) {
       // Use power > 1 (e.g., 1.8) to bias distribution towards bottom (yRatio 0)
       // This reduces clustering at the cone tip (top)
-      const yBias = Math.pow(Math.random(), 1.8);
-      const tPos = getTreePoint(14, 5, yBias);
-      
-      // Push it slightly out based on type
+      const yBias = Math.pow(random(), 1.8);
+      const { position, normal } = definition.samplePoint({
+        subsystem: 'ornament',
+        random,
+        yRatio: yBias,
+        index: i,
+        total: count,
+        context: layout,
+      });
+
+      // Push it slightly out based on type (to sit ON the foliage)
       const offset = type === 'box' ? 0.5 : (type === 'ball' ? 0.3 : 0.6);
-      const direction = new THREE.Vector3(tPos.x, 0, tPos.z).normalize();
-      tPos.add(direction.multiplyScalar(offset));
-      target.push(tPos);
+      position.addScaledVector(normal, offset);
+      position.toArray(positions, i * 3);
+    }
+    return positions;
+  }, [count, type, seed, treeState, layout]);
 
-      // Random speed for organic movement
-      spds.push(1 + Math.random() * 2);
-
-      // Initial random rotation
-      rots.push(new THREE.Euler(
-        Math.random() * Math.PI, 
-        Math.random() * Math.PI, 
-        Math.random() * Math.PI
-      ));
+  // Where the running transition started from and where it is heading. Updated in place.
+  const fromPositions = useMemo(() => new Float32Array(count * 3), [count]);
+  const targetPositions = useMemo(() => new Float32Array(count * 3), [count]);
+
+  // Every transition starts where the ornaments are; orbiting states restart their
+  // turn from the layout's own orientation. Mirrors the vertex shader for the last frame.
+  useEffect(() => transition.subscribe((event) => {
+    if (event.type !== 'start' || !hasTargets.current) return;
+    const { progress, spin } = lastFrame.current;
+    const c = Math.cos(spin);
+    const s = Math.sin(spin);
+    for (let i = 0; i < count; i++) {
+      const delay = ((3 - speeds[i]) / 2) * STAGGER;
+      const t = smootherstep(THREE.MathUtils.clamp((progress - delay) / (1 - delay), 0, 1));
+      const x = targetPositions[i * 3];
+      const z = targetPositions[i * 3 + 2];
+      const targets = [x * c + z * s, targetPositions[i * 3 + 1], -x * s + z * c];
+      for (let axis = 0; axis < 3; axis++) {
+        const k = i * 3 + axis;
+        fromPositions[k] += (targets[axis] - fromPositions[k]) * t;
+      }
+    }
+    const m = motion.current;
+    m.fromSpin = THREE.MathUtils.lerp(m.fromSpin, m.toSpin, event.interruptedProgress);
+    spinAngle.current = 0;
+    const attribute = meshRef.current?.geometry.attributes.fromPos;
+    if (attribute) attribute.needsUpdate = true;
+  }), [transition, count, speeds, fromPositions, targetPositions]);
+
+  // Aim the running transition at the new layout: the resting positions live in the
+  // instance matrices, so this is the only time they are uploaded
+  useLayoutEffect(() => {
+    const { spin } = getStateDefinition(treeState);
+    if (!hasTargets.current) {
+      fromPositions.set(statePositions);
+      hasTargets.current = true;
+      motion.current.fromSpin = spin;
     }
-    return { chaosData: chaos, targetData: target, speeds: spds, initialRotations: rots };
-  }, [count, type]);
+    motion.current.toSpin = spin;
+    targetPositions.set(statePositions);
 
-  // Current actual positions (for manual animation state)
-  const currentPositions = useMemo(() => {
-    return chaosData.map(v => v.clone());
-  }, [chaosData]);
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    for (let i = 0; i < count; i++) {
+      tempMatrix.makeTranslation(statePositions[i * 3], statePositions[i * 3 + 1], statePositions[i * 3 + 2]);
+      mesh.setMatrixAt(i, tempMatrix);
+    }
+    mesh.instanceMatrix.needsUpdate = true;
+    mesh.geometry.attributes.fromPos.needsUpdate = true;
+  }, [treeState, count, statePositions, fromPositions, targetPositions]);
 
   // Set initial colors and expand bounding box
   useLayoutEffect(() => {
@@ -64,7 +219,7 @@ const Ornaments: React.FC<OrnamentsProps> = ({ treeState, type, count, colorPale
     // 1. Set Colors
     const color = new THREE.Color();
     for (let i = 0; i < count; i++) {
-      color.set(colorPalette[Math.floor(Math.random() * colorPalette.length)]);
+      color.set(colorPalette[Math.floor(colorPicks[i] * colorPalette.length)]);
       meshRef.current.setColorAt(i, color);
     }
     meshRef.current.instanceColor!.needsUpdate = true;
@@ -81,55 +236,43 @@ const Ornaments: React.FC<OrnamentsProps> = ({ treeState, type, count, colorPale
     meshRef.current.geometry.computeBoundingBox = () => {};
     meshRef.current.geometry.computeBoundingSphere = () => {};
 
-  }, [count, colorPalette]);
+  }, [count, colorPalette, colorPicks]);
 
+  // Only uniforms change per frame; nothing is uploaded per instance
   useFrame((state, delta) => {
     if (!meshRef.current) return;
 
-    const targetIsTree = treeState === TreeState.FORMED;
+    const m = motion.current;
+    spinAngle.current += THREE.MathUtils.lerp(m.fromSpin, m.toSpin, transition.eased) * delta;
+    lastFrame.current.progress = transition.progress;
+    lastFrame.current.spin = spinAngle.current;
+    meshRef.current.count = Math.min(visibleCount, count);
 
-    for (let i = 0; i < count; i++) {
-      const target = targetIsTree ? targetData[i] : chaosData[i];
-      const current = currentPositions[i];
-      const speed = speeds[i];
-
-      // Lerp position
-      current.lerp(target, speed * delta);
-
-      // Update instance matrix
-      tempObject.position.copy(current);
-      
-      // Rotation logic
-      if (type === 'box') {
-         // Static rotation for boxes (no animation)
-         tempObject.rotation.copy(initialRotations[i]);
-      } else {
-         // Continuous rotation for balls/lights
-         tempObject.rotation.set(0, 0, 0);
-         tempObject.rotation.y = state.clock.elapsedTime * 0.1 * speed;
-      }
+    uniforms.uTime.value = state.clock.elapsedTime;
+    uniforms.uProgress.value = transition.progress;
+    uniforms.uSpin.value = spinAngle.current;
 
-      // Scale pulse for lights
-      if (type === 'light') {
-        const scale = 1 + Math.sin(state.clock.elapsedTime * 5 + i) * 0.2;
-        tempObject.scale.setScalar(scale);
-      } else {
-        tempObject.scale.setScalar(1);
-      }
-      
-      tempObject.updateMatrix();
-      meshRef.current.setMatrixAt(i, tempObject.matrix);
+    if (type === 'light') {
+      const { bass } = music.levels;
+      uniforms.uBass.value = bass * BASS_SCALE;
+      (meshRef.current.material as THREE.MeshStandardMaterial).emissiveIntensity = LIGHT_GLOW * (1 + bass * BASS_GLOW);
     }
-    meshRef.current.instanceMatrix.needsUpdate = true;
   });
 
   // Geometry & Material Selection
-  let Geometry = <sphereGeometry args={[0.3, 32, 32]} />; // Increased segments for smoother reflections
-  if (type === 'box') Geometry = <boxGeometry args={[0.5, 0.5, 0.5]} />;
-  if (type === 'light') Geometry = <sphereGeometry args={[0.08, 16, 16]} />;
+  const instanceAttributes = (
+    <>
+      <instancedBufferAttribute attach="attributes-fromPos" args={[fromPositions, 3]} />
+      <instancedBufferAttribute attach="attributes-aRotation" args={[rotations, 3]} />
+      <instancedBufferAttribute attach="attributes-aSpeed" args={[speeds, 1]} />
+    </>
+  );
+  let Geometry = <sphereGeometry args={[0.3, 32, 32]}>{instanceAttributes}</sphereGeometry>; // Increased segments for smoother reflections
+  if (type === 'box') Geometry = <boxGeometry args={[0.5, 0.5, 0.5]}>{instanceAttributes}</boxGeometry>;
+  if (type === 'light') Geometry = <sphereGeometry args={[0.08, 16, 16]}>{instanceAttributes}</sphereGeometry>;
 
-  const emissive = type === 'light' ? new THREE.Color('#ffaa00') : new THREE.Color('#000000');
-  const emissiveIntensity = type === 'light' ? 2 : 0;
+  const emissive = type === 'light' ? new THREE.Color(glowColor) : new THREE.Color('#000000');
+  const emissiveIntensity = type === 'light' ? LIGHT_GLOW : 0;
   
   // RESTORED REFLECTION SETTINGS
   // To get that "indoor scene" look:
@@ -150,6 +293,7 @@ const Ornaments: React.FC<OrnamentsProps> = ({ treeState, type, count, colorPale
         emissive={emissive}
         emissiveIntensity={emissiveIntensity}
         envMapIntensity={envMapIntensity}
+        onBeforeCompile={onBeforeCompile}
       />
     </instancedMesh>
   );
@@ -3,22 +3,28 @@ import { useFrame, useThree } from '@react-three/fiber';
 import { useTexture } from '@react-three/drei';
 import * as THREE from 'three';
 import { PhotoData, TreeState } from '../types.ts';
-import { createBackPhotoUri } from '../utils.ts';
+import { BackFaceSettings, createBackPhotoUri } from '../backFace.ts';
+import { getStateDefinition, rotateAroundY } from '../treeStates.ts';
+import { TransitionController } from '../transitionController.ts';
 
 interface PhotoFrameProps {
   data: PhotoData;
   treeState: TreeState;
+  transition: TransitionController;
+  frameColor: string;
   isFocused: boolean;
+  isSelected: boolean; // Keyboard cursor, drawn with a glowing border
+  flipRequest?: object | null; // Flips the photo while focused; a new object each time
   onFocus: (id: string) => void;
   onBlur: () => void;
   backPhotoUrl: string | null;
   backText: string;
+  backFace: BackFaceSettings; // Template the generated backs are drawn with
   isClearing: boolean;
 }
 
 // Fixed Width
 const FRAME_WIDTH = 1.2;
-const GOLD_COLOR = new THREE.Color('#D4AF37');
 
 // Helper to disable depth test/write conditionally
 const getMaterialProps = (isFocused: boolean) => {
@@ -63,10 +69,23 @@ const useCoverTexture = (texture: THREE.Texture, frameWidth: number, frameHeight
   return texture;
 };
 
+// Free GPU memory and the loader cache entry once a texture is no longer shown
+// (photo removed or replaced). Only used for textures owned by a single frame.
+const useDisposeTexture = (texture: THREE.Texture, url: string, enabled = true) => {
+  useEffect(() => {
+    if (!enabled) return;
+    return () => {
+      texture.dispose();
+      useTexture.clear(url);
+    };
+  }, [texture, url, enabled]);
+};
+
 // Sub-component for Front Photo
 const FrontPhotoFace = ({ url, width, height, isFocused }: { url: string, width: number, height: number, isFocused: boolean }) => {
     const texture = useTexture(url);
     useCoverTexture(texture, width, height);
+    useDisposeTexture(texture, url);
     
     const matProps = useMemo(() => getMaterialProps(isFocused), [isFocused]);
 
@@ -93,9 +112,11 @@ const FrontPhotoFace = ({ url, width, height, isFocused }: { url: string, width:
 }
 
 // Sub-component for Back Photo
-const BackPhotoFace = ({ url, width, height, isFocused }: { url: string, width: number, height: number, isFocused: boolean }) => {
+const BackPhotoFace = ({ url, width, height, isFocused, ownsTexture }: { url: string, width: number, height: number, isFocused: boolean, ownsTexture: boolean }) => {
   const texture = useTexture(url);
   useCoverTexture(texture, width, height);
+  // The global back image is shared by every frame, so only per-photo images are disposed here
+  useDisposeTexture(texture, url, ownsTexture);
   
   const matProps = useMemo(() => getMaterialProps(isFocused), [isFocused]);
 
@@ -116,7 +137,7 @@ const BackPhotoFace = ({ url, width, height, isFocused }: { url: string, width:
 };
 
 const PhotoFrame: React.FC<PhotoFrameProps> = ({ 
-  data, treeState, isFocused, onFocus, onBlur, backPhotoUrl, backText, isClearing
+  data, treeState, transition, frameColor, isFocused, isSelected, flipRequest, onFocus, onBlur, backPhotoUrl, backText, backFace, isClearing
 }) => {
   const groupRef = useRef<THREE.Group>(null);
   
@@ -127,13 +148,16 @@ const PhotoFrame: React.FC<PhotoFrameProps> = ({
   const currentHeight = data.frameHeight || (FRAME_WIDTH * (10.8 / 8.9));
 
   // Determine the texture for the back
+  // Per-photo image/caption take priority over the global back image/message
   const backTextureUri = useMemo(() => {
+      const aspect = currentHeight / FRAME_WIDTH;
+      if (data.backUrl) return data.backUrl;
+      if (data.caption) return createBackPhotoUri(data.caption, aspect, backFace);
       // If user uploaded an image, use it
       if (backPhotoUrl) return backPhotoUrl;
       // Otherwise generate SVG based on CURRENT frame dimensions
-      const aspect = currentHeight / FRAME_WIDTH;
-      return createBackPhotoUri(backText, aspect);
-  }, [backPhotoUrl, backText, currentHeight]);
+      return createBackPhotoUri(backText, aspect, backFace);
+  }, [data.backUrl, data.caption, backPhotoUrl, backText, backFace, currentHeight]);
 
   // Animation progress: 0 (Resting) -> 1 (Focused)
   const progress = useRef(0);
@@ -141,14 +165,33 @@ const PhotoFrame: React.FC<PhotoFrameProps> = ({
   const flipProgress = useRef(0);
   // Clearing animation: 1 (Visible) -> 0 (Cleared)
   const visibilityScale = useRef(1);
+  // Selection highlight: 0 (None) -> 1 (Selected)
+  const selection = useRef(0);
 
   // --- Smooth State Transition Refs ---
   const currentRestingPos = useRef(data.chaosPos.clone());
   const currentRestingRot = useRef(new THREE.Quaternion().setFromEuler(new THREE.Euler(data.chaosPos.x, data.chaosPos.y, data.chaosPos.z)));
+  // Resting pose when the running transition started
+  const fromRestingPos = useRef(currentRestingPos.current.clone());
+  const fromRestingRot = useRef(currentRestingRot.current.clone());
+  // Accumulated orbit of spinning states, restarted on every transition
+  const spinAngle = useRef(0);
 
   // --- Double Click Logic Refs ---
   const clickTimeoutRef = useRef<number | null>(null);
 
+  useEffect(() => transition.subscribe((event) => {
+    if (event.type !== 'start') return;
+    fromRestingPos.current.copy(currentRestingPos.current);
+    fromRestingRot.current.copy(currentRestingRot.current);
+    spinAngle.current = 0;
+  }), [transition]);
+
+  // Keyboard flips only apply to the photo on show
+  useEffect(() => {
+    if (flipRequest && isFocused) setIsFlipped(prev => !prev);
+  }, [flipRequest]);
+
   // Clean up timeout on unmount
   useEffect(() => {
     return () => {
@@ -217,16 +260,26 @@ const PhotoFrame: React.FC<PhotoFrameProps> = ({
       dummyObj.rotateY(Math.PI);
       destRestingRot.copy(dummyObj.quaternion);
     } else {
-      destRestingPos.copy(data.chaosPos);
+      // Other states tumble the photo, orbiting with the layout where the state spins
+      spinAngle.current += getStateDefinition(treeState).spin * delta;
+      rotateAroundY(destRestingPos.copy(data.position), spinAngle.current);
       const dummy = new THREE.Object3D();
       dummy.rotation.set(data.chaosPos.x, data.chaosPos.y, data.chaosPos.z);
       destRestingRot.copy(dummy.quaternion);
     }
 
     // --- 2. Smoothly Interpolate Resting State ---
-    const moveSpeed = 2.5;
-    currentRestingPos.current.lerp(destRestingPos, delta * moveSpeed);
-    currentRestingRot.current.slerp(destRestingRot, delta * moveSpeed);
+    if (transition.isRunning) {
+      // State changes follow the shared transition clock
+      const t = transition.eased;
+      currentRestingPos.current.lerpVectors(fromRestingPos.current, destRestingPos, t);
+      currentRestingRot.current.slerpQuaternions(fromRestingRot.current, destRestingRot, t);
+    } else {
+      // Between transitions, ease into album changes (new, reordered or removed photos)
+      const moveSpeed = 2.5;
+      currentRestingPos.current.lerp(destRestingPos, delta * moveSpeed);
+      currentRestingRot.current.slerp(destRestingRot, delta * moveSpeed);
+    }
 
     // --- 3. Calculate "Active" State ---
     const activePos = new THREE.Vector3();
@@ -252,6 +305,7 @@ const PhotoFrame: React.FC<PhotoFrameProps> = ({
     const perspectiveCamera = camera as THREE.PerspectiveCamera;
     const vFov = THREE.MathUtils.degToRad(perspectiveCamera.fov);
     const viewHeight = 2 * Math.tan(vFov / 2) * dist;
+    // With a recording format active this is the recording's aspect, so the photo fits its crop
     const viewWidth = viewHeight * perspectiveCamera.aspect;
 
     const objW = FRAME_WIDTH + 0.2; 
@@ -279,7 +333,9 @@ const PhotoFrame: React.FC<PhotoFrameProps> = ({
     groupRef.current.position.lerpVectors(currentRestingPos.current, activePos, t);
     groupRef.current.quaternion.slerpQuaternions(currentRestingRot.current, activeRot, t);
     
-    const finalScale = THREE.MathUtils.lerp(1, activeScale, t) * visibilityScale.current;
+    selection.current = THREE.MathUtils.lerp(selection.current, isSelected && !isFocused ? 1 : 0, delta * 6);
+    const restingScale = 1 + selection.current * 0.15;
+    const finalScale = THREE.MathUtils.lerp(restingScale, activeScale, t) * visibilityScale.current;
     groupRef.current.scale.setScalar(finalScale);
 
   }, -10);
@@ -301,17 +357,19 @@ const PhotoFrame: React.FC<PhotoFrameProps> = ({
           <boxGeometry args={[FRAME_WIDTH + 0.08, currentHeight + 0.08, 0.05]} />
           {/* Frame: High Metalness for Gold Reflection */}
           <meshStandardMaterial 
-            color={GOLD_COLOR} 
+            color={frameColor} 
             metalness={1.0} 
             roughness={0.15} 
             envMapIntensity={2.0}
+            emissive={frameColor}
+            emissiveIntensity={isSelected && !isFocused ? 0.8 : 0}
             {...matProps}
           />
         </mesh>
 
         <FrontPhotoFace url={data.url} width={FRAME_WIDTH} height={currentHeight} isFocused={isFocused} />
         
-        <BackPhotoFace url={backTextureUri} width={FRAME_WIDTH} height={currentHeight} isFocused={isFocused} />
+        <BackPhotoFace url={backTextureUri} width={FRAME_WIDTH} height={currentHeight} isFocused={isFocused} ownsTexture={backTextureUri === data.backUrl} />
       </group>
     </group>
   );
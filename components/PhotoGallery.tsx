@@ -1,52 +1,75 @@
 import React, { useMemo, useState, useEffect, Suspense } from 'react';
 import * as THREE from 'three';
-import { PhotoData, TreeState } from '../types.ts';
-import { getRandomSpherePoint, getSpiralPoint } from '../utils.ts';
+import { PhotoData, PhotoItem, TreeState } from '../types.ts';
+import { createRandom, deriveSeed, getRandomSpherePoint, getSpiralPoint } from '../utils.ts';
+import { LayoutContext, getStateDefinition } from '../treeStates.ts';
+import { TransitionController } from '../transitionController.ts';
+import { BackFaceSettings } from '../backFace.ts';
 import PhotoFrame from './PhotoFrame.tsx';
 
-// Updated interface to match App.tsx structure
-interface PhotoItem {
-  url: string;
-  height: number;
-}
-
 interface PhotoGalleryProps {
   photos: PhotoItem[]; 
   backPhotoUrl: string | null;
   backText: string;
+  backFace: BackFaceSettings;
   treeState: TreeState;
-  onFocusChange?: (isFocused: boolean) => void;
+  seed: number;
+  layout: LayoutContext;
+  transition: TransitionController;
+  frameColor: string;
+  onFocusChange?: (focusedId: string | null) => void;
   isClearing: boolean;
+  removingIds?: string[]; // Photos playing their individual shrink-out animation
+  focusRequest?: { photoId: string | null } | null; // Focus set from outside (camera path cues, keyboard); a new object each time
+  selectedId?: string | null; // Keyboard cursor
+  flipRequest?: object | null; // Flips the focused photo; a new object each time
 }
 
-const PhotoGallery: React.FC<PhotoGalleryProps> = ({ photos, backPhotoUrl, backText, treeState, onFocusChange, isClearing }) => {
+const PhotoGallery: React.FC<PhotoGalleryProps> = ({ photos, backPhotoUrl, backText, backFace, treeState, seed, layout, transition, frameColor, onFocusChange, isClearing, removingIds, focusRequest, selectedId = null, flipRequest }) => {
   const [focusedId, setFocusedId] = useState<string | null>(null);
 
+  useEffect(() => {
+    if (focusRequest) setFocusedId(focusRequest.photoId);
+  }, [focusRequest]);
+
   // Notify parent of focus state
   useEffect(() => {
     if (onFocusChange) {
-      onFocusChange(!!focusedId);
+      onFocusChange(focusedId);
     }
   }, [focusedId, onFocusChange]);
 
   // Generate Photo Data objects
   const photoObjects = useMemo(() => {
+    const definition = getStateDefinition(treeState);
     return photos.map((item, index) => {
-      const { position, rotationY } = getSpiralPoint(index, photos.length, 12, 5.5);
+      const { rotationY } = getSpiralPoint(index, photos.length, 12, 5.5);
       
       const rot = new THREE.Euler(0, rotationY, 0);
-      const chaos = getRandomSpherePoint(18);
+      // Seeded per photo id, so adding or reordering photos never moves this one's chaos position
+      const chaos = getRandomSpherePoint(18, createRandom(deriveSeed(seed, item.id)));
+      // Every state draws from the same per-photo stream, so scattered layouts agree with chaos
+      const { position } = definition.samplePoint({
+        subsystem: 'photo',
+        random: createRandom(deriveSeed(seed, item.id)),
+        yRatio: photos.length > 1 ? index / (photos.length - 1) : 0,
+        index,
+        total: photos.length,
+        context: layout,
+      });
 
       return {
-        id: `photo-${index}`,
+        id: item.id,
         url: item.url,
         position,
         rotation: rot,
         chaosPos: chaos,
-        frameHeight: item.height // Pass the dynamic height
+        frameHeight: item.height, // Pass the dynamic height
+        caption: item.caption,
+        backUrl: item.backUrl
       } as PhotoData;
     });
-  }, [photos]);
+  }, [photos, seed, treeState, layout]);
 
   return (
     <group>
@@ -55,12 +78,17 @@ const PhotoGallery: React.FC<PhotoGalleryProps> = ({ photos, backPhotoUrl, backT
             <PhotoFrame
               data={data}
               treeState={treeState}
+              transition={transition}
+              frameColor={frameColor}
               isFocused={focusedId === data.id}
+              isSelected={selectedId === data.id}
+              flipRequest={flipRequest}
               onFocus={setFocusedId}
               onBlur={() => setFocusedId(null)}
               backPhotoUrl={backPhotoUrl}
               backText={backText}
-              isClearing={isClearing}
+              backFace={backFace}
+              isClearing={isClearing || !!removingIds?.includes(data.id)}
             />
         </Suspense>
       ))}
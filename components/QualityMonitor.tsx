@@ -0,0 +1,77 @@
+import React, { useEffect, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+
+interface QualityMonitorProps {
+  isAuto: boolean; // Only step tiers in automatic mode; FPS is always reported
+  onFps?: (fps: number) => void;
+  onStep?: (direction: 1 | -1) => void;
+}
+
+const SAMPLE_SECONDS = 1;
+// Frame-time budgets: slower than ~45 fps steps down, steady ~57 fps or better steps up
+const SLOW_FRAME = 1 / 45;
+const FAST_FRAME = 1 / 57;
+const SLOW_SAMPLES = 3;
+const FAST_SAMPLES = 5;
+// Samples ignored after a step while new buffers, DPR and shaders settle
+const WARMUP_SAMPLES = 2;
+// Longer gaps mean the tab was hidden, not that rendering was slow
+const MAX_DELTA = 0.5;
+
+const QualityMonitor: React.FC<QualityMonitorProps> = ({ isAuto, onFps, onStep }) => {
+  const elapsed = useRef(0);
+  const frames = useRef(0);
+  const history = useRef<number[]>([]); // Average frame time of recent samples
+  const warmup = useRef(WARMUP_SAMPLES);
+  const lastStep = useRef<1 | -1 | null>(null);
+  // Set when a step up immediately had to be undone, to stop flip-flopping between tiers
+  const ceilingReached = useRef(false);
+
+  // Start measuring afresh whenever automatic mode is switched on
+  useEffect(() => {
+    history.current = [];
+    warmup.current = WARMUP_SAMPLES;
+    lastStep.current = null;
+    ceilingReached.current = false;
+  }, [isAuto]);
+
+  useFrame((_, delta) => {
+    if (delta > MAX_DELTA) return;
+    elapsed.current += delta;
+    frames.current += 1;
+    if (elapsed.current < SAMPLE_SECONDS) return;
+
+    const frameTime = elapsed.current / frames.current;
+    elapsed.current = 0;
+    frames.current = 0;
+    onFps?.(Math.round(1 / frameTime));
+
+    if (!isAuto) return;
+    if (warmup.current > 0) {
+      warmup.current -= 1;
+      return;
+    }
+
+    const recent = history.current;
+    recent.push(frameTime);
+    if (recent.length > FAST_SAMPLES) recent.shift();
+
+    const step = (direction: 1 | -1) => {
+      if (direction === -1 && lastStep.current === 1) ceilingReached.current = true;
+      lastStep.current = direction;
+      history.current = [];
+      warmup.current = WARMUP_SAMPLES;
+      onStep?.(direction);
+    };
+
+    if (recent.length >= SLOW_SAMPLES && recent.slice(-SLOW_SAMPLES).every(t => t > SLOW_FRAME)) {
+      step(-1);
+    } else if (!ceilingReached.current && recent.length >= FAST_SAMPLES && recent.every(t => t < FAST_FRAME)) {
+      step(1);
+    }
+  });
+
+  return null;
+};
+
+export default QualityMonitor;
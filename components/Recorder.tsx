@@ -1,106 +1,240 @@
 import React, { useEffect, useRef } from 'react';
-import { useThree } from '@react-three/fiber';
+import { useThree, useFrame } from '@react-three/fiber';
+import type { EffectComposer } from 'postprocessing';
+import { SoundtrackSettings, SoundtrackPlayback, getPlayableDuration, startSoundtrack } from '../soundtrack.ts';
+import { RecordingProgress, RecordingResult, RecordingMarker, RecordingFormat, RecordingError, pickRecordingMimeType, getRecordingExtension, getRecordingCrop } from '../recording.ts';
+import { RecordingOverlays, drawRecordingOverlays, getOutroSeconds } from '../titleCards.ts';
+import { TransitionController } from '../transitionController.ts';
+
+export interface RecorderSoundtrack {
+  buffer: AudioBuffer;
+  settings: SoundtrackSettings;
+}
 
 interface RecorderProps {
   isRecording: boolean;
-  onStop: () => void;
+  isPaused: boolean;
+  soundtrack: RecorderSoundtrack | null;
+  format: RecordingFormat | null; // Records the centre crop at this size instead of the whole canvas
+  overlays: RecordingOverlays | null; // Title cards and watermark drawn into the frames
+  composer: React.RefObject<EffectComposer>;
+  transition: TransitionController; // State changes are marked in the result
+  maxDuration: number | null; // Seconds of footage before stopping on its own
+  onProgress: (progress: RecordingProgress) => void;
+  onComplete: (result: RecordingResult) => void; // The finished video, for the app to preview
+  onError: (error: unknown) => void;
+  onStop: () => void; // Asks the app to end the recording (limit reached, track ended, failure)
 }
 
-const Recorder: React.FC<RecorderProps> = ({ isRecording, onStop }) => {
-  const { gl } = useThree();
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const chunksRef = useRef<Blob[]>([]);
+// MediaRecorder hands over data this often, which also drives the size readout
+const CHUNK_MS = 1000;
+const PROGRESS_MS = 250;
 
-  useEffect(() => {
-    if (isRecording) {
-      // Start Recording
-      chunksRef.current = [];
-      const canvas = gl.domElement;
-      
-      // Capture stream at 60 FPS
-      const stream = canvas.captureStream(60);
-      
-      // Prioritize MP4 (H.264), fallback to WebM (VP9/VP8)
-      const mimeTypes = [
-        'video/mp4;codecs=h264',
-        'video/mp4',
-        'video/webm;codecs=vp9',
-        'video/webm'
-      ];
-      
-      let selectedMimeType = '';
-      for (const type of mimeTypes) {
-        if (MediaRecorder.isTypeSupported(type)) {
-          selectedMimeType = type;
-          break;
-        }
-      }
+// Copies each finished frame to the canvas MediaRecorder captures
+interface FrameCopy {
+  ctx: CanvasRenderingContext2D;
+  format: RecordingFormat | null; // Null copies the whole canvas
+  overlays: RecordingOverlays | null;
+  time: number; // Seconds of footage, for the intro card
+  outroTime: number | null; // Seconds since stop was pressed, while the outro plays
+}
+
+const Recorder: React.FC<RecorderProps> = ({ isRecording, isPaused, soundtrack, format, overlays, composer, transition, maxDuration, onProgress, onComplete, onError, onStop }) => {
+  const { gl, get } = useThree();
+  // Read when recording starts; changing them mid-recording does not restart it
+  const options = useRef({ soundtrack, format, overlays, maxDuration });
+  options.current = { soundtrack, format, overlays, maxDuration };
+  // Latest callbacks, so a parent re-render does not restart the recording
+  const callbacks = useRef({ onProgress, onComplete, onError, onStop });
+  callbacks.current = { onProgress, onComplete, onError, onStop };
+  const paused = useRef(isPaused);
+  paused.current = isPaused;
+  const session = useRef<{ recorder: MediaRecorder; playback: SoundtrackPlayback | null } | null>(null);
+  // Set while recording a format or with overlays; otherwise the canvas is captured directly
+  const output = useRef<FrameCopy | null>(null);
+
+  const resetPixelRatio = () => {
+    const { size, viewport } = get();
+    gl.setPixelRatio(viewport.dpr);
+    if (composer.current) composer.current.setSize(size.width, size.height);
+    else gl.setSize(size.width, size.height);
+  };
 
-      if (!selectedMimeType) {
-        console.error("No supported mime type found for recording.");
-        onStop();
-        return;
+  // After the composer has drawn the frame (priority 1)
+  useFrame((_, delta) => {
+    const target = output.current;
+    if (!target) return;
+    if (!paused.current) target.time += delta;
+    if (target.outroTime !== null) target.outroTime += delta;
+
+    const { size } = get();
+    const crop = target.format
+      ? getRecordingCrop(size.width, size.height, target.format)
+      : { x: 0, y: 0, width: size.width, height: size.height };
+
+    // Draw the canvas at whatever density puts exactly the format's pixels inside the
+    // crop. Reapplied here because resizes and quality steps reset the pixel ratio.
+    if (target.format) {
+      const maxRatio = gl.capabilities.maxTextureSize / Math.max(size.width, size.height);
+      const ratio = Math.min(target.format.height / crop.height, maxRatio);
+      if (Math.abs(gl.getPixelRatio() - ratio) > 1e-3) {
+        gl.setPixelRatio(ratio);
+        if (composer.current) composer.current.setSize(size.width, size.height);
+        else gl.setSize(size.width, size.height);
       }
+    }
+
+    const { canvas } = target.ctx;
+    const scale = gl.domElement.width / size.width;
+    target.ctx.drawImage(
+      gl.domElement,
+      crop.x * scale, crop.y * scale, crop.width * scale, crop.height * scale,
+      0, 0, canvas.width, canvas.height
+    );
+    if (target.overlays) drawRecordingOverlays(target.ctx, target.overlays, target.time, target.outroTime);
+  }, 2);
+
+  useEffect(() => {
+    if (!isRecording) return;
+
+    const { soundtrack: track, format: frame, overlays, maxDuration: limit } = options.current;
+    const outroSeconds = overlays ? getOutroSeconds(overlays.settings) : 0;
+    const mimeType = pickRecordingMimeType(track !== null);
+    if (!mimeType) {
+      callbacks.current.onError(new RecordingError('unsupported'));
+      callbacks.current.onStop();
+      return;
+    }
 
-      try {
-        // High bitrate for 1080p quality (12 Mbps)
-        const options: MediaRecorderOptions = {
-          mimeType: selectedMimeType,
-          videoBitsPerSecond: 12000000 
-        };
-
-        const recorder = new MediaRecorder(stream, options);
-        
-        recorder.ondataavailable = (event) => {
-          if (event.data.size > 0) {
-            chunksRef.current.push(event.data);
-          }
-        };
-
-        recorder.onstop = () => {
-          const blob = new Blob(chunksRef.current, { type: selectedMimeType });
-          const url = URL.createObjectURL(blob);
-          const a = document.createElement('a');
-          a.href = url;
-          
-          // Determine extension based on mime type
-          const extension = selectedMimeType.includes('mp4') ? 'mp4' : 'webm';
-          
-          // Timestamp filename
-          const now = new Date();
-          const timestamp = `${now.getFullYear()}-${String(now.getMonth()+1).padStart(2,'0')}-${String(now.getDate()).padStart(2,'0')}_${String(now.getHours()).padStart(2,'0')}${String(now.getMinutes()).padStart(2,'0')}${String(now.getSeconds()).padStart(2,'0')}`;
-          
-          a.download = `Christmas_Tree_${timestamp}.${extension}`;
-          document.body.appendChild(a);
-          a.click();
-          document.body.removeChild(a);
-          URL.revokeObjectURL(url);
-        };
-
-        recorder.start();
-        mediaRecorderRef.current = recorder;
-      } catch (e) {
-        console.error("Failed to start MediaRecorder:", e);
-        onStop();
+    const chunks: Blob[] = [];
+    const markers: RecordingMarker[] = [];
+    let bytes = 0;
+    let elapsed = 0;
+    let recorder: MediaRecorder;
+    let playback: SoundtrackPlayback | null = null;
+    let copy: FrameCopy | null = null;
+
+    try {
+      let source = gl.domElement;
+      if (frame || overlays) {
+        source = document.createElement('canvas');
+        source.width = frame ? frame.width : gl.domElement.width;
+        source.height = frame ? frame.height : gl.domElement.height;
+        copy = { ctx: source.getContext('2d')!, format: frame, overlays, time: 0, outroTime: null };
+        output.current = copy;
       }
+      // Capture stream at 60 FPS
+      const canvasStream = source.captureStream(60);
+      playback = track ? startSoundtrack(track.buffer, track.settings) : null;
+      const stream = playback
+        ? new MediaStream([...canvasStream.getVideoTracks(), ...playback.stream.getAudioTracks()])
+        : canvasStream;
 
-    } else {
-      // Stop Recording
-      if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
-        mediaRecorderRef.current.stop();
-        mediaRecorderRef.current = null;
+      // High bitrate for 1080p quality (12 Mbps)
+      recorder = new MediaRecorder(stream, {
+        mimeType,
+        videoBitsPerSecond: 12000000,
+        audioBitsPerSecond: 192000
+      });
+      recorder.start(CHUNK_MS);
+    } catch (e) {
+      console.error("Failed to start MediaRecorder:", e);
+      playback?.stop();
+      if (copy) {
+        output.current = null;
+        resetPixelRatio();
       }
+      callbacks.current.onError(new RecordingError('startFailed'));
+      callbacks.current.onStop();
+      return;
     }
 
-    // Cleanup on unmount
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        chunks.push(event.data);
+        bytes += event.data.size;
+      }
+    };
+    recorder.onerror = () => {
+      callbacks.current.onError(new RecordingError('interrupted'));
+      callbacks.current.onStop();
+    };
+    recorder.onstop = () => {
+      if (bytes === 0) return;
+      callbacks.current.onComplete({ blob: new Blob(chunks, { type: mimeType }), extension: getRecordingExtension(mimeType), duration: elapsed, markers });
+    };
+    session.current = { recorder, playback };
+
+    // Stop by itself at the limit, or as the track ends, leaving room for the track's
+    // fade-out and the outro card; both play after stop
+    const trackEnd = track?.settings.matchTrackLength
+      ? getPlayableDuration(track.buffer, track.settings) - Math.max(track.settings.fadeOut, outroSeconds)
+      : Infinity;
+    const stopAt = Math.min((limit ?? Infinity) - outroSeconds, trackEnd);
+
+    let last = performance.now();
+    // Morphs in place (shape, seed) are not state changes and go unmarked
+    const unsubscribe = transition.subscribe((event) => {
+      if (event.type !== 'start' || event.from === event.to || recorder.state === 'inactive') return;
+      const sinceTick = recorder.state === 'recording' ? (performance.now() - last) / 1000 : 0;
+      markers.push({ time: elapsed + sinceTick, state: event.to });
+    });
+    const ticker = window.setInterval(() => {
+      const now = performance.now();
+      if (!paused.current) elapsed += (now - last) / 1000;
+      last = now;
+      callbacks.current.onProgress({ elapsed, bytes });
+      if (elapsed >= stopAt) callbacks.current.onStop();
+    }, PROGRESS_MS);
+
+    // Stop Recording (also on unmount), after fading the soundtrack out and showing the outro
     return () => {
-      if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
-        mediaRecorderRef.current.stop();
+      clearInterval(ticker);
+      unsubscribe();
+      session.current = null;
+      const stoppedAt = performance.now();
+      if (recorder.state === 'recording') elapsed += (stoppedAt - last) / 1000;
+      const wasPaused = recorder.state === 'paused';
+
+      const tail: Promise<unknown>[] = [];
+      // A paused track cannot fade, so it simply ends
+      if (playback && track && !wasPaused) tail.push(playback.fadeOut(track.settings.fadeOut));
+      if (copy && outroSeconds > 0) {
+        // The outro is recorded even when stopped while paused
+        if (wasPaused) recorder.resume();
+        copy.outroTime = 0;
+        tail.push(new Promise(resolve => setTimeout(resolve, outroSeconds * 1000)));
       }
+
+      const finish = () => {
+        // The fade-out and outro are part of the footage
+        if (recorder.state === 'recording') elapsed += (performance.now() - stoppedAt) / 1000;
+        if (recorder.state !== 'inactive') recorder.stop();
+        playback?.stop();
+        // A recording started during the fade owns the copy by now
+        if (copy && output.current === copy) {
+          output.current = null;
+          resetPixelRatio();
+        }
+      };
+      if (tail.length > 0) Promise.all(tail).then(finish);
+      else finish();
     };
-  }, [isRecording, gl, onStop]);
+  }, [isRecording, gl, get, composer, transition]);
+
+  useEffect(() => {
+    const active = session.current;
+    if (!active) return;
+    if (isPaused) {
+      if (active.recorder.state === 'recording') active.recorder.pause();
+      active.playback?.pause();
+    } else {
+      if (active.recorder.state === 'paused') active.recorder.resume();
+      active.playback?.resume();
+    }
+  }, [isPaused]);
 
   return null;
 };
 
-export default Recorder;
\ No newline at end of file
+export default Recorder;
@@ -1,51 +1,166 @@
-import React, { useState, useMemo, Suspense } from 'react';
-import { Canvas } from '@react-three/fiber';
+import React, { useState, useMemo, useCallback, useRef, useEffect, useLayoutEffect, Suspense } from 'react';
+import { Canvas, useFrame, useThree } from '@react-three/fiber';
 import { OrbitControls, Environment, ContactShadows, Stars, Sparkles } from '@react-three/drei';
-import { EffectComposer, Bloom, Vignette, SMAA } from '@react-three/postprocessing';
+import { EffectComposer, Bloom, SMAA } from '@react-three/postprocessing';
 import * as THREE from 'three';
-import { TreeState } from '../types.ts';
+import { PhotoItem, TreeState } from '../types.ts';
 import Foliage from './Foliage.tsx';
 import Ornaments from './Ornaments.tsx';
 import PhotoGallery from './PhotoGallery.tsx';
 import Star from './Star.tsx';
-import Recorder from './Recorder.tsx';
-
-// Interface matching App.tsx
-interface PhotoItem {
-    url: string;
-    height: number;
-}
+import Recorder, { RecorderSoundtrack } from './Recorder.tsx';
+import { RecordingProgress, RecordingResult, RecordingFormat, getRecordingCrop } from '../recording.ts';
+import { RecordingOverlays } from '../titleCards.ts';
+import QualityMonitor from './QualityMonitor.tsx';
+import OfflineRenderer from './OfflineRenderer.tsx';
+import SnapshotRenderer from './SnapshotRenderer.tsx';
+import { getShape, hasShape } from '../shapes.ts';
+import { LayoutContext } from '../treeStates.ts';
+import { TransitionController } from '../transitionController.ts';
+import { Theme } from '../themes.ts';
+import { QualityProfile, MAX_ORNAMENT_COUNTS } from '../quality.ts';
+import { RenderSettings, RenderResult } from '../offlineRender.ts';
+import { SnapshotSettings } from '../snapshot.ts';
+import { CameraRig, RigControls } from '../cameraRig.ts';
+import { MusicPlayer } from '../musicPlayer.ts';
+import { TourController } from '../tour.ts';
+import { BackFaceSettings } from '../backFace.ts';
+import { VignetteEffect } from 'postprocessing';
+import type { EffectComposer as EffectComposerImpl } from 'postprocessing';
 
 interface SceneProps {
   treeState: TreeState;
+  transition: TransitionController; // Shared clock for every state change
+  theme: Theme; // Colours for materials, lights, sparkles and background
+  quality: QualityProfile;
+  isAutoQuality: boolean; // Let the frame-time monitor step the tier
+  onQualityStep?: (direction: 1 | -1) => void;
+  onFps?: (fps: number) => void;
+  seed: number; // Layout seed shared by every randomised subsystem
+  shapeId: string; // Formed shape from the shape registry
+  customShapeId?: string | null; // Shape used by the CUSTOM state (REVEAL text/silhouette)
+  customIncludesOrnaments?: boolean; // Whether ornaments join the custom shape or stay scattered
   photos: PhotoItem[]; 
   backPhotoUrl: string | null; // Changed prop name
   backText: string; // Added prop
+  backFace: BackFaceSettings; // Design of the generated photo backs
   isClearing: boolean;
+  removingIds?: string[];
   isRecording: boolean; // Added prop
+  isRecordingPaused: boolean;
+  maxRecordDuration: number | null; // Seconds before the recording stops itself
+  soundtrack: RecorderSoundtrack | null; // Mixed into recordings when set
+  recordingFormat: RecordingFormat | null; // Fixed-aspect recording; the camera frames for its crop
+  recordingOverlays: RecordingOverlays | null; // Title cards and watermark burned into recordings
+  onRecordProgress: (progress: RecordingProgress) => void;
+  onRecordComplete: (result: RecordingResult) => void;
+  onRecordError: (error: unknown) => void;
   onRecordStop: () => void; // Added prop
+  renderSettings: RenderSettings | null; // Offline video render in progress
+  onRenderProgress: (frame: number, total: number) => void;
+  onRenderComplete: (result: RenderResult) => void;
+  onRenderError: (error: unknown) => void;
+  snapshotSettings: SnapshotSettings | null; // High-resolution still requested
+  onSnapshotComplete: (png: Blob) => void;
+  onSnapshotError: (error: unknown) => void;
+  onPhotoFocus?: (photoId: string | null) => void;
+  cameraRig: CameraRig; // Plays keyframed camera paths
+  isCameraPathPlaying: boolean;
+  focusRequest?: { photoId: string | null } | null; // Focus change asked for by a camera path cue or the keyboard
+  selectedPhotoId?: string | null; // Keyboard cursor among the photos
+  flipRequest?: object | null; // Flips the focused photo; a new object each time
+  music: MusicPlayer; // Frequency analysis of the in-app music player
+  tour: TourController; // Slideshow of the photos
 }
 
-const BOX_PALETTE = ['#8B0000', '#D4AF37', '#ffffff'];
-const BALL_PALETTE = ['#D4AF37', '#FF0000', '#C0C0C0', '#0F5132'];
-const LIGHT_PALETTE = ['#FFD700'];
+// Hands the camera and controls to the rig and steps it after OrbitControls (priority -1)
+const CameraRigBinding = ({ rig, controls }: { rig: CameraRig; controls: React.RefObject<RigControls> }) => {
+  const camera = useThree(state => state.camera);
+  useEffect(() => {
+    rig.attach(camera as THREE.PerspectiveCamera, controls.current);
+  }, [rig, camera, controls]);
+  useFrame((_, delta) => rig.update(delta));
+  return null;
+};
+
+// While a recording format is active the camera projects for the crop's aspect and
+// the rest of the window shows a wider view around it. Runs before anything reads the
+// camera, and checks every frame because resizes, snapshots and renders reset it.
+const RecordingFrameBinding = ({ format }: { format: RecordingFormat | null }) => {
+  const camera = useThree(state => state.camera) as THREE.PerspectiveCamera;
+  const size = useThree(state => state.size);
+
+  // Layout effect, so the projection is back to normal before an offline render sets its own
+  useLayoutEffect(() => {
+    if (!format) return;
+    return () => {
+      camera.clearViewOffset();
+      camera.aspect = size.width / size.height;
+      camera.updateProjectionMatrix();
+    };
+  }, [format, camera, size]);
+
+  useFrame(() => {
+    if (!format) return;
+    const crop = getRecordingCrop(size.width, size.height, format);
+    const aspect = crop.width / crop.height;
+    const view = camera.view;
+    if (camera.aspect === aspect && view?.enabled && view.fullWidth === crop.width && view.fullHeight === crop.height && view.width === size.width && view.height === size.height) return;
+    camera.aspect = aspect;
+    // A "view" larger than the full frame, offset so the crop sits in the middle
+    camera.setViewOffset(crop.width, crop.height, -crop.x, -crop.y, size.width, size.height);
+  }, -20);
+  return null;
+};
+
+// Advances the shared transition once per frame, before any subsystem reads it
+const TransitionClock = ({ transition }: { transition: TransitionController }) => {
+  useFrame((_, delta) => transition.update(delta), -1);
+  return null;
+};
+
+// Steps the photo tour on the render clock, so recordings keep its pace
+const TourClock = ({ tour }: { tour: TourController }) => {
+  useFrame((_, delta) => tour.update(delta));
+  return null;
+};
 
-const Scene: React.FC<SceneProps> = ({ treeState, photos, backPhotoUrl, backText, isClearing, isRecording, onRecordStop }) => {
+// Analyses the music once per frame, before any subsystem reads its levels
+const MusicClock = ({ music }: { music: MusicPlayer }) => {
+  useFrame((_, delta) => music.update(delta), -1);
+  return null;
+};
+
+const Scene: React.FC<SceneProps> = ({ treeState, transition, theme, quality, isAutoQuality, onQualityStep, onFps, seed, shapeId, customShapeId = null, customIncludesOrnaments = false, photos, backPhotoUrl, backText, backFace, isClearing, removingIds, isRecording, isRecordingPaused, maxRecordDuration, soundtrack, recordingFormat, recordingOverlays, onRecordProgress, onRecordComplete, onRecordError, onRecordStop, renderSettings, onRenderProgress, onRenderComplete, onRenderError, snapshotSettings, onSnapshotComplete, onSnapshotError, onPhotoFocus, cameraRig, isCameraPathPlaying, focusRequest, selectedPhotoId, flipRequest, music, tour }) => {
   const [isFocusing, setIsFocusing] = useState(false);
+  const composerRef = useRef<EffectComposerImpl>(null);
+  // Created here rather than through <Vignette>, so snapshots can reach the instance
+  const vignette = useMemo(() => new VignetteEffect({ eskil: false, offset: 0.1, darkness: 1.1 }), []);
+  useEffect(() => () => vignette.dispose(), [vignette]);
+  const controlsRef = useRef<React.ElementRef<typeof OrbitControls>>(null);
+
+  const handleFocusChange = useCallback((photoId: string | null) => {
+    setIsFocusing(!!photoId);
+    onPhotoFocus?.(photoId);
+  }, [onPhotoFocus]);
+
+  // Shared by every subsystem so all state layouts agree on the same shapes
+  const layout = useMemo<LayoutContext>(() => ({
+    formedShape: getShape(shapeId),
+    customShape: customShapeId && hasShape(customShapeId) ? getShape(customShapeId) : null,
+    customIncludesOrnaments,
+  }), [shapeId, customShapeId, customIncludesOrnaments]);
 
   // Detect mobile user agent
   const isMobile = useMemo(() => /iPhone|iPad|iPod|Android/i.test(navigator.userAgent), []);
 
-  const dpr = useMemo<[number, number]>(() => {
-    // Return to standard 1-2 DPR range for better sharpness.
-    // We handle aliasing via SMAA instead of limiting resolution too aggressively.
-    return [1, 2];
-  }, []);
-
   return (
     <Canvas
       camera={{ position: [0, 4, 20], fov: 45, near: 0.5, far: 200 }}
-      dpr={dpr}
+      // DPR range comes from the quality tier; changing it resizes the canvas without remounting
+      dpr={quality.dpr}
+      // Offline renders step the scene themselves, one fixed timestep per frame
+      frameloop={renderSettings ? 'never' : 'always'}
       gl={{ 
         antialias: false, // Disable default antialias, handled by PostProcessing
         alpha: false,
@@ -57,7 +172,11 @@ const Scene: React.FC<SceneProps> = ({ treeState, photos, backPhotoUrl, backText
         preserveDrawingBuffer: true // Required for canvas.captureStream
       }}
     >
-      <color attach="background" args={['#011510']} />
+      <color attach="background" args={[theme.background]} />
+      <TransitionClock transition={transition} />
+      <MusicClock music={music} />
+      {/* Offline frames come at a fixed rate, so they say nothing about device speed */}
+      <QualityMonitor isAuto={isAutoQuality && !renderSettings} onFps={onFps} onStep={onQualityStep} />
       
       {/* 
          Environment Lighting:
@@ -65,89 +184,161 @@ const Scene: React.FC<SceneProps> = ({ treeState, photos, backPhotoUrl, backText
          We use the 'files' prop to point to a specific HDRI on the mirror.
          Wrapped in Suspense to prevent Canvas unmounting on load.
       */}
-      <Suspense fallback={null}>
-         <Environment files="https://cdn.jsdmirror.com/gh/pmndrs/drei-assets/hdri/lebombo_1k.hdr" />
-      </Suspense>
+      {quality.environment && (
+        <Suspense fallback={null}>
+           <Environment files="https://cdn.jsdmirror.com/gh/pmndrs/drei-assets/hdri/lebombo_1k.hdr" />
+        </Suspense>
+      )}
 
-      <ambientLight intensity={0.3} />
-      <pointLight position={[10, 10, 10]} intensity={1.5} color="#FEDC56" />
-      <pointLight position={[-10, 5, -10]} intensity={0.8} color="#043927" />
+      {/* Brighter ambient light stands in for the HDRI reflections when they are off */}
+      <ambientLight intensity={quality.environment ? 0.3 : 0.8} />
+      <pointLight position={[10, 10, 10]} intensity={1.5} color={theme.lights.key} />
+      <pointLight position={[-10, 5, -10]} intensity={0.8} color={theme.lights.fill} />
       <spotLight position={[0, 20, 0]} intensity={2.5} angle={0.3} penumbra={1} castShadow />
 
-      <Stars radius={100} depth={50} count={3000} factor={4} saturation={0} fade speed={1} />
-      <Sparkles count={150} scale={25} size={6} speed={0.4} opacity={0.6} color="#D4AF37" />
+      <Stars radius={100} depth={50} count={quality.stars} factor={4} saturation={0} fade speed={1} />
+      {quality.sparkles > 0 && (
+        <Sparkles count={quality.sparkles} scale={25} size={6} speed={0.4} opacity={0.6} color={theme.sparkles} />
+      )}
 
       <group position={[0, -2, 0]}>
-        <Foliage treeState={treeState} />
-        <Star treeState={treeState} />
+        <Foliage treeState={treeState} seed={seed} layout={layout} transition={transition} palette={theme.foliage} count={quality.foliageCount} music={music} />
+        <Star treeState={treeState} seed={seed} layout={layout} transition={transition} theme={theme} music={music} />
         
         <Ornaments 
           treeState={treeState} 
           type="box" 
-          count={30} 
-          colorPalette={BOX_PALETTE} 
+          count={MAX_ORNAMENT_COUNTS.box} 
+          visibleCount={quality.ornamentCounts.box}
+          colorPalette={theme.ornaments.box} 
+          glowColor={theme.ornaments.glow}
+          seed={seed}
+          layout={layout}
+          transition={transition}
+          music={music}
         />
         <Ornaments 
           treeState={treeState} 
           type="ball" 
-          count={60} 
-          colorPalette={BALL_PALETTE} 
+          count={MAX_ORNAMENT_COUNTS.ball} 
+          visibleCount={quality.ornamentCounts.ball}
+          colorPalette={theme.ornaments.ball} 
+          glowColor={theme.ornaments.glow}
+          seed={seed}
+          layout={layout}
+          transition={transition}
+          music={music}
         />
         <Ornaments 
             treeState={treeState}
             type="light"
-            count={120}
-            colorPalette={LIGHT_PALETTE}
+            count={MAX_ORNAMENT_COUNTS.light}
+            visibleCount={quality.ornamentCounts.light}
+            colorPalette={theme.ornaments.light}
+            glowColor={theme.ornaments.glow}
+            seed={seed}
+            layout={layout}
+            transition={transition}
+            music={music}
         />
 
         <PhotoGallery 
           treeState={treeState} 
+          seed={seed}
+          layout={layout}
+          transition={transition}
+          frameColor={theme.frame}
           photos={photos} 
           backPhotoUrl={backPhotoUrl} 
           backText={backText}
-          onFocusChange={setIsFocusing}
+          backFace={backFace}
+          onFocusChange={handleFocusChange}
+          focusRequest={focusRequest}
+          selectedId={selectedPhotoId}
+          flipRequest={flipRequest}
           isClearing={isClearing}
+          removingIds={removingIds}
         />
 
-        <ContactShadows 
-            position={[0, -7.5, 0]}
-            opacity={0.6} 
-            scale={80} 
-            blur={2.5} 
-            far={40} 
-            resolution={256} 
-            color="#000000" 
-        />
+        {quality.shadowResolution > 0 && (
+          <ContactShadows 
+              position={[0, -7.5, 0]}
+              opacity={0.6} 
+              scale={80} 
+              blur={2.5} 
+              far={40} 
+              resolution={quality.shadowResolution} 
+              color="#000000" 
+          />
+        )}
       </group>
 
-      <Recorder isRecording={isRecording} onStop={onRecordStop} />
+      <Recorder 
+        isRecording={isRecording} 
+        isPaused={isRecordingPaused} 
+        soundtrack={soundtrack} 
+        format={recordingFormat} 
+        overlays={recordingOverlays} 
+        composer={composerRef} 
+        transition={transition} 
+        maxDuration={maxRecordDuration} 
+        onProgress={onRecordProgress} 
+        onComplete={onRecordComplete} 
+        onError={onRecordError} 
+        onStop={onRecordStop} 
+      />
+      <OfflineRenderer 
+        settings={renderSettings} 
+        composer={composerRef} 
+        onProgress={onRenderProgress} 
+        onComplete={onRenderComplete} 
+        onError={onRenderError} 
+      />
+      <SnapshotRenderer 
+        settings={snapshotSettings} 
+        composer={composerRef} 
+        vignette={vignette} 
+        onComplete={onSnapshotComplete} 
+        onError={onSnapshotError} 
+      />
 
       <OrbitControls 
+        ref={controlsRef}
         minPolarAngle={0} 
         maxPolarAngle={Math.PI / 1.7} 
         enablePan={false}
         maxDistance={35}
         minDistance={5}
-        autoRotate={true}
-        autoRotateSpeed={0.8} 
-        enabled={true}
+        // A playing camera path drives the camera on its own
+        autoRotate={!isCameraPathPlaying}
+        // OrbitControls turns a fixed angle per update, assuming 60 updates per second
+        autoRotateSpeed={renderSettings ? 0.8 * 60 / renderSettings.fps : 0.8} 
+        enabled={!isCameraPathPlaying}
       />
+      <CameraRigBinding rig={cameraRig} controls={controlsRef} />
+      <TourClock tour={tour} />
+      {/* Offline renders have their own size and aspect */}
+      <RecordingFrameBinding format={renderSettings ? null : recordingFormat} />
 
       <EffectComposer 
+        ref={composerRef}
         enableNormalPass={false} 
         // Mobile: Disable MSAA (0) to prevent crash, use SMAA instead.
         // Desktop: Use MSAA (4) for best native smoothing.
-        multisampling={isMobile ? 0 : 4} 
+        // Low quality turns anti-aliasing off entirely.
+        multisampling={isMobile || !quality.antialias ? 0 : 4} 
       >
-        <Bloom 
-            luminanceThreshold={0.9} 
-            mipmapBlur 
-            intensity={isFocusing ? 0 : 0.4} 
-            radius={0.4} 
-        />
-        <Vignette eskil={false} offset={0.1} darkness={1.1} />
+        {quality.bloom && (
+          <Bloom 
+              luminanceThreshold={0.9} 
+              mipmapBlur 
+              intensity={isFocusing ? 0 : 0.4} 
+              radius={0.4} 
+          />
+        )}
+        <primitive object={vignette} />
         {/* SMAA is efficient for mobile anti-aliasing when MSAA is disabled */}
-        {isMobile && <SMAA />}
+        {isMobile && quality.antialias && <SMAA />}
       </EffectComposer>
     </Canvas>
   );
@@ -0,0 +1,123 @@
+import React, { useEffect, useRef } from 'react';
+import { useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import type { EffectComposer, VignetteEffect } from 'postprocessing';
+import { SnapshotSettings, MAX_TILE_SIZE, TILE_MARGIN, MATTE_GREY, planTiles, matteTile, applyVignette, canvasToPng } from '../snapshot.ts';
+
+interface SnapshotRendererProps {
+  settings: SnapshotSettings | null; // Renders once each time this is set
+  composer: React.RefObject<EffectComposer>;
+  vignette: VignetteEffect;
+  onComplete: (blob: Blob) => void;
+  onError: (error: unknown) => void;
+}
+
+const BLACK = new THREE.Color(0, 0, 0);
+const GREY = new THREE.Color(MATTE_GREY, MATTE_GREY, MATTE_GREY);
+
+// Re-renders the current frame tile by tile through the composer and stitches the
+// tiles into one canvas. The tiles are drawn in a single task, so the realtime loop
+// cannot advance the scene between them.
+const SnapshotRenderer: React.FC<SnapshotRendererProps> = ({ settings, composer, vignette, onComplete, onError }) => {
+  const { gl, scene, camera, get } = useThree();
+  // Latest callbacks, so a parent re-render does not restart the effect
+  const callbacks = useRef({ onComplete, onError });
+  callbacks.current = { onComplete, onError };
+
+  useEffect(() => {
+    if (!settings) return;
+    let cancelled = false;
+    const perspective = camera as THREE.PerspectiveCamera;
+
+    const renderTiles = (): HTMLCanvasElement => {
+      const { width, height, transparent } = settings;
+      const context = gl.getContext();
+      const viewport = context.getParameter(context.MAX_VIEWPORT_DIMS) as Int32Array;
+      const maxTile = Math.min(MAX_TILE_SIZE, gl.capabilities.maxTextureSize, context.getParameter(context.MAX_RENDERBUFFER_SIZE), viewport[0], viewport[1]);
+      const tiles = planTiles(width, height, maxTile - 2 * TILE_MARGIN);
+      const isTiled = tiles.length > 1;
+      const margin = isTiled ? TILE_MARGIN : 0;
+
+      const output = document.createElement('canvas');
+      output.width = width;
+      output.height = height;
+      const out = output.getContext('2d')!;
+      const scratch = document.createElement('canvas').getContext('2d', { willReadFrequently: true })!;
+
+      const background = scene.background;
+      const vignetteOpacity = vignette.blendMode.opacity.value;
+      // Transparent stills skip the vignette: it would darken the background that is being removed
+      const liveVignette = !isTiled && !transparent;
+      if (!liveVignette) vignette.blendMode.opacity.value = 0;
+
+      const drawFrame = () => {
+        if (composer.current) composer.current.render(0);
+        else gl.render(scene, perspective);
+      };
+      const readTile = (tileWidth: number, tileHeight: number): ImageData => {
+        scratch.canvas.width = tileWidth;
+        scratch.canvas.height = tileHeight;
+        scratch.drawImage(gl.domElement, margin, margin, tileWidth, tileHeight, 0, 0, tileWidth, tileHeight);
+        return scratch.getImageData(0, 0, tileWidth, tileHeight);
+      };
+
+      gl.setPixelRatio(1);
+      perspective.aspect = width / height;
+      try {
+        for (const tile of tiles) {
+          const drawWidth = tile.width + 2 * margin;
+          const drawHeight = tile.height + 2 * margin;
+          if (composer.current) composer.current.setSize(drawWidth, drawHeight, false);
+          else gl.setSize(drawWidth, drawHeight, false);
+          perspective.setViewOffset(width, height, tile.x - margin, tile.y - margin, drawWidth, drawHeight);
+
+          if (transparent) {
+            scene.background = BLACK;
+            drawFrame();
+            const overBlack = readTile(tile.width, tile.height);
+            scene.background = GREY;
+            drawFrame();
+            out.putImageData(matteTile(overBlack, readTile(tile.width, tile.height)), tile.x, tile.y);
+          } else {
+            drawFrame();
+            out.drawImage(gl.domElement, margin, margin, tile.width, tile.height, tile.x, tile.y, tile.width, tile.height);
+          }
+        }
+        if (!liveVignette && !transparent) {
+          applyVignette(out, width, height, vignette.offset, vignette.darkness);
+        }
+      } finally {
+        scene.background = background;
+        vignette.blendMode.opacity.value = vignetteOpacity;
+
+        const { size, viewport } = get();
+        perspective.clearViewOffset();
+        gl.setPixelRatio(viewport.dpr);
+        if (composer.current) composer.current.setSize(size.width, size.height);
+        else gl.setSize(size.width, size.height);
+        perspective.aspect = size.width / size.height;
+        perspective.updateProjectionMatrix();
+      }
+      return output;
+    };
+
+    const run = async () => {
+      // Let the progress overlay paint before the tiles hold up the main thread
+      await new Promise(resolve => setTimeout(resolve, 50));
+      if (cancelled) return;
+      const blob = await canvasToPng(renderTiles());
+      if (!cancelled) callbacks.current.onComplete(blob);
+    };
+
+    run().catch((err) => {
+      if (!cancelled) callbacks.current.onError(err);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [settings, gl, scene, camera, get, composer, vignette]);
+
+  return null;
+};
+
+export default SnapshotRenderer;
@@ -1,14 +1,26 @@
-import React, { useRef, useMemo, useLayoutEffect } from 'react';
+import React, { useRef, useMemo, useEffect, useLayoutEffect } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { TreeState } from '../types.ts';
+import { createRandom, deriveSeed } from '../utils.ts';
+import { LayoutContext, getStateDefinition, getTopperPosition } from '../treeStates.ts';
+import { TransitionController } from '../transitionController.ts';
+import { Theme } from '../themes.ts';
+import { MusicPlayer } from '../musicPlayer.ts';
 
 interface StarProps {
   treeState: TreeState;
+  seed: number;
+  layout: LayoutContext;
+  transition: TransitionController;
+  theme: Theme;
+  music: MusicPlayer; // Beats flash the star and its swarm
 }
 
+const BEAT_GLOW = 1.5; // Extra brightness on a beat, relative to the resting glow
+
 // Custom shader-like particle system for "Three-Body" chaotic motion
-const ChaoticSwarm = ({ opacity }: { opacity: number }) => {
+const ChaoticSwarm = ({ opacity, seed, palette, music }: { opacity: number; seed: number; palette: string[]; music: MusicPlayer }) => {
   const count = 60;
   const pointsRef = useRef<THREE.Points>(null);
 
@@ -18,11 +30,8 @@ const ChaoticSwarm = ({ opacity }: { opacity: number }) => {
     const pos = new Float32Array(count * 3);
     const par = []; // Stores [speed, radius, freqX, freqY, freqZ, offsetX, offsetY, offsetZ]
     const cols = new Float32Array(count * 3);
-    const colorChoices = [
-      new THREE.Color('#FEDC56'), // Gold Light
-      new THREE.Color('#FFFFFF'), // White
-      new THREE.Color('#D4AF37'), // Deep Gold
-    ];
+    const colorChoices = palette.map(c => new THREE.Color(c));
+    const random = createRandom(deriveSeed(seed, 'star-swarm'));
 
     for (let i = 0; i < count; i++) {
       // Initial positions (not strictly used as we override in useFrame, but good for bounding)
@@ -32,28 +41,28 @@ const ChaoticSwarm = ({ opacity }: { opacity: number }) => {
 
       // Parameters for Chaos
       // 1. Base Radius (0.8 to 2.5)
-      const radius = 0.8 + Math.random() * 1.7;
+      const radius = 0.8 + random() * 1.7;
       // 2. Global Speed for this particle
-      const speed = 0.5 + Math.random() * 1.0;
+      const speed = 0.5 + random() * 1.0;
       // 3. Frequencies for X/Y/Z (Randomized to create non-repeating loops)
-      const freqX = 1 + Math.random();
-      const freqY = 1 + Math.random();
-      const freqZ = 1 + Math.random();
+      const freqX = 1 + random();
+      const freqY = 1 + random();
+      const freqZ = 1 + random();
       // 4. Phase Offsets
-      const offX = Math.random() * Math.PI * 2;
-      const offY = Math.random() * Math.PI * 2;
-      const offZ = Math.random() * Math.PI * 2;
+      const offX = random() * Math.PI * 2;
+      const offY = random() * Math.PI * 2;
+      const offZ = random() * Math.PI * 2;
 
       par.push({ radius, speed, freqX, freqY, freqZ, offX, offY, offZ });
 
       // Colors
-      const c = colorChoices[Math.floor(Math.random() * colorChoices.length)];
+      const c = colorChoices[Math.floor(random() * colorChoices.length)];
       cols[i * 3] = c.r;
       cols[i * 3 + 1] = c.g;
       cols[i * 3 + 2] = c.b;
     }
     return { initialPositions: pos, params: par, colors: cols };
-  }, []);
+  }, [seed, palette]);
 
   useLayoutEffect(() => {
     if (pointsRef.current) {
@@ -73,6 +82,10 @@ const ChaoticSwarm = ({ opacity }: { opacity: number }) => {
     const material = pointsRef.current.material as THREE.PointsMaterial;
     material.opacity = opacity;
     pointsRef.current.visible = opacity > 0.01;
+    // Additive points get brighter (and a little larger) on each beat
+    const { beat } = music.levels;
+    material.color.setScalar(1 + beat * BEAT_GLOW);
+    material.size = 0.12 * (1 + beat * 0.5);
     
     if (opacity <= 0.01) return;
 
@@ -100,7 +113,8 @@ const ChaoticSwarm = ({ opacity }: { opacity: number }) => {
 
   return (
     <points ref={pointsRef}>
-      <bufferGeometry>
+      {/* Keyed so a re-roll or theme change uploads fresh buffers */}
+      <bufferGeometry key={`${seed}-${palette.join()}`}>
         <bufferAttribute
           attach="attributes-position"
           count={count}
@@ -126,14 +140,25 @@ const ChaoticSwarm = ({ opacity }: { opacity: number }) => {
   );
 };
 
-const Star: React.FC<StarProps> = ({ treeState }) => {
+const Star: React.FC<StarProps> = ({ treeState, seed, layout, transition, theme, music }) => {
   const groupRef = useRef<THREE.Group>(null);
-  const progress = useRef(0); // 0 = Chaos (Dissipated), 1 = Formed (Gathered)
+  const progress = useRef(getStateDefinition(treeState).showTopper ? 1 : 0); // 0 = Dissipated, 1 = Gathered
+  // Topper glides to the new shape's anchor instead of jumping
+  const topperPos = useRef(getTopperPosition(treeState, layout).clone());
+  // Visibility and anchor when the running transition started
+  const fromProgress = useRef(progress.current);
+  const fromTopperPos = useRef(topperPos.current.clone());
+
+  useEffect(() => transition.subscribe((event) => {
+    if (event.type !== 'start') return;
+    fromProgress.current = progress.current;
+    fromTopperPos.current.copy(topperPos.current);
+  }), [transition]);
 
   // Reusable material
   const material = useMemo(() => new THREE.MeshStandardMaterial({
       color: new THREE.Color("#FFF"),
-      emissive: new THREE.Color("#FEDC56"),
+      emissive: new THREE.Color(theme.star.emissive),
       emissiveIntensity: 2,
       roughness: 0.1,
       metalness: 1.0,
@@ -142,31 +167,24 @@ const Star: React.FC<StarProps> = ({ treeState }) => {
       opacity: 0, 
   }), []);
 
-  useFrame(({ clock }, delta) => {
-    if (!groupRef.current) return;
+  useLayoutEffect(() => {
+    material.emissive.set(theme.star.emissive);
+  }, [material, theme]);
 
-    // 1. Calculate Animation Progress (Linear 1.5 seconds)
-    const speed = 1 / 1.5; 
-    const target = treeState === TreeState.FORMED;
-    // Fix: progress target logic was implicit in previous code, explicit here:
-    const targetVal = target ? 1 : 0;
-    
-    // Move towards target
-    const diff = targetVal - progress.current;
-    if (Math.abs(diff) > 0.0001) {
-        const step = Math.sign(diff) * delta * speed;
-        progress.current = THREE.MathUtils.clamp(progress.current + step, 0, 1);
-    } else {
-        progress.current = targetVal;
-    }
+  useFrame(({ clock }) => {
+    if (!groupRef.current) return;
 
-    // Easing for visual effect (Smoothstep)
-    const p = THREE.MathUtils.smoothstep(progress.current, 0, 1);
+    // 1. Follow the shared transition (already eased)
+    const { showTopper } = getStateDefinition(treeState);
+    const targetVal = showTopper ? 1 : 0;
+    const e = transition.eased;
+    progress.current = THREE.MathUtils.lerp(fromProgress.current, targetVal, e);
+    const p = progress.current;
 
     // 2. Animate Properties
     // Opacity: Fades in/out
     material.opacity = p;
-    material.emissiveIntensity = 2 * p;
+    material.emissiveIntensity = 2 * p * (1 + music.levels.beat * BEAT_GLOW);
     
     // Visibility check
     groupRef.current.visible = p > 0.01;
@@ -175,9 +193,15 @@ const Star: React.FC<StarProps> = ({ treeState }) => {
     const scale = 1.5 - (0.5 * p); 
     groupRef.current.scale.setScalar(scale);
 
-    // 3. Bobbing & Rotation (Only active when visible)
+    // 3. Follow the current shape's topper anchor (fade out in place when hidden)
+    if (showTopper) {
+      topperPos.current.lerpVectors(fromTopperPos.current, getTopperPosition(treeState, layout), e);
+    }
+
+    // 4. Bobbing & Rotation (Only active when visible)
     const t = clock.getElapsedTime();
-    groupRef.current.position.y = 8.2 + (Math.sin(t) * 0.05 * p);
+    groupRef.current.position.copy(topperPos.current);
+    groupRef.current.position.y += Math.sin(t) * 0.05 * p;
     groupRef.current.rotation.y = t * 0.2;
   });
 
@@ -225,10 +249,10 @@ const Star: React.FC<StarProps> = ({ treeState }) => {
       </mesh>
 
       {/* --- Effects --- */}
-      <pointLight color="#FEDC56" intensity={2 * progress.current} distance={8} decay={2} />
+      <pointLight color={theme.star.emissive} intensity={2 * progress.current} distance={8} decay={2} />
 
       {/* Replaced Sparkles with ChaoticSwarm for Three-Body style orbits */}
-      <ChaoticSwarm opacity={material.opacity} />
+      <ChaoticSwarm opacity={material.opacity} seed={seed} palette={theme.star.swarm} music={music} />
     </group>
   );
 };
@@ -0,0 +1,679 @@
+import { createContext, useContext } from 'react';
+import type { ErrorParams } from './types.ts';
+import type { SceneImportErrorCode } from './sceneArchive.ts';
+import type { MaskErrorCode } from './shapeMasks.ts';
+import type { RecordingErrorCode } from './recording.ts';
+import type { SnapshotErrorCode } from './snapshot.ts';
+import type { StorageQuotaError } from './storage.ts';
+
+// UI text in every supported language. Registries (states, shapes, themes, ...) keep
+// their English labels; the catalogues translate the built-in ones by id and anything
+// without an entry (a user's own path, a custom shape) shows as it is.
+
+export type Language = 'en' | 'zh';
+
+// Every code the modules' errors can carry. A catalogue that translates errors must
+// cover all of them, so a new or renamed code fails the type-check until it does.
+export type ErrorCode = SceneImportErrorCode | MaskErrorCode | RecordingErrorCode | SnapshotErrorCode | StorageQuotaError['code'];
+
+type ErrorTranslations = Record<ErrorCode, (params: ErrorParams) => string>;
+
+// What localizeError needs from any of the error classes
+export interface CodedError {
+  code: ErrorCode;
+  params: ErrorParams;
+  message: string;
+}
+
+export const LANGUAGES: { id: Language; label: string }[] = [
+  { id: 'en', label: 'EN' },
+  { id: 'zh', label: '中文' },
+];
+
+export const isLanguage = (value: unknown): value is Language =>
+  LANGUAGES.some(language => language.id === value);
+
+// First of the browser's preferred languages that has a catalogue
+export const detectLanguage = (): Language => {
+  const preferred = navigator.languages?.length ? navigator.languages : [navigator.language];
+  for (const tag of preferred) {
+    const base = tag.toLowerCase().split('-')[0];
+    if (isLanguage(base)) return base;
+  }
+  return 'en';
+};
+
+const en = {
+  // Polaroid backs without a message of their own
+  defaultBackText: 'Wish you\nwere here.',
+  documentTitle: {
+    focus: '⛄ Merry Christmas! 🎄',
+    blur: ' 🌟Polaroid Grand Luxury Christmas Tree🎁',
+  },
+  common: {
+    cancel: 'Cancel',
+    done: 'Done',
+    save: 'Save',
+    edit: 'Edit',
+    preview: 'Preview',
+    play: 'Play',
+    pause: 'Pause',
+    resume: 'Resume',
+    stop: 'Stop',
+    remove: 'Remove',
+    close: 'Close',
+    localAudio: 'Local audio…',
+  },
+  menu: {
+    states: 'STATES',
+    record: 'REC',
+    stopRecording: 'STOP',
+    recordingSetup: 'REC SETUP',
+    music: 'MUSIC',
+    render: 'RENDER',
+    snapshot: 'SNAP',
+    camera: 'CAMERA',
+    standard: 'STD',
+    free: 'FREE',
+    back: 'BACK',
+    text: 'TEXT',
+    reveal: 'REVEAL',
+    seed: 'SEED',
+    save: 'SAVE',
+    open: 'OPEN',
+    info: 'INFO',
+    album: 'ALBUM',
+    tour: 'TOUR',
+    editBack: 'EDIT BACK',
+    autoQuality: (tier: string) => `Auto·${tier}`,
+  },
+  overlay: {
+    restoring: 'Restoring',
+    rendering: 'Rendering',
+    countdownHint: 'Click anywhere to cancel',
+    recording: 'REC',
+    paused: 'PAUSED',
+  },
+  // Names for icon-only controls and the screen-reader announcements
+  a11y: {
+    menu: 'Controls',
+    openMenu: 'Open menu',
+    closeMenu: 'Close menu',
+    nextState: (state: string) => `Change to ${state}`,
+    addPhotos: (count: number, max: number) => `Add photos (${count} of ${max})`,
+    addFreePhotos: 'Add photos at their own aspect ratio',
+    backImage: 'Image for the backs of the photos',
+    openScene: 'Open a saved scene',
+    shape: (shape: string) => `Shape: ${shape}`,
+    theme: (theme: string) => `Theme: ${theme}`,
+    quality: (quality: string) => `Quality: ${quality}`,
+    language: (language: string) => `Language: ${language}`,
+    clearPhotos: 'Remove all photos',
+    dismiss: 'Dismiss',
+    stopPath: 'Stop the camera path',
+    stopTour: 'Stop the tour',
+    newSeed: 'Random seed',
+    replacePhoto: (n: number) => `Replace photo ${n}`,
+    deletePhoto: (n: number) => `Delete photo ${n}`,
+    deletePath: (name: string) => `Delete ${name}`,
+    deleteKeyframe: (n: number) => `Delete keyframe ${n}`,
+    deleteCue: (n: number) => `Delete cue ${n}`,
+    focused: (n: number, total: number, caption: string | null) => `Photo ${n} of ${total}${caption ? `: ${caption}` : ''}`,
+    selected: (n: number, total: number) => `Photo ${n} of ${total} selected. Press Enter to view it.`,
+  },
+  errorScreen: {
+    title: 'Something went wrong',
+    reload: 'Reload App',
+  },
+  help: {
+    title: 'Guide',
+    sections: [
+      { title: 'Long Press', body: 'Cycle through the states and watch chaos and order intertwine.' },
+      { title: 'Record Video', body: 'Tap record to capture the window as it plays, and tap again to stop and export. For a fixed resolution and a smooth frame rate, use RENDER to render offline frame by frame.' },
+      { title: 'View Photos', body: 'Tap a frame to focus on it; tap empty space to step back.' },
+      { title: 'Flip a Frame', body: 'While a frame is focused, double-tap it to read the message on its back.' },
+      { title: 'Keyboard', body: 'Arrow keys step through the photos along the spiral and Enter brings the selected one forward. F flips it, Esc steps back, Space forms or scatters the tree and R starts or stops recording.' },
+    ],
+    language: 'Language',
+    footer: 'May your holidays be filled with luxury and joy.',
+  },
+  message: {
+    title: 'Custom Message',
+    subtitle: 'Written on the back of every photo',
+    placeholder: 'Type your greeting here...',
+    reset: 'Reset',
+    confirm: 'Apply',
+    design: 'Back design…',
+  },
+  backFace: {
+    title: 'Back Design',
+    subtitle: 'How the backs of the photos are drawn',
+    templates: {
+      classic: 'Classic',
+      handwritten: 'Handwritten',
+      typed: 'Typed letter',
+      postcard: 'Postcard',
+      kraft: 'Kraft paper',
+    } as Record<string, string>,
+    font: 'Font',
+    fonts: {
+      sans: 'Sans',
+      serif: 'Serif',
+      script: 'Script',
+      mono: 'Typewriter',
+    } as Record<string, string>,
+    ink: 'Ink',
+    paper: 'Paper',
+    align: 'Align',
+    aligns: {
+      left: 'Left',
+      center: 'Centre',
+      right: 'Right',
+    },
+    signOffPlaceholder: 'Sign-off, e.g. — Love, Mia',
+    dateStamp: 'Date stamp',
+    brandingPlaceholder: 'Branding (up to two lines)',
+    brandingNote: 'Leave the branding empty to remove it.',
+  },
+  photoBack: {
+    title: 'Photo Back',
+    subtitle: 'Only for this photo',
+    hasImage: 'This photo has its own back image; saving text will replace it.',
+    placeholder: "Tell this photo's story...",
+    upload: 'Upload back image',
+    useDefault: 'Use default',
+  },
+  album: {
+    title: 'Album',
+    subtitle: 'Drag photos to change their order on the tree',
+    empty: 'The album is empty',
+  },
+  seed: {
+    title: 'Layout Seed',
+    subtitle: 'The same seed always grows the same tree',
+    invalid: 'Enter a whole number from 0 to 4294967295',
+    copied: 'Share link copied',
+    copyLink: 'Copy Link',
+    apply: 'Apply',
+  },
+  customShape: {
+    title: 'Custom Shape',
+    subtitle: 'Particles gather into text or a silhouette',
+    formText: 'Form Text',
+    upload: 'Upload black & white / SVG silhouette',
+    includeOrnaments: 'Ornaments join the shape too',
+    silhouette: 'Silhouette', // Label of a shape made from an uploaded image
+  },
+  states: {
+    title: 'States',
+    subtitle: 'Tap a name to switch at once; checked states join the FORM button and long-press cycle',
+    pause: 'Pause',
+    resume: 'Resume',
+    chime: 'Chime as states change',
+  },
+  render: {
+    title: 'Offline Render',
+    subtitle: 'Frame by frame, at a frame rate and resolution this device cannot slow down',
+    freeCamera: 'Free camera',
+    morphOnStart: 'Move to the next state at the start',
+    frames: (count: number) => `${count} frames; exported as a PNG sequence (ZIP) where WebCodecs is unavailable`,
+    start: 'Start Render',
+  },
+  snapshot: {
+    title: 'HD Snapshot',
+    subtitle: 'Re-render the current view at any resolution as a PNG',
+    transparent: 'Transparent background',
+    note: (tiles: number) => `${tiles > 1 ? `Too large for one pass; about ${tiles} tiles are stitched together` : 'Single pass'}; full post-processing`,
+    start: 'Take Snapshot',
+  },
+  recording: {
+    title: 'Recording',
+    subtitle: (countdown: number) => `Recording starts after a ${countdown}-second countdown; preview it before downloading`,
+    format: 'Frame',
+    window: 'Window',
+    formatNote: (width: number, height: number) => `Outputs ${width}×${height}, recording only the frame in the middle of the view`,
+    autoStop: 'Auto stop',
+    unlimited: 'Off',
+    titleCards: (isSet: boolean) => `Titles & watermark: ${isSet ? 'on' : 'none'}`,
+    editTitleCards: 'Edit…',
+    soundtrackNote: 'Soundtrack: plays while recording and is mixed into the video',
+    noSoundtrack: 'None',
+    loading: 'Loading soundtrack…',
+    trackInfo: (name: string, duration: string) => `${name} · ${duration}`,
+    startAt: (seconds: string) => `Start at ${seconds}`,
+    fadeOut: 'Fade out on stop',
+    matchTrackLength: 'Match the video to the soundtrack',
+    previewTitle: 'Preview',
+    markers: 'State changes:',
+    discard: 'Discard',
+    download: 'Download',
+  },
+  titleCards: {
+    title: 'Titles',
+    subtitle: 'Drawn into the recorded video, never shown on screen',
+    introPlaceholder: 'Intro text, e.g. Merry Christmas from the Chen family',
+    outroPlaceholder: 'Outro text (leave empty for none)',
+    font: 'Font',
+    fonts: { serif: 'Serif', sans: 'Sans', script: 'Script' } as Record<string, string>,
+    cardSeconds: 'Each card',
+    overlay: 'Over the scene',
+    replace: 'Replace the scene',
+    watermarkNote: 'Watermark: shown in a corner throughout',
+    watermarkPlaceholder: 'Watermark text (optional)',
+    uploadLogo: 'Upload logo…',
+    replaceLogo: 'Replace logo',
+    position: 'Position',
+    corners: { 'top-left': 'Top left', 'top-right': 'Top right', 'bottom-left': 'Bottom left', 'bottom-right': 'Bottom right' } as Record<string, string>,
+  },
+  music: {
+    title: 'Music',
+    subtitle: 'Bass lights the bulbs, mids sway the foliage, beats make the star flash',
+    pickTrack: 'Pick a track to start playing',
+    loading: 'Loading music…',
+    playing: 'Playing',
+    paused: 'Paused',
+    mute: 'Mute',
+    muted: 'Muted',
+    sensitivity: 'Sensitivity',
+    restoreNote: 'The scene returns to normal while muted or paused',
+  },
+  tour: {
+    title: 'Photo Tour',
+    subtitle: 'Brings each photo forward in turn. Touching the scene pauses the tour.',
+    photoSeconds: 'Seconds per photo',
+    flip: 'Turn each photo over to show its back',
+    loop: 'Start again after the last photo',
+    record: 'Record the tour',
+    recordNote: 'The recording pauses with the tour and stops when it ends.',
+    length: (time: string) => `One pass takes ${time}`,
+    start: 'Start Tour',
+    progress: (n: number, total: number) => `${n} / ${total}`,
+  },
+  camera: {
+    title: 'Camera Paths',
+    subtitle: 'Choreograph camera moves with keyframes, switching states or focusing photos on cue',
+    recordWhilePlaying: 'Record while playing and stop at the end',
+    namePlaceholder: 'Path name',
+    newPath: 'New',
+    keyframes: 'Keyframes',
+    addKeyframe: 'Add current view',
+    cues: 'Cues',
+    cueState: 'State',
+    cueFocus: 'Focus photo',
+    unfocus: 'Unfocus',
+    photo: (n: number) => `Photo ${n}`,
+    addCue: 'Add cue',
+    previewPath: 'Preview',
+    copyName: (name: string) => `${name} Copy`,
+    untitled: 'Untitled path',
+  },
+  notices: {
+    playAudio: 'Could not play this audio file.',
+    readAudio: 'Could not read this audio file.',
+    readImage: 'Could not read this image.',
+    save: 'Could not save your tree in this browser. Changes will be lost on reload.',
+    restore: 'Could not restore your saved tree.',
+    exportScene: 'Could not export the scene.',
+    importScene: 'Could not import the scene file.',
+    textShape: 'Could not build a shape from this text.',
+    imageShape: 'Could not build a shape from this image.',
+    recording: 'Recording failed.',
+    render: 'Could not render the video.',
+    snapshot: 'Could not render the snapshot.',
+  },
+  // Translations of the built-in registry labels, by id
+  labels: {
+    states: {} as Record<string, string>,
+    shapes: {} as Record<string, string>,
+    themes: {} as Record<string, string>,
+    quality: {} as Record<string, string>,
+    easing: {} as Record<string, string>,
+    tracks: {} as Record<string, string>,
+    paths: {} as Record<string, string>,
+    snapshotPresets: {} as Record<string, string>,
+  },
+  // The modules write their errors in English, so English needs no entries here
+  errors: {} as Partial<ErrorTranslations>,
+};
+
+export type Messages = typeof en;
+
+const zhErrors: ErrorTranslations = {
+  storageFull: () => '浏览器存储空间已满。请删除部分照片或释放空间，以便刷新后保留圣诞树。',
+  notScene: () => '这不是圣诞树场景文件。',
+  noVersion: () => '场景文件缺少有效的版本号。',
+  newerVersion: () => '该场景由更新版本的应用保存，请更新后重试。',
+  unknownState: () => '场景文件包含未知的形态。',
+  invalidMessage: () => '场景文件中的寄语无效。',
+  invalidBackImage: () => '场景文件中的背面图片无效。',
+  invalidSettings: () => '场景文件中的设置无效。',
+  invalidSeed: () => '场景文件中的布局种子无效。',
+  invalidShape: () => '场景文件中的造型无效。',
+  invalidSequence: () => '场景文件中的形态循环无效。',
+  invalidTheme: () => '场景文件中的主题无效。',
+  invalidBackDesign: () => '场景文件中的背面样式无效。',
+  noPhotoList: () => '场景文件缺少照片列表。',
+  tooManyPhotos: ({ count, max }) => `场景包含 ${count} 张照片，最多支持 ${max} 张。`,
+  damaged: () => '场景文件已损坏，或不是 JSON 文件。',
+  undecodable: () => '无法解码场景文件中的图片。',
+  photoInvalid: ({ photo }) => `照片 ${photo} 不是有效的条目。`,
+  photoInvalidId: ({ photo }) => `照片 ${photo} 的编号无效。`,
+  photoNoImage: ({ photo }) => `照片 ${photo} 缺少内嵌图片。`,
+  photoInvalidHeight: ({ photo }) => `照片 ${photo} 的相框高度无效。`,
+  photoInvalidCaption: ({ photo }) => `照片 ${photo} 的背面文字无效。`,
+  photoInvalidBackImage: ({ photo }) => `照片 ${photo} 的背面图片无效。`,
+  noShape: () => '未能识别出造型。请使用浅色或透明背景上的深色或不透明图形。',
+  noText: () => '请输入文字。',
+  noTextCanvas: () => '此浏览器无法绘制文字造型。',
+  unreadableImage: () => '无法读取这张剪影图片。',
+  noImageCanvas: () => '此浏览器无法读取剪影图片。',
+  unsupported: () => '此浏览器不支持录制视频。',
+  startFailed: () => '无法开始录制。',
+  interrupted: () => '录制意外中断。',
+  invalidSize: () => '请输入以像素为单位的整数宽度和高度。',
+  tooLarge: ({ max }) => `快照每边最多 ${max} 像素。`,
+  encodeFailed: () => '浏览器无法编码这张快照。',
+};
+
+const zh: Messages = {
+  defaultBackText: '愿你\n也在这里。',
+  documentTitle: {
+    focus: '⛄ 圣诞快乐！🎄',
+    blur: ' 🌟拍立得豪华圣诞树🎁',
+  },
+  common: {
+    cancel: '取消',
+    done: '完成',
+    save: '确认保存',
+    edit: '编辑',
+    preview: '预览',
+    play: '播放',
+    pause: '暂停',
+    resume: '继续',
+    stop: '停止',
+    remove: '移除',
+    close: '关闭',
+    localAudio: '本地音频…',
+  },
+  menu: {
+    states: '形态',
+    record: '录制',
+    stopRecording: '停止',
+    recordingSetup: '录制设置',
+    music: '音乐',
+    render: '渲染',
+    snapshot: '快照',
+    camera: '镜头',
+    standard: '标准',
+    free: '自由',
+    back: '背面',
+    text: '寄语',
+    reveal: '造型',
+    seed: '种子',
+    save: '保存',
+    open: '打开',
+    info: '指南',
+    album: '相册',
+    tour: '巡览',
+    editBack: '编辑背面',
+    autoQuality: (tier: string) => `自动·${tier}`,
+  },
+  overlay: {
+    restoring: '正在恢复',
+    rendering: '正在渲染',
+    countdownHint: '点击任意处取消',
+    recording: '录制中',
+    paused: '已暂停',
+  },
+  a11y: {
+    menu: '控制栏',
+    openMenu: '打开菜单',
+    closeMenu: '收起菜单',
+    nextState: (state: string) => `切换到${state}`,
+    addPhotos: (count: number, max: number) => `添加图片（${count}/${max}）`,
+    addFreePhotos: '按原始比例添加图片',
+    backImage: '相框背面图片',
+    openScene: '打开已保存的场景',
+    shape: (shape: string) => `造型：${shape}`,
+    theme: (theme: string) => `主题：${theme}`,
+    quality: (quality: string) => `画质：${quality}`,
+    language: (language: string) => `语言：${language}`,
+    clearPhotos: '移除全部图片',
+    dismiss: '关闭提示',
+    stopPath: '停止镜头路径',
+    stopTour: '停止巡览',
+    newSeed: '随机种子',
+    replacePhoto: (n: number) => `替换第 ${n} 张图片`,
+    deletePhoto: (n: number) => `删除第 ${n} 张图片`,
+    deletePath: (name: string) => `删除「${name}」`,
+    deleteKeyframe: (n: number) => `删除第 ${n} 个关键帧`,
+    deleteCue: (n: number) => `删除第 ${n} 个提示点`,
+    focused: (n: number, total: number, caption: string | null) => `第 ${n} 张，共 ${total} 张${caption ? `：${caption}` : ''}`,
+    selected: (n: number, total: number) => `已选中第 ${n} 张，共 ${total} 张，按回车查看。`,
+  },
+  errorScreen: {
+    title: '出错了',
+    reload: '重新加载',
+  },
+  help: {
+    title: '操作指南',
+    sections: [
+      { title: '长按屏幕', body: '在各个形态间循环切换，感受混沌与秩序的交织。' },
+      { title: '录制视频', body: '点击录制按钮实时捕捉当前窗口画面，再次点击停止并导出视频；需要固定分辨率与流畅帧率时，使用「渲染」离线逐帧渲染。' },
+      { title: '查看图片', body: '单击相框可聚焦查看细节；再次单击空白处退出。' },
+      { title: '翻转相框', body: '在聚焦状态下，双击相框可翻转查看背面的文字。' },
+      { title: '键盘操作', body: '方向键沿螺旋顺序切换图片，回车聚焦选中的图片；F 翻转，Esc 退出，空格聚合或散开圣诞树，R 开始或停止录制。' },
+    ],
+    language: '语言',
+    footer: '愿你的节日充满奢华与喜悦。',
+  },
+  message: {
+    title: '定制寄语',
+    subtitle: '写在每张照片的背面',
+    placeholder: '在此输入您的祝福语...',
+    reset: '清空恢复',
+    confirm: '确认生成',
+    design: '背面样式…',
+  },
+  backFace: {
+    title: '背面样式',
+    subtitle: '照片背面的版式设计',
+    templates: {
+      classic: '经典',
+      handwritten: '手写便笺',
+      typed: '打字信笺',
+      postcard: '明信片',
+      kraft: '牛皮纸',
+    },
+    font: '字体',
+    fonts: {
+      sans: '无衬线',
+      serif: '衬线',
+      script: '手写',
+      mono: '打字机',
+    },
+    ink: '墨色',
+    paper: '纸色',
+    align: '对齐',
+    aligns: {
+      left: '左',
+      center: '中',
+      right: '右',
+    },
+    signOffPlaceholder: '落款，例如：—— 爱你的小米',
+    dateStamp: '日期戳',
+    brandingPlaceholder: '品牌文字（最多两行）',
+    brandingNote: '清空品牌文字即可移除。',
+  },
+  photoBack: {
+    title: '照片背面',
+    subtitle: '仅用于这张照片',
+    hasImage: '此照片已使用自定义背面图片，保存文字将替换图片。',
+    placeholder: '在此输入这张照片的故事...',
+    upload: '上传背面图片',
+    useDefault: '使用默认',
+  },
+  album: {
+    title: '管理相册',
+    subtitle: '拖动照片调整在树上的顺序',
+    empty: '相册还是空的',
+  },
+  seed: {
+    title: '布局种子',
+    subtitle: '相同的种子总会生成相同的圣诞树',
+    invalid: '请输入 0 – 4294967295 之间的整数',
+    copied: '分享链接已复制',
+    copyLink: '复制链接',
+    apply: '应用',
+  },
+  customShape: {
+    title: '专属造型',
+    subtitle: '粒子将汇聚成文字或剪影',
+    formText: '组成文字',
+    upload: '上传黑白 / SVG 剪影',
+    includeOrnaments: '装饰物也参与组成造型',
+    silhouette: '剪影',
+  },
+  states: {
+    title: '形态',
+    subtitle: '点击名称立即切换；勾选的形态会加入切换按钮与长按的循环',
+    pause: '暂停变换',
+    resume: '继续变换',
+    chime: '形态切换时播放提示音',
+  },
+  render: {
+    title: '离线渲染',
+    subtitle: '逐帧渲染，帧率与分辨率不受设备性能影响',
+    freeCamera: '自由镜头',
+    morphOnStart: '开始时切换到下一形态',
+    frames: (count: number) => `共 ${count} 帧；浏览器不支持 WebCodecs 时导出 PNG 序列（ZIP）`,
+    start: '开始渲染',
+  },
+  snapshot: {
+    title: '高清快照',
+    subtitle: '以任意分辨率重新渲染当前画面，导出 PNG',
+    transparent: '透明背景',
+    note: (tiles: number) => `${tiles > 1 ? `超出单帧上限，约分 ${tiles} 块渲染后拼接` : '单帧渲染'}；使用完整后期效果`,
+    start: '生成快照',
+  },
+  recording: {
+    title: '录制设置',
+    subtitle: (countdown: number) => `倒计时 ${countdown} 秒后开始录制，结束后可预览再下载`,
+    format: '画幅',
+    window: '窗口',
+    formatNote: (width: number, height: number) => `输出 ${width}×${height}，只录制画面中央的取景框`,
+    autoStop: '自动停止',
+    unlimited: '不限',
+    titleCards: (isSet: boolean) => `片头片尾与水印：${isSet ? '已设置' : '无'}`,
+    editTitleCards: '编辑…',
+    soundtrackNote: '配乐：录制时同步播放，并作为音轨混入视频',
+    noSoundtrack: '无配乐',
+    loading: '正在读取配乐…',
+    trackInfo: (name: string, duration: string) => `${name} · 时长 ${duration}`,
+    startAt: (seconds: string) => `从 ${seconds} 开始播放`,
+    fadeOut: '停止时淡出',
+    matchTrackLength: '视频时长与配乐一致',
+    previewTitle: '录像预览',
+    markers: '形态切换：',
+    discard: '放弃',
+    download: '下载',
+  },
+  titleCards: {
+    title: '片头片尾',
+    subtitle: '直接绘制进录制的视频画面，屏幕上不显示',
+    introPlaceholder: '片头文字，例如：Merry Christmas from the Chen family',
+    outroPlaceholder: '片尾文字（留空则不显示）',
+    font: '字体',
+    fonts: { serif: '衬线', sans: '无衬线', script: '手写' },
+    cardSeconds: '每张时长',
+    overlay: '叠加在场景上',
+    replace: '替换场景',
+    watermarkNote: '水印：全程显示在画面一角',
+    watermarkPlaceholder: '水印文字（可选）',
+    uploadLogo: '上传标志图片…',
+    replaceLogo: '更换标志图片',
+    position: '位置',
+    corners: { 'top-left': '左上', 'top-right': '右上', 'bottom-left': '左下', 'bottom-right': '右下' },
+  },
+  music: {
+    title: '音乐律动',
+    subtitle: '低音点亮彩灯，中音让叶片起伏，节拍闪亮星星',
+    pickTrack: '选择一首曲目开始播放',
+    loading: '正在读取音乐…',
+    playing: '正在播放',
+    paused: '已暂停',
+    mute: '静音',
+    muted: '已静音',
+    sensitivity: '灵敏度',
+    restoreNote: '静音或暂停时，场景恢复原样',
+  },
+  tour: {
+    title: '照片巡览',
+    subtitle: '依次将每张照片拉到眼前展示；触碰场景即可暂停巡览。',
+    photoSeconds: '每张停留秒数',
+    flip: '翻转展示每张照片的背面',
+    loop: '播完最后一张后从头开始',
+    record: '同时录制巡览',
+    recordNote: '录制会随巡览暂停，并在巡览结束时停止。',
+    length: (time: string) => `完整一轮约 ${time}`,
+    start: '开始巡览',
+    progress: (n: number, total: number) => `${n} / ${total}`,
+  },
+  camera: {
+    title: '镜头路径',
+    subtitle: '用关键帧编排镜头运动，并在指定时间切换形态或聚焦照片',
+    recordWhilePlaying: '播放时同步录制，结束后自动停止',
+    namePlaceholder: '路径名称',
+    newPath: '新建',
+    keyframes: '关键帧',
+    addKeyframe: '添加当前视角',
+    cues: '事件',
+    cueState: '形态',
+    cueFocus: '聚焦照片',
+    unfocus: '取消聚焦',
+    photo: (n: number) => `照片 ${n}`,
+    addCue: '添加事件',
+    previewPath: '预览播放',
+    copyName: (name: string) => `${name} 副本`,
+    untitled: '未命名路径',
+  },
+  notices: {
+    playAudio: '无法播放这个音频文件。',
+    readAudio: '无法读取这个音频文件。',
+    readImage: '无法读取这张图片。',
+    save: '无法在此浏览器中保存圣诞树，刷新后改动将会丢失。',
+    restore: '无法恢复已保存的圣诞树。',
+    exportScene: '无法导出场景。',
+    importScene: '无法导入这个场景文件。',
+    textShape: '无法用这段文字生成造型。',
+    imageShape: '无法用这张图片生成造型。',
+    recording: '录制失败。',
+    render: '无法渲染视频。',
+    snapshot: '无法生成快照。',
+  },
+  labels: {
+    states: { CHAOS: '混沌', GALAXY: '星系', FORMED: '成型', EXPLODED: '爆散', CUSTOM: '专属' },
+    shapes: { cone: '圆锥', spiral: '螺旋', tiered: '层叠冷杉', heart: '爱心', star: '星形', wreath: '花环' },
+    themes: { classic: '经典', 'silver-frost': '银霜', 'rose-gold': '玫瑰金', 'midnight-blue': '午夜蓝' },
+    quality: { low: '低', medium: '中', high: '高', ultra: '超高' },
+    easing: { linear: '匀速', easeIn: '缓入', easeOut: '缓出', easeInOut: '缓入缓出' },
+    tracks: { 'jingle-bells': '铃儿响叮当（八音盒）', 'merry-christmas': '祝你圣诞快乐' },
+    paths: { 'grand-reveal': '盛大揭幕', 'spiral-ascent': '螺旋上升' },
+    snapshotPresets: { 'A3 Poster': 'A3 海报', 'A2 Poster': 'A2 海报' },
+  },
+  errors: zhErrors,
+};
+
+export const MESSAGES: Record<Language, Messages> = { en, zh };
+
+export const LanguageContext = createContext<Messages>(en);
+
+export const useMessages = (): Messages => useContext(LanguageContext);
+
+// Translated label of a built-in registry entry, or its own label
+export const getLabel = (labels: Record<string, string>, id: string, fallback: string): string =>
+  labels[id] ?? fallback;
+
+// Error from one of the modules, in the current language where a translation exists
+export const localizeError = (messages: Messages, error: CodedError): string =>
+  messages.errors[error.code]?.(error.params) ?? error.message;
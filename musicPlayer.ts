@@ -0,0 +1,200 @@
+import { MathUtils } from 'three';
+import { SoundtrackSource, loadSoundtrack } from './soundtrack.ts';
+
+// In-app music player whose frequency analysis drives the scene. Like
+// TransitionController it is created once by the app and stepped by the scene each
+// frame, before any subsystem reads `levels`.
+
+// Each level is 0..1 and already scaled by sensitivity. All three are exactly zero
+// while nothing is playing or the player is muted, so the scene looks as it does without music.
+export interface AudioLevels {
+  bass: number; // Low end (kick, bass line)
+  mid: number; // Melody and vocals
+  beat: number; // Jumps to 1 on a detected beat, then decays
+}
+
+export interface MusicPlayerState {
+  source: SoundtrackSource | null;
+  isLoading: boolean;
+  isPlaying: boolean;
+  isMuted: boolean;
+  sensitivity: number;
+}
+
+export type MusicPlayerListener = (state: MusicPlayerState) => void;
+
+export const DEFAULT_SENSITIVITY = 1;
+export const MAX_SENSITIVITY = 2;
+
+// Frequency bands in Hz
+const BASS_BAND: [number, number] = [20, 150];
+const MID_BAND: [number, number] = [400, 2000];
+
+// A beat is bass rising this far above its recent average...
+const BEAT_THRESHOLD = 1.3;
+// ...with at least this much bass, and no other beat in the last BEAT_COOLDOWN seconds
+const BEAT_FLOOR = 0.15;
+const BEAT_COOLDOWN = 0.25;
+const BEAT_DECAY = 6; // Per second
+const AVERAGE_WINDOW = 0.5; // Seconds the bass average follows over
+const RELEASE = 8; // Per second; how fast levels fall back to zero when switched off
+
+export class MusicPlayer {
+  private ctx: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private gain: GainNode | null = null;
+  private node: AudioBufferSourceNode | null = null;
+  private bins = new Uint8Array(0);
+  private loadToken = 0;
+  private bassAverage = 0;
+  private cooldown = 0;
+  private listeners = new Set<MusicPlayerListener>();
+  private snapshot: MusicPlayerState = {
+    source: null,
+    isLoading: false,
+    isPlaying: false,
+    isMuted: false,
+    sensitivity: DEFAULT_SENSITIVITY,
+  };
+
+  readonly levels: AudioLevels = { bass: 0, mid: 0, beat: 0 };
+
+  get state(): MusicPlayerState { return this.snapshot; }
+
+  // Whether the music should currently move the scene
+  get isReacting(): boolean {
+    return this.snapshot.isPlaying && !this.snapshot.isMuted;
+  }
+
+  // Load a track and start playing it on a loop. Call from a user gesture, so the
+  // audio context is allowed to start.
+  async play(source: SoundtrackSource): Promise<void> {
+    const ctx = this.ensureContext();
+    ctx.resume();
+    const token = ++this.loadToken;
+    this.stopNode();
+    this.setState({ source, isLoading: true, isPlaying: false });
+
+    try {
+      const buffer = await loadSoundtrack(source);
+      if (token !== this.loadToken) return;
+      const node = ctx.createBufferSource();
+      node.buffer = buffer;
+      node.loop = true;
+      node.connect(this.analyser!);
+      node.start();
+      this.node = node;
+      this.setState({ isLoading: false, isPlaying: true });
+    } catch (err) {
+      if (token === this.loadToken) this.setState({ source: null, isLoading: false });
+      throw err;
+    }
+  }
+
+  pause(): void {
+    if (!this.ctx || !this.node) return;
+    this.ctx.suspend();
+    this.setState({ isPlaying: false });
+  }
+
+  resume(): void {
+    if (!this.ctx || !this.node) return;
+    this.ctx.resume();
+    this.setState({ isPlaying: true });
+  }
+
+  stop(): void {
+    this.loadToken++;
+    this.stopNode();
+    this.setState({ source: null, isLoading: false, isPlaying: false });
+  }
+
+  setMuted(isMuted: boolean): void {
+    if (this.gain) this.gain.gain.value = isMuted ? 0 : 1;
+    this.setState({ isMuted });
+  }
+
+  setSensitivity(sensitivity: number): void {
+    this.setState({ sensitivity: MathUtils.clamp(sensitivity, 0, MAX_SENSITIVITY) });
+  }
+
+  // Called once per frame by the scene
+  update(delta: number): void {
+    const levels = this.levels;
+    if (!this.analyser || !this.isReacting) {
+      // Ease out rather than cut, then settle on exactly zero
+      const fall = Math.exp(-RELEASE * delta);
+      const release = (level: number) => level * fall < 1e-3 ? 0 : level * fall;
+      levels.bass = release(levels.bass);
+      levels.mid = release(levels.mid);
+      levels.beat = release(levels.beat);
+      this.bassAverage = 0;
+      return;
+    }
+
+    this.analyser.getByteFrequencyData(this.bins);
+    const bass = this.bandLevel(BASS_BAND);
+    const mid = this.bandLevel(MID_BAND);
+
+    this.cooldown = Math.max(0, this.cooldown - delta);
+    levels.beat *= Math.exp(-BEAT_DECAY * delta);
+    if (this.cooldown === 0 && bass > BEAT_FLOOR && bass > this.bassAverage * BEAT_THRESHOLD) {
+      levels.beat = 1;
+      this.cooldown = BEAT_COOLDOWN;
+    }
+    this.bassAverage = MathUtils.lerp(this.bassAverage, bass, 1 - Math.exp(-delta / AVERAGE_WINDOW));
+
+    const { sensitivity } = this.snapshot;
+    levels.bass = Math.min(1, bass * sensitivity);
+    levels.mid = Math.min(1, mid * sensitivity);
+    levels.beat = Math.min(levels.beat, sensitivity);
+  }
+
+  subscribe(listener: MusicPlayerListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private ensureContext(): AudioContext {
+    if (this.ctx) return this.ctx;
+    const ctx = new AudioContext();
+    const analyser = ctx.createAnalyser();
+    analyser.fftSize = 2048;
+    analyser.smoothingTimeConstant = 0.6;
+    const gain = ctx.createGain();
+    gain.gain.value = this.snapshot.isMuted ? 0 : 1;
+    analyser.connect(gain);
+    gain.connect(ctx.destination);
+    this.ctx = ctx;
+    this.analyser = analyser;
+    this.gain = gain;
+    this.bins = new Uint8Array(analyser.frequencyBinCount);
+    return ctx;
+  }
+
+  // Average magnitude (0..1) of the bins covering a frequency band
+  private bandLevel([low, high]: [number, number]): number {
+    const hzPerBin = this.ctx!.sampleRate / this.analyser!.fftSize;
+    const start = Math.max(0, Math.floor(low / hzPerBin));
+    const end = Math.min(this.bins.length - 1, Math.ceil(high / hzPerBin));
+    let sum = 0;
+    for (let i = start; i <= end; i++) sum += this.bins[i];
+    return sum / ((end - start + 1) * 255);
+  }
+
+  private stopNode(): void {
+    if (!this.node) return;
+    this.node.stop();
+    this.node.disconnect();
+    this.node = null;
+    // A paused context would keep the next track from starting
+    this.ctx?.resume();
+  }
+
+  private setState(changes: Partial<MusicPlayerState>): void {
+    this.snapshot = { ...this.snapshot, ...changes };
+    this.listeners.forEach(listener => listener(this.snapshot));
+  }
+}
@@ -0,0 +1,126 @@
+import { createWebmWriter } from './webm.ts';
+import { createZipWriter } from './zip.ts';
+
+// Offline video rendering: the scene is stepped on a fixed timestep and every frame
+// is encoded at the requested size, independent of how fast the device can draw.
+
+export interface RenderResolution {
+  label: string;
+  width: number;
+  height: number;
+}
+
+export interface RenderSettings {
+  width: number;
+  height: number;
+  fps: number;
+  duration: number; // Seconds
+}
+
+export interface RenderResult {
+  blob: Blob;
+  extension: string; // 'webm', or 'zip' for a PNG frame sequence
+}
+
+export const RENDER_RESOLUTIONS: RenderResolution[] = [
+  { label: '720p', width: 1280, height: 720 },
+  { label: '1080p', width: 1920, height: 1080 },
+  { label: '1440p', width: 2560, height: 1440 },
+  { label: '4K', width: 3840, height: 2160 },
+];
+export const RENDER_FRAME_RATES = [30, 60];
+export const RENDER_DURATIONS = [5, 10, 15, 30];
+
+export const DEFAULT_RENDER_SETTINGS: RenderSettings = { width: 1920, height: 1080, fps: 60, duration: 10 };
+
+export const getFrameCount = (settings: RenderSettings): number => Math.round(settings.duration * settings.fps);
+
+// Receives rendered frames straight from the WebGL canvas
+export interface FrameSink {
+  addFrame: (canvas: HTMLCanvasElement, index: number) => Promise<void>;
+  finish: () => Promise<RenderResult>;
+  cancel: () => void;
+}
+
+// Level 5.1 covers 4K at 60 fps
+const CODECS: { codec: string; container: 'vp9' | 'vp8' }[] = [
+  { codec: 'vp09.00.51.08', container: 'vp9' },
+  { codec: 'vp8', container: 'vp8' },
+];
+
+// Keyframe interval in seconds; also the seek granularity of the file
+const KEYFRAME_SECONDS = 2;
+// Frames allowed to queue in the encoder before rendering waits for it
+const MAX_ENCODE_QUEUE = 8;
+
+// Roughly 12 Mbps at 1080p60, scaled by pixel rate
+const getBitrate = ({ width, height, fps }: RenderSettings): number =>
+  Math.round(width * height * fps * 0.1);
+
+const createVideoSink = async (settings: RenderSettings): Promise<FrameSink | null> => {
+  if (typeof VideoEncoder === 'undefined') return null;
+
+  for (const { codec, container } of CODECS) {
+    const config: VideoEncoderConfig = {
+      codec,
+      width: settings.width,
+      height: settings.height,
+      bitrate: getBitrate(settings),
+      framerate: settings.fps,
+    };
+    const support = await VideoEncoder.isConfigSupported(config).catch(() => null);
+    if (!support?.supported) continue;
+
+    const writer = createWebmWriter(container, settings.width, settings.height, settings.fps);
+    let failure: Error | null = null;
+    const encoder = new VideoEncoder({
+      output: chunk => writer.addChunk(chunk),
+      error: err => { failure = err; },
+    });
+    encoder.configure(config);
+
+    const frameDuration = 1e6 / settings.fps; // Microseconds
+    const keyInterval = Math.round(settings.fps * KEYFRAME_SECONDS);
+
+    return {
+      addFrame: async (canvas, index) => {
+        if (failure) throw failure;
+        // Capture before waiting on the encoder; the next frame redraws the canvas
+        const frame = new VideoFrame(canvas, { timestamp: Math.round(index * frameDuration), duration: Math.round(frameDuration) });
+        encoder.encode(frame, { keyFrame: index % keyInterval === 0 });
+        frame.close();
+        while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+          await new Promise(resolve => setTimeout(resolve, 5));
+        }
+      },
+      finish: async () => {
+        await encoder.flush();
+        encoder.close();
+        if (failure) throw failure;
+        return { blob: writer.finish(), extension: 'webm' };
+      },
+      cancel: () => {
+        if (encoder.state !== 'closed') encoder.close();
+      },
+    };
+  }
+  return null;
+};
+
+// Fallback for browsers without WebCodecs: a ZIP of numbered PNG frames
+const createPngSink = (): FrameSink => {
+  const zip = createZipWriter();
+  return {
+    addFrame: async (canvas, index) => {
+      // toBlob copies the canvas right away, before the drawing buffer is cleared
+      const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+      if (!blob) throw new Error('Could not read the rendered frame.');
+      zip.addFile(`frame_${String(index).padStart(5, '0')}.png`, new Uint8Array(await blob.arrayBuffer()));
+    },
+    finish: async () => ({ blob: zip.finish(), extension: 'zip' }),
+    cancel: () => {},
+  };
+};
+
+export const createFrameSink = async (settings: RenderSettings): Promise<FrameSink> =>
+  (await createVideoSink(settings)) ?? createPngSink();
@@ -0,0 +1,96 @@
+// Rendering quality tiers. Particle buffers are always allocated for the largest
+// tier and only their drawn range changes, so switching tier never remounts the tree.
+
+export type QualityTier = 'low' | 'medium' | 'high' | 'ultra';
+export type QualityMode = QualityTier | 'auto';
+
+export interface QualityProfile {
+  tier: QualityTier;
+  label: string;
+  foliageCount: number;
+  ornamentCounts: { box: number; ball: number; light: number };
+  dpr: [number, number];
+  antialias: boolean; // MSAA on desktop, SMAA on mobile
+  bloom: boolean;
+  shadowResolution: number; // 0 disables ContactShadows
+  stars: number;
+  sparkles: number; // 0 disables Sparkles
+  environment: boolean; // Remote HDRI reflections
+}
+
+export const QUALITY_TIERS: QualityTier[] = ['low', 'medium', 'high', 'ultra'];
+export const QUALITY_MODES: QualityMode[] = ['auto', ...QUALITY_TIERS];
+
+const profiles: Record<QualityTier, QualityProfile> = {
+  low: {
+    tier: 'low',
+    label: 'Low',
+    foliageCount: 4000,
+    ornamentCounts: { box: 12, ball: 24, light: 50 },
+    dpr: [1, 1],
+    antialias: false,
+    bloom: false,
+    shadowResolution: 0,
+    stars: 1000,
+    sparkles: 0,
+    environment: false,
+  },
+  medium: {
+    tier: 'medium',
+    label: 'Medium',
+    foliageCount: 8000,
+    ornamentCounts: { box: 20, ball: 40, light: 80 },
+    dpr: [1, 1.5],
+    antialias: true,
+    bloom: true,
+    shadowResolution: 128,
+    stars: 2000,
+    sparkles: 80,
+    environment: true,
+  },
+  high: {
+    tier: 'high',
+    label: 'High',
+    foliageCount: 12000,
+    ornamentCounts: { box: 30, ball: 60, light: 120 },
+    dpr: [1, 2],
+    antialias: true,
+    bloom: true,
+    shadowResolution: 256,
+    stars: 3000,
+    sparkles: 150,
+    environment: true,
+  },
+  ultra: {
+    tier: 'ultra',
+    label: 'Ultra',
+    foliageCount: 16000,
+    ornamentCounts: { box: 60, ball: 120, light: 320 },
+    dpr: [1, 2],
+    antialias: true,
+    bloom: true,
+    shadowResolution: 512,
+    stars: 5000,
+    sparkles: 250,
+    environment: true,
+  },
+};
+
+// Buffer sizes: every tier draws a prefix of these
+export const MAX_FOLIAGE_COUNT = profiles.ultra.foliageCount;
+export const MAX_ORNAMENT_COUNTS = profiles.ultra.ornamentCounts;
+
+export const getQualityProfile = (tier: QualityTier): QualityProfile => profiles[tier];
+
+export const isQualityMode = (value: unknown): value is QualityMode =>
+  QUALITY_MODES.includes(value as QualityMode);
+
+// Starting point for automatic mode, before any frame times are known
+export const getInitialTier = (): QualityTier =>
+  /iPhone|iPad|iPod|Android/i.test(navigator.userAgent) ? 'medium' : 'high';
+
+// Neighbouring tier, clamped to the ends of the list
+export const stepTier = (tier: QualityTier, direction: 1 | -1): QualityTier => {
+  const index = QUALITY_TIERS.indexOf(tier) + direction;
+  return QUALITY_TIERS[Math.min(QUALITY_TIERS.length - 1, Math.max(0, index))];
+};
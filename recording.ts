@@ -0,0 +1,120 @@
+// Realtime recording of the canvas with MediaRecorder (see components/Recorder.tsx).
+// Unlike offline renders this captures exactly what is on screen, at the device's pace.
+
+import { ErrorParams, TreeState } from './types.ts';
+
+export interface RecordingProgress {
+  elapsed: number; // Seconds of footage, not counting pauses
+  bytes: number; // Encoded so far
+}
+
+// Where a state change began in the footage, so the preview can jump to it
+export interface RecordingMarker {
+  time: number; // Seconds of footage
+  state: TreeState; // The state the tree was moving to
+}
+
+export interface RecordingResult {
+  blob: Blob;
+  extension: string; // 'mp4' or 'webm'
+  duration: number; // Seconds of footage
+  markers: RecordingMarker[];
+}
+
+export const COUNTDOWN_SECONDS = 3;
+
+// Automatic stop after this many seconds of footage; null records until stopped
+export const MAX_DURATION_OPTIONS: (number | null)[] = [null, 10, 30, 60, 120];
+
+// Fixed-size output for phone-first platforms. The recording is the centre of the
+// view at the format's aspect; the rest of the window stays visible around the guides.
+export interface RecordingFormat {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+  // Fractions of the frame each platform's own UI (captions, buttons) tends to cover
+  safeArea: { top: number; right: number; bottom: number; left: number };
+}
+
+export const RECORDING_FORMATS: RecordingFormat[] = [
+  { id: 'story', label: '9:16', width: 1080, height: 1920, safeArea: { top: 0.14, right: 0.12, bottom: 0.2, left: 0.06 } },
+  { id: 'square', label: '1:1', width: 1080, height: 1080, safeArea: { top: 0.05, right: 0.05, bottom: 0.05, left: 0.05 } },
+  { id: 'wide', label: '16:9', width: 1920, height: 1080, safeArea: { top: 0.05, right: 0.05, bottom: 0.05, left: 0.05 } },
+];
+
+export const getRecordingFormat = (id: string | null): RecordingFormat | null =>
+  RECORDING_FORMATS.find(format => format.id === id) ?? null;
+
+// In CSS pixels within the view
+export interface RecordingCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Largest rectangle of the format's aspect that fits the view, centred
+export const getRecordingCrop = (viewWidth: number, viewHeight: number, format: RecordingFormat): RecordingCrop => {
+  const aspect = format.width / format.height;
+  const width = Math.min(viewWidth, viewHeight * aspect);
+  const height = width / aspect;
+  return { x: (viewWidth - width) / 2, y: (viewHeight - height) / 2, width, height };
+};
+
+// Prioritize MP4 (H.264), fallback to WebM (VP9/VP8)
+const VIDEO_MIME_TYPES = [
+  'video/mp4;codecs=h264',
+  'video/mp4',
+  'video/webm;codecs=vp9',
+  'video/webm'
+];
+
+// Tried first when a soundtrack is mixed in, so the container gets a matching audio codec
+const AUDIO_VIDEO_MIME_TYPES = [
+  'video/mp4;codecs=avc1,mp4a.40.2',
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+];
+
+export type RecordingErrorCode =
+  | 'unsupported'
+  | 'startFailed'
+  | 'interrupted';
+
+// Shown to the user by code (i18n.ts); the English text doubles as the log message
+const RECORDING_ERRORS: Record<RecordingErrorCode, (params: ErrorParams) => string> = {
+  unsupported: () => 'This browser cannot record video.',
+  startFailed: () => 'Could not start recording.',
+  interrupted: () => 'Recording stopped unexpectedly.',
+};
+
+export class RecordingError extends Error {
+  readonly code: RecordingErrorCode;
+  readonly params: ErrorParams;
+  constructor(code: RecordingErrorCode, params: ErrorParams = {}) {
+    super(RECORDING_ERRORS[code](params));
+    this.name = 'RecordingError';
+    this.code = code;
+    this.params = params;
+  }
+}
+
+// First container this browser can record, or null when recording is unsupported
+export const pickRecordingMimeType = (withAudio: boolean): string | null => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  const candidates = withAudio ? [...AUDIO_VIDEO_MIME_TYPES, ...VIDEO_MIME_TYPES] : VIDEO_MIME_TYPES;
+  return candidates.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+};
+
+export const getRecordingExtension = (mimeType: string): string => mimeType.includes('mp4') ? 'mp4' : 'webm';
+
+// e.g. 1:05
+export const formatDuration = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+// e.g. 12.4 MB
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -0,0 +1,288 @@
+import { ErrorParams, PhotoItem, TreeState } from './types.ts';
+import { BackFaceSettings } from './backFace.ts';
+
+// Portable scene package: one JSON file with every image embedded as a data URL,
+// so a finished tree can be moved to another device and rebuilt as-is.
+
+export const SCENE_FORMAT = 'polaroid-christmas-tree/scene';
+export const SCENE_VERSION = 1;
+export const SCENE_FILE_EXTENSION = '.tree.json';
+
+interface ArchivedPhoto {
+  id?: string; // Seeds the photo's scattered position, so it is kept across devices
+  image: string; // data:image/... URL
+  height: number;
+  caption?: string;
+  backImage?: string;
+}
+
+// Optional in version 1 files: older exports simply keep the importer's current settings
+export interface SceneSettings {
+  seed?: number;
+  shapeId?: string;
+  stateSequence?: TreeState[];
+  themeId?: string;
+  backFace?: BackFaceSettings; // Sanitised field by field when applied
+}
+
+export interface SceneArchive {
+  format: typeof SCENE_FORMAT;
+  version: number;
+  createdAt: string;
+  treeState: TreeState;
+  backText: string;
+  backImage: string | null;
+  photos: ArchivedPhoto[];
+  settings?: SceneSettings;
+}
+
+export interface ImportedPhoto {
+  id?: string; // Missing in files exported before ids were archived
+  blob: Blob;
+  height: number;
+  caption?: string;
+  backBlob?: Blob;
+}
+
+export interface ImportedScene {
+  treeState: TreeState;
+  backText: string;
+  backImage: Blob | null;
+  photos: ImportedPhoto[];
+  settings: SceneSettings;
+}
+
+export interface SceneSnapshot {
+  photos: PhotoItem[];
+  backImgUrl: string | null;
+  backText: string;
+  treeState: TreeState;
+  settings: SceneSettings;
+}
+
+export type SceneImportErrorCode =
+  | 'notScene'
+  | 'noVersion'
+  | 'newerVersion'
+  | 'unknownState'
+  | 'invalidMessage'
+  | 'invalidBackImage'
+  | 'invalidSettings'
+  | 'invalidSeed'
+  | 'invalidShape'
+  | 'invalidSequence'
+  | 'invalidTheme'
+  | 'invalidBackDesign'
+  | 'noPhotoList'
+  | 'tooManyPhotos'
+  | 'damaged'
+  | 'undecodable'
+  | 'photoInvalid'
+  | 'photoInvalidId'
+  | 'photoNoImage'
+  | 'photoInvalidHeight'
+  | 'photoInvalidCaption'
+  | 'photoInvalidBackImage';
+
+// English text of each import failure; the UI translates them by code (see i18n.ts)
+const IMPORT_ERRORS: Record<SceneImportErrorCode, (params: ErrorParams) => string> = {
+  notScene: () => 'This file is not a Christmas tree scene.',
+  noVersion: () => 'The scene file has no valid version.',
+  newerVersion: () => 'This scene was saved by a newer version of the app. Please update and try again.',
+  unknownState: () => 'The scene file has an unknown tree state.',
+  invalidMessage: () => 'The scene file has an invalid message.',
+  invalidBackImage: () => 'The scene file has an invalid back image.',
+  invalidSettings: () => 'The scene file has invalid settings.',
+  invalidSeed: () => 'The scene file has an invalid layout seed.',
+  invalidShape: () => 'The scene file has an invalid shape.',
+  invalidSequence: () => 'The scene file has an invalid state sequence.',
+  invalidTheme: () => 'The scene file has an invalid theme.',
+  invalidBackDesign: () => 'The scene file has an invalid back design.',
+  noPhotoList: () => 'The scene file has no photo list.',
+  tooManyPhotos: ({ count, max }) => `The scene has ${count} photos; at most ${max} are supported.`,
+  damaged: () => 'The scene file is damaged or not a JSON file.',
+  undecodable: () => 'The images in this scene file could not be decoded.',
+  photoInvalid: ({ photo }) => `Photo ${photo} is not a valid entry.`,
+  photoInvalidId: ({ photo }) => `Photo ${photo} has an invalid id.`,
+  photoNoImage: ({ photo }) => `Photo ${photo} has no embedded image.`,
+  photoInvalidHeight: ({ photo }) => `Photo ${photo} has an invalid frame height.`,
+  photoInvalidCaption: ({ photo }) => `Photo ${photo} has an invalid caption.`,
+  photoInvalidBackImage: ({ photo }) => `Photo ${photo} has an invalid back image.`,
+};
+
+// Thrown for any file that is not a scene package we can rebuild
+export class SceneImportError extends Error {
+  readonly code: SceneImportErrorCode;
+  readonly params: ErrorParams;
+  constructor(code: SceneImportErrorCode, params: ErrorParams = {}) {
+    super(IMPORT_ERRORS[code](params));
+    this.name = 'SceneImportError';
+    this.code = code;
+    this.params = params;
+  }
+}
+
+const urlToBlob = async (url: string): Promise<Blob> => {
+  const response = await fetch(url);
+  return response.blob();
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+const urlToDataUrl = async (url: string): Promise<string> => {
+  if (url.startsWith('data:')) return url;
+  return blobToDataUrl(await urlToBlob(url));
+};
+
+export const exportScene = async (scene: SceneSnapshot): Promise<Blob> => {
+  const photos: ArchivedPhoto[] = [];
+  for (const item of scene.photos) {
+    photos.push({
+      id: item.id,
+      image: await urlToDataUrl(item.url),
+      height: item.height,
+      caption: item.caption,
+      backImage: item.backUrl ? await urlToDataUrl(item.backUrl) : undefined,
+    });
+  }
+
+  const archive: SceneArchive = {
+    format: SCENE_FORMAT,
+    version: SCENE_VERSION,
+    createdAt: new Date().toISOString(),
+    treeState: scene.treeState,
+    backText: scene.backText,
+    backImage: scene.backImgUrl ? await urlToDataUrl(scene.backImgUrl) : null,
+    photos,
+    settings: scene.settings,
+  };
+
+  return new Blob([JSON.stringify(archive)], { type: 'application/json' });
+};
+
+// --- Validation ---
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isTreeState = (value: unknown): value is TreeState =>
+  Object.values(TreeState).includes(value as TreeState);
+
+const isImageDataUrl = (value: unknown): value is string =>
+  typeof value === 'string' && /^data:image\/[\w.+-]+;base64,/.test(value);
+
+const validatePhoto = (value: unknown, index: number): ArchivedPhoto => {
+  const photo = index + 1;
+  if (!isRecord(value)) throw new SceneImportError('photoInvalid', { photo });
+  if (value.id !== undefined && (typeof value.id !== 'string' || value.id === '')) {
+    throw new SceneImportError('photoInvalidId', { photo });
+  }
+  if (!isImageDataUrl(value.image)) throw new SceneImportError('photoNoImage', { photo });
+  if (typeof value.height !== 'number' || !Number.isFinite(value.height) || value.height <= 0 || value.height > 10) {
+    throw new SceneImportError('photoInvalidHeight', { photo });
+  }
+  if (value.caption !== undefined && typeof value.caption !== 'string') {
+    throw new SceneImportError('photoInvalidCaption', { photo });
+  }
+  if (value.backImage !== undefined && !isImageDataUrl(value.backImage)) {
+    throw new SceneImportError('photoInvalidBackImage', { photo });
+  }
+  return value as unknown as ArchivedPhoto;
+};
+
+const validateArchive = (value: unknown, maxPhotos: number): SceneArchive => {
+  if (!isRecord(value) || value.format !== SCENE_FORMAT) {
+    throw new SceneImportError('notScene');
+  }
+  if (typeof value.version !== 'number' || !Number.isInteger(value.version) || value.version < 1) {
+    throw new SceneImportError('noVersion');
+  }
+  if (value.version > SCENE_VERSION) {
+    throw new SceneImportError('newerVersion');
+  }
+  if (!isTreeState(value.treeState)) {
+    throw new SceneImportError('unknownState');
+  }
+  if (typeof value.backText !== 'string') {
+    throw new SceneImportError('invalidMessage');
+  }
+  if (value.backImage !== null && !isImageDataUrl(value.backImage)) {
+    throw new SceneImportError('invalidBackImage');
+  }
+  if (value.settings !== undefined) {
+    if (!isRecord(value.settings)) throw new SceneImportError('invalidSettings');
+    const { seed } = value.settings;
+    if (seed !== undefined && (typeof seed !== 'number' || !Number.isInteger(seed) || seed < 0 || seed > 0xFFFFFFFF)) {
+      throw new SceneImportError('invalidSeed');
+    }
+    // Unknown shape ids are allowed and fall back to the default shape when applied
+    if (value.settings.shapeId !== undefined && typeof value.settings.shapeId !== 'string') {
+      throw new SceneImportError('invalidShape');
+    }
+    const { stateSequence } = value.settings;
+    if (stateSequence !== undefined && (!Array.isArray(stateSequence) || !stateSequence.every(isTreeState))) {
+      throw new SceneImportError('invalidSequence');
+    }
+    // Like shapes, unknown themes fall back to the default when applied
+    if (value.settings.themeId !== undefined && typeof value.settings.themeId !== 'string') {
+      throw new SceneImportError('invalidTheme');
+    }
+    if (value.settings.backFace !== undefined && !isRecord(value.settings.backFace)) {
+      throw new SceneImportError('invalidBackDesign');
+    }
+  }
+  if (!Array.isArray(value.photos)) {
+    throw new SceneImportError('noPhotoList');
+  }
+  if (value.photos.length > maxPhotos) {
+    throw new SceneImportError('tooManyPhotos', { count: value.photos.length, max: maxPhotos });
+  }
+  value.photos.forEach(validatePhoto);
+  return value as unknown as SceneArchive;
+};
+
+// Read and validate a scene package. Every failure is a SceneImportError with a readable message.
+export const importScene = async (file: File, maxPhotos: number): Promise<ImportedScene> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch {
+    throw new SceneImportError('damaged');
+  }
+
+  const archive = validateArchive(parsed, maxPhotos);
+
+  try {
+    const photos: ImportedPhoto[] = [];
+    const ids = new Set<string>();
+    for (const photo of archive.photos) {
+      // A hand-edited file could repeat an id; later copies get a fresh one
+      const id = photo.id !== undefined && !ids.has(photo.id) ? photo.id : undefined;
+      if (id) ids.add(id);
+      photos.push({
+        id,
+        blob: await urlToBlob(photo.image),
+        height: photo.height,
+        caption: photo.caption,
+        backBlob: photo.backImage ? await urlToBlob(photo.backImage) : undefined,
+      });
+    }
+    return {
+      // Custom text/silhouette shapes are session-only and never exported
+      treeState: archive.treeState === TreeState.CUSTOM ? TreeState.FORMED : archive.treeState,
+      backText: archive.backText,
+      backImage: archive.backImage ? await urlToBlob(archive.backImage) : null,
+      photos,
+      settings: archive.settings ?? {},
+    };
+  } catch {
+    throw new SceneImportError('undecodable');
+  }
+};
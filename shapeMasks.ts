@@ -0,0 +1,152 @@
+import { ShapeMask } from './shapes.ts';
+import { ErrorParams } from './types.ts';
+
+// Rasterise user text or an uploaded silhouette into a ShapeMask for createMaskShape.
+
+const TEXT_CANVAS_WIDTH = 1024;
+const TEXT_FONT_SIZE = 180;
+const TEXT_LINE_HEIGHT = 1.15;
+const IMAGE_MAX_SIZE = 512;
+// Sample every Nth pixel: plenty of detail for 12,000 particles, far fewer entries to store
+const PIXEL_STRIDE = 2;
+
+export type MaskErrorCode =
+  | 'noShape'
+  | 'noText'
+  | 'noTextCanvas'
+  | 'unreadableImage'
+  | 'noImageCanvas';
+
+// What went wrong, in English; i18n.ts has the translations by code
+const MASK_ERRORS: Record<MaskErrorCode, (params: ErrorParams) => string> = {
+  noShape: () => 'No shape could be found. Use dark or opaque shapes on a light or transparent background.',
+  noText: () => 'Please enter some text.',
+  noTextCanvas: () => 'This browser cannot draw text shapes.',
+  unreadableImage: () => 'The silhouette image could not be read.',
+  noImageCanvas: () => 'This browser cannot read silhouette images.',
+};
+
+export class MaskError extends Error {
+  readonly code: MaskErrorCode;
+  readonly params: ErrorParams;
+  constructor(code: MaskErrorCode, params: ErrorParams = {}) {
+    super(MASK_ERRORS[code](params));
+    this.name = 'MaskError';
+    this.code = code;
+    this.params = params;
+  }
+}
+
+const collectPixels = (
+  imageData: ImageData,
+  isFilled: (r: number, g: number, b: number, a: number) => boolean
+): ShapeMask => {
+  const { width, height, data } = imageData;
+  const maskWidth = Math.ceil(width / PIXEL_STRIDE);
+  const maskHeight = Math.ceil(height / PIXEL_STRIDE);
+  const filled: number[] = [];
+
+  for (let y = 0; y < height; y += PIXEL_STRIDE) {
+    for (let x = 0; x < width; x += PIXEL_STRIDE) {
+      const i = (y * width + x) * 4;
+      if (isFilled(data[i], data[i + 1], data[i + 2], data[i + 3])) {
+        filled.push((y / PIXEL_STRIDE) * maskWidth + x / PIXEL_STRIDE);
+      }
+    }
+  }
+
+  if (filled.length === 0) {
+    throw new MaskError('noShape');
+  }
+  return cropMask({ width: maskWidth, height: maskHeight, pixels: Uint32Array.from(filled) });
+};
+
+// Trim empty borders so the shape is centred and fills the available space
+const cropMask = (mask: ShapeMask): ShapeMask => {
+  let minX = mask.width, minY = mask.height, maxX = 0, maxY = 0;
+  mask.pixels.forEach(p => {
+    const x = p % mask.width;
+    const y = Math.floor(p / mask.width);
+    minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+    minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+  });
+  const width = maxX - minX + 1;
+  const height = maxY - minY + 1;
+  const pixels = mask.pixels.map(p => {
+    const x = p % mask.width - minX;
+    const y = Math.floor(p / mask.width) - minY;
+    return y * width + x;
+  });
+  return { width, height, pixels };
+};
+
+// Multi-line text ("\n" separated), scaled down to fit the canvas width
+export const rasterizeText = (text: string): ShapeMask => {
+  const lines = text.split('\n').map(l => l.trim()).filter(Boolean);
+  if (lines.length === 0) throw new MaskError('noText');
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new MaskError('noTextCanvas');
+
+  const fontFor = (size: number) => `bold ${size}px Georgia, serif`;
+  ctx.font = fontFor(TEXT_FONT_SIZE);
+  const widest = Math.max(...lines.map(l => ctx.measureText(l).width));
+  const fontSize = Math.min(TEXT_FONT_SIZE, TEXT_FONT_SIZE * (TEXT_CANVAS_WIDTH * 0.9) / widest);
+  const lineHeight = fontSize * TEXT_LINE_HEIGHT;
+
+  canvas.width = TEXT_CANVAS_WIDTH;
+  canvas.height = Math.ceil(lineHeight * lines.length + fontSize * 0.5);
+  // Resizing resets the context state
+  ctx.font = fontFor(fontSize);
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = '#000';
+  lines.forEach((line, i) => {
+    ctx.fillText(line, canvas.width / 2, fontSize * 0.25 + lineHeight * (i + 0.5));
+  });
+
+  return collectPixels(ctx.getImageData(0, 0, canvas.width, canvas.height), (_r, _g, _b, a) => a > 128);
+};
+
+const loadImage = (file: File): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new MaskError('unreadableImage'));
+    };
+    img.src = url;
+  });
+};
+
+// Black-and-white artwork (dark = shape) or transparent PNG/SVG (opaque = shape)
+export const rasterizeImage = async (file: File): Promise<ShapeMask> => {
+  const img = await loadImage(file);
+  // SVGs without intrinsic size report 0; give them a square canvas
+  const naturalW = img.naturalWidth || IMAGE_MAX_SIZE;
+  const naturalH = img.naturalHeight || IMAGE_MAX_SIZE;
+  const scale = Math.min(1, IMAGE_MAX_SIZE / Math.max(naturalW, naturalH));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(naturalW * scale));
+  canvas.height = Math.max(1, Math.round(naturalH * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new MaskError('noImageCanvas');
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  let hasTransparency = false;
+  for (let i = 3; i < imageData.data.length; i += 4) {
+    if (imageData.data[i] < 128) { hasTransparency = true; break; }
+  }
+
+  return collectPixels(imageData, hasTransparency
+    ? (_r, _g, _b, a) => a >= 128
+    : (r, g, b) => (0.299 * r + 0.587 * g + 0.114 * b) < 128);
+};
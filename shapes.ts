@@ -0,0 +1,199 @@
+import { Vector3 } from 'three';
+import { Random, getTreePoint } from './utils.ts';
+
+// Registry of "formed" target shapes shared by Foliage, Ornaments and the Star topper.
+// Coordinates are in the tree group's local space (the group sits at y = -2).
+
+export interface ShapePoint {
+  position: Vector3;
+  normal: Vector3; // Outward direction, used to sit ornaments on the surface
+}
+
+export interface TreeShape {
+  id: string;
+  label: string;
+  // yRatio (0 = bottom, 1 = top) lets callers bias density; shapes without a
+  // vertical axis may ignore it and rely on random() alone.
+  samplePoint: (yRatio: number, random: Random) => ShapePoint;
+  topperPosition: Vector3;
+}
+
+export const TREE_HEIGHT = 14;
+export const TREE_RADIUS = 5;
+export const DEFAULT_SHAPE_ID = 'cone';
+
+const DEFAULT_TOPPER = new Vector3(0, 8.2, 0);
+
+const registry = new Map<string, TreeShape>();
+
+export const registerShape = (shape: TreeShape): void => {
+  registry.set(shape.id, shape);
+};
+
+// Unknown ids fall back to the classic cone so stale saved settings never break the tree
+export const getShape = (id: string): TreeShape => {
+  return registry.get(id) ?? registry.get(DEFAULT_SHAPE_ID)!;
+};
+
+export const unregisterShape = (id: string): void => {
+  if (id !== DEFAULT_SHAPE_ID) registry.delete(id);
+};
+
+export const hasShape = (id: string): boolean => registry.has(id);
+
+export const listShapes = (): TreeShape[] => Array.from(registry.values());
+
+// Radial (horizontal) outward direction, used by the tree-like shapes
+const radialNormal = (p: Vector3): Vector3 => new Vector3(p.x, 0, p.z).normalize();
+
+// --- Mask shapes (text / silhouette) ---
+
+// Filled pixels of a rasterised mask, row 0 at the top
+export interface ShapeMask {
+  width: number;
+  height: number;
+  pixels: Uint32Array; // Packed as y * width + x
+}
+
+const MASK_MAX_WIDTH = 15;
+const MASK_MAX_HEIGHT = 12;
+const MASK_CENTER_Y = 0.5;
+const MASK_DEPTH = 0.8;
+
+// Build a flat shape whose points are drawn from the filled pixels of a mask,
+// scaled to fit the space the tree normally occupies
+export const createMaskShape = (id: string, label: string, mask: ShapeMask): TreeShape => {
+  const scale = Math.min(MASK_MAX_WIDTH / mask.width, MASK_MAX_HEIGHT / mask.height);
+  const halfW = (mask.width * scale) / 2;
+  const halfH = (mask.height * scale) / 2;
+
+  return {
+    id,
+    label,
+    samplePoint: (_yRatio, random) => {
+      const pixel = mask.pixels[Math.floor(random() * mask.pixels.length)];
+      // Jitter within the pixel so dense particles don't line up on a grid
+      const px = (pixel % mask.width) + random();
+      const py = Math.floor(pixel / mask.width) + random();
+      const z = (random() - 0.5) * MASK_DEPTH;
+      const position = new Vector3(px * scale - halfW, MASK_CENTER_Y + halfH - py * scale, z);
+      return { position, normal: new Vector3(0, 0, z >= 0 ? 1 : -1) };
+    },
+    topperPosition: new Vector3(0, MASK_CENTER_Y + halfH + 1.2, 0),
+  };
+};
+
+// --- Built-in shapes ---
+
+registerShape({
+  id: 'cone',
+  label: 'Cone',
+  samplePoint: (yRatio, random) => {
+    const position = getTreePoint(TREE_HEIGHT, TREE_RADIUS, yRatio, random);
+    return { position, normal: radialNormal(position) };
+  },
+  topperPosition: DEFAULT_TOPPER,
+});
+
+// Garland-like ribbons winding up the cone
+registerShape({
+  id: 'spiral',
+  label: 'Spiral',
+  samplePoint: (yRatio, random) => {
+    const ARMS = 3;
+    const LOOPS = 3.5;
+    const arm = Math.floor(random() * ARMS);
+    const theta = yRatio * LOOPS * Math.PI * 2 + (arm * Math.PI * 2) / ARMS;
+    // Ribbon width shrinks towards the top
+    const spread = 0.6 * (1 - yRatio * 0.6);
+    const r = Math.max(0, TREE_RADIUS * (1 - yRatio) + (random() - 0.5) * spread);
+    const position = new Vector3(
+      r * Math.cos(theta),
+      yRatio * TREE_HEIGHT - TREE_HEIGHT / 2 + (random() - 0.5) * spread,
+      r * Math.sin(theta)
+    );
+    return { position, normal: radialNormal(position) };
+  },
+  topperPosition: DEFAULT_TOPPER,
+});
+
+// Stacked, overlapping cones like a classic fir silhouette
+registerShape({
+  id: 'tiered',
+  label: 'Tiered Fir',
+  samplePoint: (yRatio, random) => {
+    const TIERS = 4;
+    const tier = Math.min(TIERS - 1, Math.floor(yRatio * TIERS));
+    const local = yRatio * TIERS - tier;
+    const tierRadius = TREE_RADIUS * (1 - tier / (TIERS + 0.5));
+    const r = Math.max(0, tierRadius * (1 - local * 0.75) + (random() - 0.5) * 0.5);
+    const theta = random() * Math.PI * 2;
+    const position = new Vector3(
+      r * Math.cos(theta),
+      yRatio * TREE_HEIGHT - TREE_HEIGHT / 2,
+      r * Math.sin(theta)
+    );
+    return { position, normal: radialNormal(position) };
+  },
+  topperPosition: DEFAULT_TOPPER,
+});
+
+// Filled heart in the XY plane with some depth
+registerShape({
+  id: 'heart',
+  label: 'Heart',
+  samplePoint: (_yRatio, random) => {
+    const SCALE = 0.38;
+    const t = random() * Math.PI * 2;
+    const fill = Math.sqrt(random());
+    const x = 16 * Math.pow(Math.sin(t), 3);
+    const y = 13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t);
+    const depth = (random() - 0.5) * 2 * (1 - fill * 0.7);
+    const position = new Vector3(x * SCALE * fill, y * SCALE * fill + 1, depth);
+    const normal = new Vector3(position.x, position.y - 1, position.z).normalize();
+    return { position, normal };
+  },
+  topperPosition: new Vector3(0, 6.4, 0),
+});
+
+// Five-pointed star in the XY plane
+registerShape({
+  id: 'star',
+  label: 'Star',
+  samplePoint: (_yRatio, random) => {
+    const POINTS = 5;
+    const OUTER = 7;
+    const INNER = 2.8;
+    const angle = random() * Math.PI * 2;
+    // Outline radius: linear between the tip and the inner notch of each sector
+    const sector = (Math.PI * 2) / POINTS;
+    const local = ((angle % sector) + sector) % sector / sector; // 0..1 within the sector
+    const edge = local < 0.5
+      ? OUTER + (INNER - OUTER) * (local * 2)
+      : INNER + (OUTER - INNER) * ((local - 0.5) * 2);
+    const r = edge * Math.sqrt(random());
+    // Rotate so one tip points straight up
+    const a = angle + Math.PI / 2;
+    const position = new Vector3(r * Math.cos(a), r * Math.sin(a), (random() - 0.5) * 1.2);
+    return { position, normal: new Vector3(position.x, position.y, position.z).normalize() };
+  },
+  topperPosition: new Vector3(0, 8.2, 0),
+});
+
+// Upright ring (torus) facing the camera
+registerShape({
+  id: 'wreath',
+  label: 'Wreath',
+  samplePoint: (_yRatio, random) => {
+    const MAJOR = 5.5;
+    const MINOR = 1.2;
+    const u = random() * Math.PI * 2;
+    const v = random() * Math.PI * 2;
+    const tube = MINOR * Math.sqrt(random());
+    const centre = new Vector3(MAJOR * Math.cos(u), MAJOR * Math.sin(u), 0);
+    const normal = new Vector3(Math.cos(u) * Math.cos(v), Math.sin(u) * Math.cos(v), Math.sin(v));
+    const position = centre.clone().addScaledVector(normal, tube);
+    return { position, normal };
+  },
+  topperPosition: new Vector3(0, 7.9, 0),
+});
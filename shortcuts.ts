@@ -0,0 +1,43 @@
+// Keyboard shortcuts for the scene. Keys typed into form fields, and Space/Enter on a
+// focused button (which press it), are left to the browser.
+
+export type ShortcutAction = 'next' | 'previous' | 'focus' | 'flip' | 'blur' | 'toggleState' | 'record';
+
+const KEY_ACTIONS: Record<string, ShortcutAction> = {
+  ArrowRight: 'next',
+  ArrowDown: 'next',
+  ArrowLeft: 'previous',
+  ArrowUp: 'previous',
+  Enter: 'focus',
+  f: 'flip',
+  Escape: 'blur',
+  ' ': 'toggleState',
+  r: 'record',
+};
+
+// Held keys repeat; only moving between photos should
+const REPEATABLE: ShortcutAction[] = ['next', 'previous'];
+
+const isTextField = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const isPressable = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement && target.closest('button, a, label') !== null;
+
+export const getShortcutAction = (event: KeyboardEvent): ShortcutAction | null => {
+  if (event.ctrlKey || event.metaKey || event.altKey) return null;
+  if (isTextField(event.target)) return null;
+  const action = KEY_ACTIONS[event.key.length === 1 ? event.key.toLowerCase() : event.key];
+  if (!action) return null;
+  if (event.repeat && !REPEATABLE.includes(action)) return null;
+  if ((action === 'focus' || action === 'toggleState') && isPressable(event.target)) return null;
+  return action;
+};
+
+// Next photo in spiral (album) order from the current one, wrapping at either end
+export const stepPhoto = (ids: string[], currentId: string | null, step: 1 | -1): string | null => {
+  if (ids.length === 0) return null;
+  const index = currentId === null ? -1 : ids.indexOf(currentId);
+  if (index === -1) return step === 1 ? ids[0] : ids[ids.length - 1];
+  return ids[(index + step + ids.length) % ids.length];
+};
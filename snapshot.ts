@@ -0,0 +1,158 @@
+// High-resolution stills. The frame on screen is re-rendered through the full
+// EffectComposer chain at the requested size, split into tiles when the target is
+// larger than the GPU can draw in one pass, and stitched into a PNG.
+
+import { ErrorParams } from './types.ts';
+
+export interface SnapshotSettings {
+  width: number;
+  height: number;
+  transparent: boolean; // Drop the background colour (keeps glows semi-transparent)
+}
+
+export interface SnapshotPreset {
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const SNAPSHOT_PRESETS: SnapshotPreset[] = [
+  { label: '1080p', width: 1920, height: 1080 },
+  { label: '4K', width: 3840, height: 2160 },
+  { label: '8K', width: 7680, height: 4320 },
+  { label: 'A3 Poster', width: 3508, height: 4961 }, // 300 dpi
+  { label: 'A2 Poster', width: 4961, height: 7016 },
+];
+
+export const DEFAULT_SNAPSHOT_SETTINGS: SnapshotSettings = { width: 3840, height: 2160, transparent: false };
+
+// Largest canvas browsers reliably allow, per side and in total
+export const MAX_SNAPSHOT_SIDE = 16384;
+const MAX_SNAPSHOT_PIXELS = 16384 * 16384;
+
+// Tiles stay well below the hardware limit to bound GPU memory for the composer buffers
+export const MAX_TILE_SIZE = 2048;
+// Each tile is drawn with this much extra frame around it and cropped, so bloom
+// near tile edges sees the same neighbourhood as it would in one pass
+export const TILE_MARGIN = 64;
+
+export type SnapshotErrorCode =
+  | 'invalidSize'
+  | 'tooLarge'
+  | 'encodeFailed';
+
+// Keyed by code so the UI can translate them (i18n.ts)
+const SNAPSHOT_ERRORS: Record<SnapshotErrorCode, (params: ErrorParams) => string> = {
+  invalidSize: () => 'Enter a width and height in whole pixels.',
+  tooLarge: ({ max }) => `Snapshots can be at most ${max} pixels on a side.`,
+  encodeFailed: () => 'The browser could not encode the snapshot.',
+};
+
+export class SnapshotError extends Error {
+  readonly code: SnapshotErrorCode;
+  readonly params: ErrorParams;
+  constructor(code: SnapshotErrorCode, params: ErrorParams = {}) {
+    super(SNAPSHOT_ERRORS[code](params));
+    this.name = 'SnapshotError';
+    this.code = code;
+    this.params = params;
+  }
+}
+
+export const validateSnapshotSize = ({ width, height }: SnapshotSettings): void => {
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width < 1 || height < 1) {
+    throw new SnapshotError('invalidSize');
+  }
+  if (width > MAX_SNAPSHOT_SIDE || height > MAX_SNAPSHOT_SIDE || width * height > MAX_SNAPSHOT_PIXELS) {
+    throw new SnapshotError('tooLarge', { max: MAX_SNAPSHOT_SIDE });
+  }
+};
+
+export interface SnapshotTile {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Split the image into a grid of near-equal tiles no larger than tileSize
+export const planTiles = (width: number, height: number, tileSize: number): SnapshotTile[] => {
+  const columns = Math.ceil(width / tileSize);
+  const rows = Math.ceil(height / tileSize);
+  const tiles: SnapshotTile[] = [];
+  for (let row = 0; row < rows; row++) {
+    const y = Math.round((row * height) / rows);
+    const tileHeight = Math.round(((row + 1) * height) / rows) - y;
+    for (let column = 0; column < columns; column++) {
+      const x = Math.round((column * width) / columns);
+      tiles.push({ x, y, width: Math.round(((column + 1) * width) / columns) - x, height: tileHeight });
+    }
+  }
+  return tiles;
+};
+
+// sRGB <-> linear lookup tables for matting in linear light
+const SRGB_TO_LINEAR = new Float32Array(256).map((_, i) => {
+  const c = i / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+});
+const LINEAR_STEPS = 4096;
+const LINEAR_TO_SRGB = new Uint8ClampedArray(LINEAR_STEPS + 1).map((_, i) => {
+  const c = i / LINEAR_STEPS;
+  return Math.round(255 * (c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055));
+});
+
+// Linear grey the second matting pass is drawn over. Kept below the bloom threshold
+// so the background itself never glows.
+export const MATTE_GREY = 0.5;
+
+// Recover colour and alpha from the same tile drawn over black and over MATTE_GREY.
+// Over black a pixel is alpha * colour; over grey it gains (1 - alpha) * grey.
+export const matteTile = (overBlack: ImageData, overGrey: ImageData): ImageData => {
+  const result = new ImageData(overBlack.width, overBlack.height);
+  const dark = overBlack.data;
+  const light = overGrey.data;
+  const out = result.data;
+  for (let i = 0; i < dark.length; i += 4) {
+    let difference = 0;
+    for (let c = 0; c < 3; c++) difference += SRGB_TO_LINEAR[light[i + c]] - SRGB_TO_LINEAR[dark[i + c]];
+    const alpha = Math.min(1, Math.max(0, 1 - difference / (3 * MATTE_GREY)));
+    out[i + 3] = Math.round(alpha * 255);
+    if (out[i + 3] === 0) continue;
+    for (let c = 0; c < 3; c++) {
+      const linear = Math.min(1, SRGB_TO_LINEAR[dark[i + c]] / alpha);
+      out[i + c] = LINEAR_TO_SRGB[Math.round(linear * LINEAR_STEPS)];
+    }
+  }
+  return result;
+};
+
+// Tiles each see only part of the frame, so screen-space vignetting is switched off
+// while they render and laid over the stitched image instead. Same falloff as the
+// postprocessing VignetteEffect (eskil off), converted from linear light to sRGB.
+export const applyVignette = (ctx: CanvasRenderingContext2D, width: number, height: number, offset: number, darkness: number): void => {
+  const maxDistance = Math.SQRT1_2; // Centre to corner in uv space
+  const gradient = ctx.createRadialGradient(0.5, 0.5, 0, 0.5, 0.5, maxDistance);
+  const edge0 = 0.8;
+  const edge1 = offset * 0.799;
+  for (let step = 0; step <= 16; step++) {
+    const d = (step / 16) * maxDistance;
+    const t = Math.min(1, Math.max(0, (d * (darkness + offset) - edge0) / (edge1 - edge0)));
+    const factor = t * t * (3 - 2 * t);
+    const shade = LINEAR_TO_SRGB[Math.round(factor * LINEAR_STEPS)];
+    gradient.addColorStop(step / 16, `rgb(${shade}, ${shade}, ${shade})`);
+  }
+  ctx.save();
+  // Drawing in uv space stretches the circle to the image's aspect, like the shader
+  ctx.setTransform(width, 0, 0, height, 0, 0);
+  ctx.globalCompositeOperation = 'multiply';
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, 1, 1);
+  ctx.restore();
+};
+
+export const canvasToPng = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => canvas.toBlob(
+    blob => blob ? resolve(blob) : reject(new SnapshotError('encodeFailed')),
+    'image/png'
+  ));
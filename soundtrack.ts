@@ -0,0 +1,199 @@
+// Soundtracks for MediaRecorder recordings. The track is played through WebAudio
+// while recording, so it is heard live and mixed into the video as an audio track.
+// The same sources (bundled carols or a local file) feed the in-app music player.
+
+export type SoundtrackSource =
+  | { kind: 'bundled'; id: string }
+  | { kind: 'file'; name: string; file: Blob };
+
+export interface SoundtrackSettings {
+  source: SoundtrackSource | null; // null records silently
+  trimStart: number; // Seconds skipped at the start of the track
+  fadeOut: number; // Seconds the track fades over when recording stops
+  matchTrackLength: boolean; // Stop recording when the track ends
+}
+
+export const DEFAULT_SOUNDTRACK_SETTINGS: SoundtrackSettings = {
+  source: null,
+  trimStart: 0,
+  fadeOut: 2,
+  matchTrackLength: false,
+};
+
+export const FADE_OUT_OPTIONS = [0, 1, 2, 3];
+
+// Bundled tracks are synthesized on demand, so the app ships no audio files.
+// Notes are [MIDI pitch, beats]; a null pitch is a rest.
+interface BundledTrack {
+  id: string;
+  name: string;
+  tempo: number; // Beats per minute
+  beatsPerBar: number;
+  pickup: number; // Beats before the first downbeat
+  notes: [number | null, number][];
+}
+
+// Jingle Bells chorus (C major), played twice
+const JINGLE_BELLS_CHORUS: [number | null, number][] = (() => {
+  const E = 76, F = 77, G = 79, C = 72, D = 74;
+  return [
+    [E, 1], [E, 1], [E, 2], [E, 1], [E, 1], [E, 2], [E, 1], [G, 1], [C, 1.5], [D, 0.5], [E, 4],
+    [F, 1], [F, 1], [F, 1.5], [F, 0.5], [F, 1], [E, 1], [E, 1], [E, 0.5], [E, 0.5],
+    [E, 1], [D, 1], [D, 1], [E, 1], [D, 2], [G, 2],
+    [E, 1], [E, 1], [E, 2], [E, 1], [E, 1], [E, 2], [E, 1], [G, 1], [C, 1.5], [D, 0.5], [E, 4],
+    [F, 1], [F, 1], [F, 1.5], [F, 0.5], [F, 1], [E, 1], [E, 1], [E, 0.5], [E, 0.5],
+    [G, 1], [G, 1], [F, 1], [D, 1], [C, 3], [null, 1],
+  ];
+})();
+
+// We Wish You a Merry Christmas (G major, 3/4), first verse
+const MERRY_CHRISTMAS_VERSE: [number | null, number][] = (() => {
+  const D = 74, E = 76, Fs = 78, G = 79, A = 81, B = 83, C = 84;
+  return [
+    [D, 1],
+    [G, 1], [G, 0.5], [A, 0.5], [G, 0.5], [Fs, 0.5], [E, 1], [E, 1], [E, 1],
+    [A, 1], [A, 0.5], [B, 0.5], [A, 0.5], [G, 0.5], [Fs, 1], [D, 1], [D, 1],
+    [B, 1], [B, 0.5], [C, 0.5], [B, 0.5], [A, 0.5], [G, 1], [E, 1], [D, 0.5], [D, 0.5],
+    [E, 1], [A, 1], [Fs, 1], [G, 3], [null, 2],
+  ];
+})();
+
+const BUNDLED_TRACKS: BundledTrack[] = [
+  { id: 'jingle-bells', name: 'Jingle Bells (Music Box)', tempo: 132, beatsPerBar: 4, pickup: 0, notes: [...JINGLE_BELLS_CHORUS, ...JINGLE_BELLS_CHORUS] },
+  { id: 'merry-christmas', name: 'We Wish You a Merry Christmas', tempo: 150, beatsPerBar: 3, pickup: 1, notes: [...MERRY_CHRISTMAS_VERSE, ...MERRY_CHRISTMAS_VERSE] },
+];
+
+export const BUNDLED_TRACK_OPTIONS: { id: string; name: string }[] =
+  BUNDLED_TRACKS.map(({ id, name }) => ({ id, name }));
+
+const SAMPLE_RATE = 44100;
+const NOTE_RING = 1.6; // Seconds each music box note rings for
+const BASS_RING = 0.6;
+
+const midiToFrequency = (pitch: number): number => 440 * Math.pow(2, (pitch - 69) / 12);
+
+const renderBundledTrack = async (track: BundledTrack): Promise<AudioBuffer> => {
+  const beat = 60 / track.tempo;
+  const length = track.notes.reduce((sum, [, beats]) => sum + beats, 0) * beat + NOTE_RING;
+  const ctx = new OfflineAudioContext(2, Math.ceil(length * SAMPLE_RATE), SAMPLE_RATE);
+
+  const pluck = (frequency: number, level: number, ring: number, time: number) => {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.frequency.value = frequency;
+    gain.gain.setValueAtTime(0, time);
+    gain.gain.linearRampToValueAtTime(level, time + 0.005);
+    gain.gain.exponentialRampToValueAtTime(0.0001, time + ring);
+    osc.connect(gain).connect(ctx.destination);
+    osc.start(time);
+    osc.stop(time + ring);
+  };
+
+  let position = 0; // In beats
+  track.notes.forEach(([pitch, beats]) => {
+    if (pitch !== null) {
+      const time = position * beat;
+      // Music box tone: a plucked fundamental with a quieter, faster-decaying octave
+      pluck(midiToFrequency(pitch), 0.22, NOTE_RING, time);
+      pluck(midiToFrequency(pitch) * 2, 0.06, NOTE_RING * 0.4, time);
+      // A soft bass note three octaves down on each downbeat gives the tune a pulse
+      if ((position - track.pickup) % track.beatsPerBar === 0) {
+        pluck(midiToFrequency(pitch - 36), 0.3, BASS_RING, time);
+      }
+    }
+    position += beats;
+  });
+
+  return ctx.startRendering();
+};
+
+// Decode a picked file or synthesize a bundled track. Decoding uses an offline
+// context, so it works before the page has had a user gesture.
+export const loadSoundtrack = async (source: SoundtrackSource): Promise<AudioBuffer> => {
+  if (source.kind === 'bundled') {
+    const track = BUNDLED_TRACKS.find(t => t.id === source.id);
+    if (!track) throw new Error(`Unknown bundled track: ${source.id}`);
+    return renderBundledTrack(track);
+  }
+  const data = await source.file.arrayBuffer();
+  return new OfflineAudioContext(2, 1, SAMPLE_RATE).decodeAudioData(data);
+};
+
+export const getSoundtrackName = (source: SoundtrackSource): string =>
+  source.kind === 'file' ? source.name : BUNDLED_TRACKS.find(t => t.id === source.id)?.name ?? source.id;
+
+// How long the track plays for after trimming
+export const getPlayableDuration = (buffer: AudioBuffer, settings: SoundtrackSettings): number =>
+  Math.max(0, buffer.duration - settings.trimStart);
+
+export interface SoundtrackPlayback {
+  stream: MediaStream; // Audio track to mix into the recording
+  fadeOut: (seconds: number) => Promise<void>;
+  pause: () => void;
+  resume: () => void;
+  stop: () => void;
+}
+
+// Start playing the track from its trim point, both to the speakers and to a stream
+export const startSoundtrack = (buffer: AudioBuffer, settings: SoundtrackSettings): SoundtrackPlayback => {
+  const ctx = new AudioContext();
+  const source = ctx.createBufferSource();
+  const gain = ctx.createGain();
+  const destination = ctx.createMediaStreamDestination();
+  source.buffer = buffer;
+  source.connect(gain);
+  gain.connect(destination);
+  gain.connect(ctx.destination);
+  // Created from the record button's click, so resuming is allowed
+  ctx.resume();
+  source.start(0, Math.min(settings.trimStart, buffer.duration));
+
+  let closed = false;
+  const stop = () => {
+    if (closed) return;
+    closed = true;
+    source.stop();
+    ctx.close();
+  };
+
+  return {
+    stream: destination.stream,
+    fadeOut: (seconds) => {
+      if (closed || seconds <= 0) return Promise.resolve();
+      const now = ctx.currentTime;
+      gain.gain.setValueAtTime(gain.gain.value, now);
+      gain.gain.linearRampToValueAtTime(0, now + seconds);
+      return new Promise(resolve => setTimeout(resolve, seconds * 1000));
+    },
+    pause: () => {
+      if (!closed) ctx.suspend();
+    },
+    resume: () => {
+      if (!closed) ctx.resume();
+    },
+    stop,
+  };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isSource = (value: unknown): value is SoundtrackSource => {
+  if (!isRecord(value)) return false;
+  if (value.kind === 'bundled') return BUNDLED_TRACKS.some(t => t.id === value.id);
+  return value.kind === 'file' && typeof value.name === 'string' && value.file instanceof Blob;
+};
+
+const isNonNegative = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+// Settings saved by an older build may be missing fields; fall back field by field
+export const sanitizeSoundtrackSettings = (value: unknown): SoundtrackSettings => {
+  if (!isRecord(value)) return DEFAULT_SOUNDTRACK_SETTINGS;
+  return {
+    source: isSource(value.source) ? value.source : null,
+    trimStart: isNonNegative(value.trimStart) ? value.trimStart : DEFAULT_SOUNDTRACK_SETTINGS.trimStart,
+    fadeOut: isNonNegative(value.fadeOut) ? value.fadeOut : DEFAULT_SOUNDTRACK_SETTINGS.fadeOut,
+    matchTrackLength: typeof value.matchTrackLength === 'boolean' ? value.matchTrackLength : DEFAULT_SOUNDTRACK_SETTINGS.matchTrackLength,
+  };
+};
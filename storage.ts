@@ -0,0 +1,361 @@
+import { ErrorParams, PhotoItem, TreeState } from './types.ts';
+import { CameraPath } from './cameraPaths.ts';
+import { SoundtrackSettings } from './soundtrack.ts';
+import { TitleCardSettings } from './titleCards.ts';
+import { TourSettings } from './tour.ts';
+import { BackFaceSettings } from './backFace.ts';
+
+// IndexedDB persistence for the photo album, back image and message.
+// Images are stored as the processed JPEG blobs produced by processImage,
+// so restoring only needs to mint fresh blob: URLs.
+
+const DB_NAME = 'polaroid-christmas-tree';
+const DB_VERSION = 1;
+const PHOTO_STORE = 'photos';
+const SETTINGS_STORE = 'settings';
+
+// Settings keys
+const KEY_PHOTO_ORDER = 'photoOrder';
+const KEY_BACK_IMAGE = 'backImage';
+const KEY_BACK_TEXT = 'backText';
+const KEY_SEED = 'seed';
+const KEY_SHAPE = 'shape';
+const KEY_STATE_SEQUENCE = 'stateSequence';
+const KEY_THEME = 'theme';
+const KEY_QUALITY = 'quality';
+const KEY_CAMERA_PATHS = 'cameraPaths';
+const KEY_SOUNDTRACK = 'soundtrack';
+const KEY_RECORDING_LIMIT = 'recordingLimit';
+const KEY_RECORDING_FORMAT = 'recordingFormat';
+const KEY_TITLE_CARDS = 'titleCards';
+const KEY_LANGUAGE = 'language';
+const KEY_TOUR = 'tour';
+const KEY_BACK_FACE = 'backFace';
+const KEY_TRANSITION_CHIME = 'transitionChime';
+
+export interface StoredPhoto {
+  id: string;
+  blob: Blob;
+  height: number;
+  caption?: string;
+  backBlob?: Blob;
+}
+
+export interface RestoredScene {
+  photos: PhotoItem[];
+  backImgUrl: string | null;
+  backText: string | null;
+  seed: number | null;
+  shapeId: string | null;
+  stateSequence: TreeState[] | null;
+  themeId: string | null;
+  qualityMode: string | null;
+  cameraPaths: CameraPath[] | null;
+  soundtrack: SoundtrackSettings | null;
+  recordingLimit: number | null;
+  recordingFormat: string | null;
+  titleCards: TitleCardSettings | null;
+  language: string | null;
+  tour: TourSettings | null;
+  backFace: BackFaceSettings | null;
+  transitionChime: boolean | null;
+}
+
+// Thrown when the browser refuses to store more data
+export class StorageQuotaError extends Error {
+  readonly code = 'storageFull';
+  readonly params: ErrorParams = {};
+  constructor() {
+    super('Browser storage is full. Remove some photos or free up space to keep your tree after a reload.');
+    this.name = 'StorageQuotaError';
+  }
+}
+
+const isQuotaError = (error: unknown): boolean => {
+  if (!(error instanceof DOMException)) return false;
+  // Firefox historically reports NS_ERROR_DOM_QUOTA_REACHED
+  return error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED';
+};
+
+const toStorageError = (error: unknown): Error => {
+  if (isQuotaError(error)) return new StorageQuotaError();
+  return error instanceof Error ? error : new Error(String(error));
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PHOTO_STORE)) {
+        db.createObjectStore(PHOTO_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+        db.createObjectStore(SETTINGS_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(toStorageError(request.error));
+    };
+  });
+  return dbPromise;
+};
+
+// Run a read-write transaction and resolve once it has committed.
+// Quota failures surface on the transaction (abort), not on the individual request.
+const writeTransaction = async (
+  storeNames: string[],
+  work: (tx: IDBTransaction) => void
+): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    let tx: IDBTransaction;
+    try {
+      tx = db.transaction(storeNames, 'readwrite');
+      work(tx);
+    } catch (e) {
+      reject(toStorageError(e));
+      return;
+    }
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(toStorageError(tx.error));
+    tx.onerror = () => reject(toStorageError(tx.error));
+  });
+};
+
+const readValue = async <T>(storeName: string, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).get(key);
+    request.onsuccess = () => resolve(request.result as T | undefined);
+    request.onerror = () => reject(toStorageError(request.error));
+  });
+};
+
+// Append photos and persist the new display order in one transaction
+export const savePhotos = (photos: StoredPhoto[], order: string[]): Promise<void> => {
+  return writeTransaction([PHOTO_STORE, SETTINGS_STORE], (tx) => {
+    const store = tx.objectStore(PHOTO_STORE);
+    photos.forEach(photo => store.put(photo));
+    tx.objectStore(SETTINGS_STORE).put(order, KEY_PHOTO_ORDER);
+  });
+};
+
+// Patch a single stored photo (e.g. its back caption or back image).
+// Fields set to undefined are cleared on the stored record.
+export const updateStoredPhoto = (
+  id: string,
+  changes: Partial<Omit<StoredPhoto, 'id'>>
+): Promise<void> => {
+  return writeTransaction([PHOTO_STORE], (tx) => {
+    const store = tx.objectStore(PHOTO_STORE);
+    const request = store.get(id);
+    request.onsuccess = () => {
+      const stored = request.result as StoredPhoto | undefined;
+      if (stored) store.put({ ...stored, ...changes });
+    };
+  });
+};
+
+export const deleteStoredPhoto = (id: string, order: string[]): Promise<void> => {
+  return writeTransaction([PHOTO_STORE, SETTINGS_STORE], (tx) => {
+    tx.objectStore(PHOTO_STORE).delete(id);
+    tx.objectStore(SETTINGS_STORE).put(order, KEY_PHOTO_ORDER);
+  });
+};
+
+export const savePhotoOrder = (order: string[]): Promise<void> => {
+  return writeTransaction([SETTINGS_STORE], (tx) => {
+    tx.objectStore(SETTINGS_STORE).put(order, KEY_PHOTO_ORDER);
+  });
+};
+
+export const clearStoredPhotos = (): Promise<void> => {
+  return writeTransaction([PHOTO_STORE, SETTINGS_STORE], (tx) => {
+    tx.objectStore(PHOTO_STORE).clear();
+    tx.objectStore(SETTINGS_STORE).put([], KEY_PHOTO_ORDER);
+  });
+};
+
+// Pass null to remove the stored back image
+export const saveBackImage = (blob: Blob | null): Promise<void> => {
+  return writeTransaction([SETTINGS_STORE], (tx) => {
+    const store = tx.objectStore(SETTINGS_STORE);
+    if (blob) store.put(blob, KEY_BACK_IMAGE);
+    else store.delete(KEY_BACK_IMAGE);
+  });
+};
+
+export const saveBackText = (text: string): Promise<void> => {
+  return writeTransaction([SETTINGS_STORE], (tx) => {
+    tx.objectStore(SETTINGS_STORE).put(text, KEY_BACK_TEXT);
+  });
+};
+
+export const saveSeed = (seed: number): Promise<void> => {
+  return writeTransaction([SETTINGS_STORE], (tx) => {
+    tx.objectStore(SETTINGS_STORE).put(seed, KEY_SEED);
+  });
+};
+
+export const saveShape = (shapeId: string): Promise<void> => {
+  return writeTransaction([SETTINGS_STORE], (tx) => {
+    tx.objectStore(SETTINGS_STORE).put(shapeId, KEY_SHAPE);
+  });
+};
+
+export const saveStateSequence = (sequence: TreeState[]): Promise<void> => {
+  return writeTransaction([SETTINGS_STORE], (tx) => {
+    tx.objectStore(SETTINGS_STORE).put(sequence, KEY_STATE_SEQUENCE);
+  });
+};
+
+export const saveTheme = (themeId: string): Promise<void> => {
+  return writeTransaction([SETTINGS_STORE], (tx) => {
+    tx.objectStore(SETTINGS_STORE).put(themeId, KEY_THEME);
+  });
+};
+
+// Quality is kept per device and never exported with the scene
+export const saveQuality = (mode: string): Promise<void> => {
+  return writeTransaction([SETTINGS_STORE], (tx) => {
+    tx.objectStore(SETTINGS_STORE).put(mode, KEY_QUALITY);
+  });
+};
+
+// User-made camera paths (the built-in ones ship with the app)
+export const saveCameraPaths = (paths: CameraPath[]): Promise<void> => {
+  return writeTransaction([SETTINGS_STORE], (tx) => {
+    tx.objectStore(SETTINGS_STORE).put(paths, KEY_CAMERA_PATHS);
+  });
+};
+
+// Recording soundtrack, including a picked audio file. Kept per device like quality.
+export const saveSoundtrack = (settings: SoundtrackSettings): Promise<void> => {
+  return writeTransaction([SETTINGS_STORE], (tx) => {
+    tx.objectStore(SETTINGS_STORE).put(settings, KEY_SOUNDTRACK);
+  });
+};
+
+// Automatic recording stop in seconds; null records until stopped
+export const saveRecordingLimit = (seconds: number | null): Promise<void> => {
+  return writeTransaction([SETTINGS_STORE], (tx) => {
+    const store = tx.objectStore(SETTINGS_STORE);
+    if (seconds === null) store.delete(KEY_RECORDING_LIMIT);
+    else store.put(seconds, KEY_RECORDING_LIMIT);
+  });
+};
+
+// Id of the social recording format; null records the window as it is
+export const saveRecordingFormat = (formatId: string | null): Promise<void> => {
+  return writeTransaction([SETTINGS_STORE], (tx) => {
+    const store = tx.objectStore(SETTINGS_STORE);
+    if (formatId === null) store.delete(KEY_RECORDING_FORMAT);
+    else store.put(formatId, KEY_RECORDING_FORMAT);
+  });
+};
+
+// Intro/outro cards and watermark for recordings, including an uploaded logo
+export const saveTitleCards = (settings: TitleCardSettings): Promise<void> => {
+  return writeTransaction([SETTINGS_STORE], (tx) => {
+    tx.objectStore(SETTINGS_STORE).put(settings, KEY_TITLE_CARDS);
+  });
+};
+
+// UI language chosen in the app; without one the browser's language is used
+export const saveLanguage = (language: string): Promise<void> => {
+  return writeTransaction([SETTINGS_STORE], (tx) => {
+    tx.objectStore(SETTINGS_STORE).put(language, KEY_LANGUAGE);
+  });
+};
+
+// Photo time, flip and loop choices for the slideshow tour
+export const saveTourSettings = (settings: TourSettings): Promise<void> => {
+  return writeTransaction([SETTINGS_STORE], (tx) => {
+    tx.objectStore(SETTINGS_STORE).put(settings, KEY_TOUR);
+  });
+};
+
+// Template, type and branding of the generated photo backs
+export const saveBackFace = (settings: BackFaceSettings): Promise<void> => {
+  return writeTransaction([SETTINGS_STORE], (tx) => {
+    tx.objectStore(SETTINGS_STORE).put(settings, KEY_BACK_FACE);
+  });
+};
+
+// Whether state changes play a chime
+export const saveTransitionChime = (enabled: boolean): Promise<void> => {
+  return writeTransaction([SETTINGS_STORE], (tx) => {
+    tx.objectStore(SETTINGS_STORE).put(enabled, KEY_TRANSITION_CHIME);
+  });
+};
+
+// Rehydrate everything saved by a previous session.
+// onProgress is called after each photo so the caller can show restore progress.
+export const loadScene = async (
+  onProgress?: (loaded: number, total: number) => void
+): Promise<RestoredScene> => {
+  const order = (await readValue<string[]>(SETTINGS_STORE, KEY_PHOTO_ORDER)) ?? [];
+  const photos: PhotoItem[] = [];
+
+  for (let i = 0; i < order.length; i++) {
+    const stored = await readValue<StoredPhoto>(PHOTO_STORE, order[i]);
+    // Skip entries whose blob went missing (e.g. partially cleared storage)
+    if (stored) {
+      photos.push({
+        id: stored.id,
+        url: URL.createObjectURL(stored.blob),
+        height: stored.height,
+        caption: stored.caption,
+        backUrl: stored.backBlob ? URL.createObjectURL(stored.backBlob) : undefined,
+      });
+    }
+    onProgress?.(i + 1, order.length);
+  }
+
+  const backBlob = await readValue<Blob>(SETTINGS_STORE, KEY_BACK_IMAGE);
+  const backText = await readValue<string>(SETTINGS_STORE, KEY_BACK_TEXT);
+  const seed = await readValue<number>(SETTINGS_STORE, KEY_SEED);
+  const shapeId = await readValue<string>(SETTINGS_STORE, KEY_SHAPE);
+  const stateSequence = await readValue<TreeState[]>(SETTINGS_STORE, KEY_STATE_SEQUENCE);
+  const themeId = await readValue<string>(SETTINGS_STORE, KEY_THEME);
+  const qualityMode = await readValue<string>(SETTINGS_STORE, KEY_QUALITY);
+  const cameraPaths = await readValue<CameraPath[]>(SETTINGS_STORE, KEY_CAMERA_PATHS);
+  const soundtrack = await readValue<SoundtrackSettings>(SETTINGS_STORE, KEY_SOUNDTRACK);
+  const recordingLimit = await readValue<number>(SETTINGS_STORE, KEY_RECORDING_LIMIT);
+  const recordingFormat = await readValue<string>(SETTINGS_STORE, KEY_RECORDING_FORMAT);
+  const titleCards = await readValue<TitleCardSettings>(SETTINGS_STORE, KEY_TITLE_CARDS);
+  const language = await readValue<string>(SETTINGS_STORE, KEY_LANGUAGE);
+  const tour = await readValue<TourSettings>(SETTINGS_STORE, KEY_TOUR);
+  const backFace = await readValue<BackFaceSettings>(SETTINGS_STORE, KEY_BACK_FACE);
+  const transitionChime = await readValue<boolean>(SETTINGS_STORE, KEY_TRANSITION_CHIME);
+
+  return {
+    photos,
+    backImgUrl: backBlob ? URL.createObjectURL(backBlob) : null,
+    backText: backText ?? null,
+    seed: seed ?? null,
+    shapeId: shapeId ?? null,
+    stateSequence: stateSequence ?? null,
+    themeId: themeId ?? null,
+    qualityMode: qualityMode ?? null,
+    cameraPaths: cameraPaths ?? null,
+    soundtrack: soundtrack ?? null,
+    recordingLimit: recordingLimit ?? null,
+    recordingFormat: recordingFormat ?? null,
+    titleCards: titleCards ?? null,
+    language: language ?? null,
+    tour: tour ?? null,
+    backFace: backFace ?? null,
+    transitionChime: transitionChime ?? null,
+  };
+};
@@ -0,0 +1,124 @@
+// Colour themes shared by the 3D scene (materials, lights, sparkles, background)
+// and the Tailwind UI chrome, which reads the luxury-* CSS variables set here.
+
+export interface Theme {
+  id: string;
+  label: string;
+  background: string; // Canvas clear colour and page background
+  foliage: [string, string, string]; // Base, leaf and accent flecks
+  ornaments: {
+    box: string[];
+    ball: string[];
+    light: string[];
+    glow: string; // Emissive colour of the small lights
+  };
+  frame: string; // Polaroid frame metal
+  star: {
+    emissive: string;
+    swarm: string[];
+  };
+  lights: {
+    key: string;
+    fill: string;
+  };
+  sparkles: string;
+  ui: {
+    accent: string;
+    accentLight: string;
+    accentDark: string;
+    surface: string;
+    surfaceDark: string;
+  };
+}
+
+export const DEFAULT_THEME_ID = 'classic';
+
+const themes: Theme[] = [
+  {
+    id: 'classic',
+    label: 'Classic',
+    background: '#011510',
+    foliage: ['#012115', '#0F5132', '#D4AF37'],
+    ornaments: {
+      box: ['#8B0000', '#D4AF37', '#ffffff'],
+      ball: ['#D4AF37', '#FF0000', '#C0C0C0', '#0F5132'],
+      light: ['#FFD700'],
+      glow: '#ffaa00',
+    },
+    frame: '#D4AF37',
+    star: { emissive: '#FEDC56', swarm: ['#FEDC56', '#FFFFFF', '#D4AF37'] },
+    lights: { key: '#FEDC56', fill: '#043927' },
+    sparkles: '#D4AF37',
+    ui: { accent: '#D4AF37', accentLight: '#FEDC56', accentDark: '#AA8C2C', surface: '#043927', surfaceDark: '#012115' },
+  },
+  {
+    id: 'silver-frost',
+    label: 'Silver Frost',
+    background: '#0A1420',
+    foliage: ['#0E2233', '#5B7C99', '#E8F1F8'],
+    ornaments: {
+      box: ['#B0C4DE', '#FFFFFF', '#708090'],
+      ball: ['#DDE6EE', '#9FB6CD', '#C0C0C0', '#4F6D8A'],
+      light: ['#E0F4FF'],
+      glow: '#A8D8FF',
+    },
+    frame: '#C0C8D0',
+    star: { emissive: '#E8F4FF', swarm: ['#E8F4FF', '#FFFFFF', '#B0C4DE'] },
+    lights: { key: '#DDEEFF', fill: '#1E3A52' },
+    sparkles: '#CFE3F2',
+    ui: { accent: '#C0C8D0', accentLight: '#EEF4F8', accentDark: '#8A96A3', surface: '#1E3A52', surfaceDark: '#0E2233' },
+  },
+  {
+    id: 'rose-gold',
+    label: 'Rose Gold',
+    background: '#1A0E12',
+    foliage: ['#2A1218', '#7A3B4A', '#E8B4A0'],
+    ornaments: {
+      box: ['#B76E79', '#F4C2C2', '#FFFFFF'],
+      ball: ['#E8B4A0', '#B76E79', '#F7E7CE', '#8E4A5A'],
+      light: ['#FFD1C1'],
+      glow: '#FF9E80',
+    },
+    frame: '#E0A890',
+    star: { emissive: '#FFD1C1', swarm: ['#FFD1C1', '#FFFFFF', '#E0A890'] },
+    lights: { key: '#FFD1C1', fill: '#4A1F2A' },
+    sparkles: '#E8B4A0',
+    ui: { accent: '#E0A890', accentLight: '#F7D4C4', accentDark: '#A8705E', surface: '#4A1F2A', surfaceDark: '#2A1218' },
+  },
+  {
+    id: 'midnight-blue',
+    label: 'Midnight Blue',
+    background: '#050A1F',
+    foliage: ['#0A1433', '#1E3A8A', '#C9D6FF'],
+    ornaments: {
+      box: ['#1E3A8A', '#C0C0C0', '#FFFFFF'],
+      ball: ['#3B5BDB', '#C9D6FF', '#C0C0C0', '#7048E8'],
+      light: ['#9EC5FF'],
+      glow: '#6FA8FF',
+    },
+    frame: '#AAB8D8',
+    star: { emissive: '#C9D6FF', swarm: ['#C9D6FF', '#FFFFFF', '#8FA8FF'] },
+    lights: { key: '#C9D6FF', fill: '#1E2A5A' },
+    sparkles: '#9EB6FF',
+    ui: { accent: '#8FA8FF', accentLight: '#C9D6FF', accentDark: '#5A6FB0', surface: '#1E2A5A', surfaceDark: '#0A1433' },
+  },
+];
+
+const byId = new Map(themes.map(t => [t.id, t]));
+
+// Unknown ids fall back to the classic theme so stale saved settings never break the scene
+export const getTheme = (id: string): Theme => byId.get(id) ?? byId.get(DEFAULT_THEME_ID)!;
+
+export const listThemes = (): Theme[] => themes;
+
+// Point the Tailwind theme variables (see index.css) at the theme's UI colours
+export const applyThemeToDocument = (theme: Theme): void => {
+  const root = document.documentElement.style;
+  root.setProperty('--color-luxury-gold', theme.ui.accent);
+  root.setProperty('--color-luxury-gold-light', theme.ui.accentLight);
+  root.setProperty('--color-luxury-gold-dark', theme.ui.accentDark);
+  root.setProperty('--color-luxury-emerald', theme.ui.surface);
+  root.setProperty('--color-luxury-emerald-dark', theme.ui.surfaceDark);
+  root.setProperty('--color-luxury-night', theme.background);
+  document.querySelector('meta[name="theme-color"]')?.setAttribute('content', theme.background);
+};
@@ -0,0 +1,172 @@
+import { getTextDirection, wrapText } from './utils.ts';
+
+// Intro and outro cards plus a corner watermark, drawn into every recorded frame by
+// the Recorder. Drawing straight onto the recording canvas keeps them in sync with
+// the footage and out of the live view.
+
+export type CardLayout = 'overlay' | 'replace';
+export type WatermarkCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+// Labels live in the message catalogues (i18n.ts), keyed by id
+export interface CardFont {
+  id: string;
+  family: string;
+}
+
+export interface TitleCardSettings {
+  intro: string; // Empty for no intro card
+  outro: string; // Empty for no outro card
+  cardSeconds: number; // How long each card stays up
+  fontId: string;
+  layout: CardLayout; // Over the 3D scene, or on a plain background in its place
+  watermarkText: string;
+  watermarkLogo: Blob | null;
+  watermarkCorner: WatermarkCorner;
+}
+
+// What the Recorder draws with: the settings plus the logo, decoded ahead of time
+export interface RecordingOverlays {
+  settings: TitleCardSettings;
+  logo: ImageBitmap | null;
+}
+
+export const CARD_FONTS: CardFont[] = [
+  { id: 'serif', family: 'Georgia, "Songti SC", "SimSun", serif' },
+  { id: 'sans', family: '"Helvetica Neue", "PingFang SC", "Microsoft YaHei", sans-serif' },
+  { id: 'script', family: '"Brush Script MT", "Kaiti SC", "KaiTi", cursive' },
+];
+
+export const CARD_SECONDS_OPTIONS = [2, 3, 5];
+
+export const WATERMARK_CORNERS: WatermarkCorner[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+
+export const DEFAULT_TITLE_CARD_SETTINGS: TitleCardSettings = {
+  intro: '',
+  outro: '',
+  cardSeconds: 3,
+  fontId: 'serif',
+  layout: 'overlay',
+  watermarkText: '',
+  watermarkLogo: null,
+  watermarkCorner: 'bottom-right',
+};
+
+// Seconds each card takes to fade in or out
+const CARD_FADE = 0.6;
+const CARD_BACKGROUND = ['#0a2a1e', '#011510']; // Centre and edge of the replacing background
+const CARD_TEXT = '#fff4d6';
+const CARD_GLOW = 'rgba(212, 175, 55, 0.7)';
+const WATERMARK_OPACITY = 0.75;
+
+export const hasIntro = (settings: TitleCardSettings): boolean => settings.intro.trim() !== '';
+export const hasOutro = (settings: TitleCardSettings): boolean => settings.outro.trim() !== '';
+
+// Whether recordings need the overlay pass at all
+export const hasOverlays = (settings: TitleCardSettings): boolean =>
+  hasIntro(settings) || hasOutro(settings) || settings.watermarkText.trim() !== '' || settings.watermarkLogo !== null;
+
+// Seconds the recording keeps running after stop is pressed, to show the outro
+export const getOutroSeconds = (settings: TitleCardSettings): number =>
+  hasOutro(settings) ? settings.cardSeconds : 0;
+
+const getFontFamily = (fontId: string): string =>
+  (CARD_FONTS.find(font => font.id === fontId) ?? CARD_FONTS[0]).family;
+
+const drawCard = (ctx: CanvasRenderingContext2D, text: string, settings: TitleCardSettings, opacity: number) => {
+  const { width, height } = ctx.canvas;
+  const fontSize = Math.round(Math.min(width, height) * 0.075);
+  const lineHeight = fontSize * 1.35;
+
+  ctx.save();
+  ctx.font = `bold ${fontSize}px ${getFontFamily(settings.fontId)}`;
+  const lines = wrapText(text.trim(), width * 0.8, line => ctx.measureText(line).width);
+  ctx.globalAlpha = opacity;
+  if (settings.layout === 'replace') {
+    const background = ctx.createRadialGradient(width / 2, height / 2, 0, width / 2, height / 2, Math.hypot(width, height) / 2);
+    background.addColorStop(0, CARD_BACKGROUND[0]);
+    background.addColorStop(1, CARD_BACKGROUND[1]);
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, width, height);
+  } else {
+    // A soft band behind the text keeps it legible over bright foliage
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.35)';
+    const bandHeight = lines.length * lineHeight + fontSize * 1.5;
+    ctx.fillRect(0, (height - bandHeight) / 2, width, bandHeight);
+  }
+
+  ctx.textAlign = 'center';
+  ctx.direction = getTextDirection(text);
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = CARD_TEXT;
+  ctx.shadowColor = CARD_GLOW;
+  ctx.shadowBlur = fontSize * 0.4;
+  const top = height / 2 - ((lines.length - 1) * lineHeight) / 2;
+  lines.forEach((line, i) => ctx.fillText(line, width / 2, top + i * lineHeight));
+  ctx.restore();
+};
+
+const drawWatermark = (ctx: CanvasRenderingContext2D, settings: TitleCardSettings, bitmap: ImageBitmap | null) => {
+  // A logo replaced mid-recording has been closed, which leaves it without a size
+  const logo = bitmap && bitmap.width > 0 ? bitmap : null;
+  const text = settings.watermarkText.trim();
+  if (!text && !logo) return;
+  const { width, height } = ctx.canvas;
+  const unit = Math.min(width, height);
+  const margin = unit * 0.04;
+  const fontSize = Math.round(unit * 0.028);
+  const logoHeight = logo ? unit * 0.08 : 0;
+  const logoWidth = logo ? (logo.width / logo.height) * logoHeight : 0;
+  const gap = logo && text ? fontSize * 0.6 : 0;
+
+  ctx.save();
+  ctx.globalAlpha = WATERMARK_OPACITY;
+  ctx.font = `${fontSize}px ${getFontFamily(settings.fontId)}`;
+  const textWidth = text ? ctx.measureText(text).width : 0;
+  const blockWidth = logoWidth + gap + textWidth;
+  const blockHeight = Math.max(logoHeight, fontSize);
+  const left = settings.watermarkCorner.endsWith('left') ? margin : width - margin - blockWidth;
+  const top = settings.watermarkCorner.startsWith('top') ? margin : height - margin - blockHeight;
+
+  if (logo) ctx.drawImage(logo, left, top + (blockHeight - logoHeight) / 2, logoWidth, logoHeight);
+  if (text) {
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = CARD_TEXT;
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+    ctx.shadowBlur = fontSize * 0.3;
+    ctx.fillText(text, left + logoWidth + gap, top + blockHeight / 2);
+  }
+  ctx.restore();
+};
+
+// Draw the overlays for one frame. `time` is seconds of footage; `outroTime` is seconds
+// since the outro began, or null before stop is pressed.
+export const drawRecordingOverlays = (ctx: CanvasRenderingContext2D, { settings, logo }: RecordingOverlays, time: number, outroTime: number | null): void => {
+  if (hasIntro(settings) && time < settings.cardSeconds) {
+    // Up from the first frame, fading out at the end
+    drawCard(ctx, settings.intro, settings, Math.min(1, (settings.cardSeconds - time) / CARD_FADE));
+  }
+  if (hasOutro(settings) && outroTime !== null) {
+    drawCard(ctx, settings.outro, settings, Math.min(1, outroTime / CARD_FADE));
+  }
+  drawWatermark(ctx, settings, logo);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Settings saved by an older build may be missing fields; fall back field by field
+export const sanitizeTitleCardSettings = (value: unknown): TitleCardSettings => {
+  if (!isRecord(value)) return DEFAULT_TITLE_CARD_SETTINGS;
+  const defaults = DEFAULT_TITLE_CARD_SETTINGS;
+  return {
+    intro: typeof value.intro === 'string' ? value.intro : defaults.intro,
+    outro: typeof value.outro === 'string' ? value.outro : defaults.outro,
+    cardSeconds: CARD_SECONDS_OPTIONS.includes(value.cardSeconds as number) ? value.cardSeconds as number : defaults.cardSeconds,
+    fontId: CARD_FONTS.some(font => font.id === value.fontId) ? value.fontId as string : defaults.fontId,
+    layout: value.layout === 'overlay' || value.layout === 'replace' ? value.layout : defaults.layout,
+    watermarkText: typeof value.watermarkText === 'string' ? value.watermarkText : defaults.watermarkText,
+    watermarkLogo: value.watermarkLogo instanceof Blob ? value.watermarkLogo : null,
+    watermarkCorner: WATERMARK_CORNERS.includes(value.watermarkCorner as WatermarkCorner) ? value.watermarkCorner as WatermarkCorner : defaults.watermarkCorner,
+  };
+};
@@ -0,0 +1,130 @@
+// Slideshow tour of the album: focuses each photo in turn, optionally flips it to its
+// back, then moves on. Like CameraRig it is created once by the app and stepped by the
+// scene each frame, so a recording of the tour keeps the same pace as the live view.
+
+export interface TourSettings {
+  photoSeconds: number; // How long each photo stays in focus
+  flip: boolean; // Turn each photo over halfway through to show its back
+  loop: boolean; // Start again from the first photo instead of ending
+}
+
+export type TourEvent =
+  // index is the photo's album position; the app resolves it against the current album
+  | { type: 'focus'; index: number }
+  | { type: 'flip'; index: number }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  // completed is false when the tour was stopped early
+  | { type: 'end'; completed: boolean };
+
+export type TourListener = (event: TourEvent) => void;
+
+export const TOUR_SECONDS_OPTIONS = [3, 5, 8, 12];
+
+export const DEFAULT_TOUR_SETTINGS: TourSettings = {
+  photoSeconds: 5,
+  flip: true,
+  loop: false,
+};
+
+// Fraction of each photo's time spent on the front when flipping
+const FLIP_AT = 0.5;
+
+export class TourController {
+  private settings: TourSettings | null = null;
+  private count = 0;
+  private index = 0;
+  private elapsed = 0; // Seconds on the current photo
+  private flipped = false;
+  private paused = false;
+  private listeners = new Set<TourListener>();
+
+  get isPlaying(): boolean { return this.settings !== null; }
+  get isPaused(): boolean { return this.paused; }
+  get currentIndex(): number { return this.index; }
+
+  // count is the number of photos in the album when the tour starts
+  play(settings: TourSettings, count: number, startIndex = 0): void {
+    if (this.settings) this.stop();
+    if (count === 0) return;
+    this.settings = settings;
+    this.count = count;
+    this.paused = false;
+    this.show(Math.min(Math.max(0, startIndex), count - 1));
+  }
+
+  pause(): void {
+    if (!this.settings || this.paused) return;
+    this.paused = true;
+    this.emit({ type: 'pause' });
+  }
+
+  // Picks up again from the start of the photo it was paused on, bringing it back
+  // into focus in case the viewer looked elsewhere meanwhile
+  resume(): void {
+    if (!this.settings || !this.paused) return;
+    this.paused = false;
+    this.emit({ type: 'resume' });
+    this.show(this.index);
+  }
+
+  stop(): void {
+    this.finish(false);
+  }
+
+  // Called once per frame by the scene
+  update(delta: number): void {
+    const settings = this.settings;
+    if (!settings || this.paused) return;
+    this.elapsed += delta;
+
+    if (settings.flip && !this.flipped && this.elapsed >= settings.photoSeconds * FLIP_AT) {
+      this.flipped = true;
+      this.emit({ type: 'flip', index: this.index });
+    }
+
+    if (this.elapsed < settings.photoSeconds) return;
+    if (this.index + 1 < this.count) this.show(this.index + 1);
+    else if (settings.loop) this.show(0);
+    else this.finish(true);
+  }
+
+  subscribe(listener: TourListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private show(index: number): void {
+    this.index = index;
+    this.elapsed = 0;
+    this.flipped = false;
+    this.emit({ type: 'focus', index });
+  }
+
+  private finish(completed: boolean): void {
+    if (!this.settings) return;
+    this.settings = null;
+    this.paused = false;
+    this.emit({ type: 'end', completed });
+  }
+
+  private emit(event: TourEvent): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Settings saved by an older build may be missing fields; fall back field by field
+export const sanitizeTourSettings = (value: unknown): TourSettings => {
+  if (!isRecord(value)) return DEFAULT_TOUR_SETTINGS;
+  const defaults = DEFAULT_TOUR_SETTINGS;
+  return {
+    photoSeconds: TOUR_SECONDS_OPTIONS.includes(value.photoSeconds as number) ? value.photoSeconds as number : defaults.photoSeconds,
+    flip: typeof value.flip === 'boolean' ? value.flip : defaults.flip,
+    loop: typeof value.loop === 'boolean' ? value.loop : defaults.loop,
+  };
+};
@@ -0,0 +1,62 @@
+// Short music box chimes marking state changes: a rising pair of notes as a transition
+// starts and a bright triad as it completes. Synthesized on demand, like the bundled
+// carols, and played on a context of their own so they never reach the music analyser.
+
+export type ChimeCue = 'start' | 'complete';
+
+// [MIDI pitch, seconds after the cue]
+const CUE_NOTES: Record<ChimeCue, [number, number][]> = {
+  start: [[79, 0], [86, 0.09]],
+  complete: [[84, 0], [88, 0.07], [91, 0.14]],
+};
+
+const RING = 1.2; // Seconds each note rings for
+const LEVEL = 0.12;
+
+const midiToFrequency = (pitch: number): number => 440 * Math.pow(2, (pitch - 69) / 12);
+
+export class TransitionChime {
+  private ctx: AudioContext | null = null;
+
+  play(cue: ChimeCue): void {
+    const ctx = this.ensureContext();
+    // Browsers suspend contexts until the page has had a user gesture; skip this cue
+    // rather than letting it sound late
+    if (ctx.state === 'suspended') {
+      ctx.resume().catch(() => {});
+      return;
+    }
+    const now = ctx.currentTime;
+    CUE_NOTES[cue].forEach(([pitch, offset]) => this.pluck(ctx, midiToFrequency(pitch), now + offset));
+  }
+
+  dispose(): void {
+    this.ctx?.close().catch(() => {});
+    this.ctx = null;
+  }
+
+  // A sine with a quieter octave partial and an exponential decay reads as a music box tine
+  private pluck(ctx: AudioContext, frequency: number, time: number): void {
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(0, time);
+    gain.gain.linearRampToValueAtTime(LEVEL, time + 0.005);
+    gain.gain.exponentialRampToValueAtTime(0.0001, time + RING);
+    gain.connect(ctx.destination);
+
+    [[1, 1], [2, 0.3]].forEach(([multiple, level]) => {
+      const partial = ctx.createGain();
+      partial.gain.value = level;
+      partial.connect(gain);
+      const oscillator = ctx.createOscillator();
+      oscillator.frequency.value = frequency * multiple;
+      oscillator.connect(partial);
+      oscillator.start(time);
+      oscillator.stop(time + RING);
+    });
+  }
+
+  private ensureContext(): AudioContext {
+    if (!this.ctx) this.ctx = new AudioContext();
+    return this.ctx;
+  }
+}
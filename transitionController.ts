@@ -0,0 +1,96 @@
+import { MathUtils } from 'three';
+import { TreeState } from './types.ts';
+
+// One clock for every state change. Foliage, ornaments, photos and the Star topper all
+// read progress from here, so a transition starts and finishes at the same moment
+// everywhere and the app (UI, sound, recording) can react to both.
+
+export const DEFAULT_TRANSITION_DURATION = 1.6; // Seconds at time scale 1
+
+export type TransitionEvent =
+  // interruptedProgress is the eased progress of the transition that was cut short (1 when idle)
+  | { type: 'start'; from: TreeState; to: TreeState; interruptedProgress: number }
+  | { type: 'complete'; state: TreeState }
+  | { type: 'pause' }
+  | { type: 'resume' };
+
+export type TransitionListener = (event: TransitionEvent) => void;
+
+export class TransitionController {
+  private fromState: TreeState;
+  private toState: TreeState;
+  private elapsed: number;
+  private paused = false;
+  private scale = 1;
+  private listeners = new Set<TransitionListener>();
+
+  constructor(initial: TreeState, readonly duration = DEFAULT_TRANSITION_DURATION) {
+    this.fromState = initial;
+    this.toState = initial;
+    this.elapsed = duration;
+  }
+
+  get from(): TreeState { return this.fromState; }
+  get to(): TreeState { return this.toState; }
+  get isPaused(): boolean { return this.paused; }
+  get timeScale(): number { return this.scale; }
+
+  // Linear 0..1, for subsystems that apply their own per-item stagger
+  get progress(): number {
+    return Math.min(1, this.elapsed / this.duration);
+  }
+
+  // The shared easing curve
+  get eased(): number {
+    return MathUtils.smootherstep(this.progress, 0, 1);
+  }
+
+  get isRunning(): boolean {
+    return this.elapsed < this.duration;
+  }
+
+  // Begin a transition towards `to` from whatever is on screen. Starting one for the
+  // current state is how layout changes (shape, seed) morph in place.
+  start(to: TreeState): void {
+    const interruptedProgress = this.eased;
+    this.fromState = this.toState;
+    this.toState = to;
+    this.elapsed = 0;
+    this.emit({ type: 'start', from: this.fromState, to, interruptedProgress });
+  }
+
+  // Called once per frame by the scene, before any subsystem reads progress
+  update(delta: number): void {
+    if (this.paused || !this.isRunning) return;
+    this.elapsed = Math.min(this.duration, this.elapsed + delta * this.scale);
+    if (!this.isRunning) this.emit({ type: 'complete', state: this.toState });
+  }
+
+  pause(): void {
+    if (this.paused) return;
+    this.paused = true;
+    this.emit({ type: 'pause' });
+  }
+
+  resume(): void {
+    if (!this.paused) return;
+    this.paused = false;
+    this.emit({ type: 'resume' });
+  }
+
+  setTimeScale(scale: number): void {
+    this.scale = Math.max(0, scale);
+  }
+
+  // Returns an unsubscribe function, so it can be returned straight from useEffect
+  subscribe(listener: TransitionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: TransitionEvent): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+}
@@ -0,0 +1,151 @@
+import { Vector3 } from 'three';
+import { TreeState } from './types.ts';
+import { Random, getRandomSpherePoint, getSpiralPoint } from './utils.ts';
+import { TreeShape, ShapePoint } from './shapes.ts';
+
+// Named morph states. Each state gives every subsystem (foliage particles, ornaments,
+// photos) its own target layout plus a little motion character (drift, orbit, topper).
+
+export type Subsystem = 'foliage' | 'ornament' | 'photo';
+
+export interface LayoutContext {
+  formedShape: TreeShape;
+  customShape: TreeShape | null;
+  customIncludesOrnaments: boolean;
+}
+
+export interface LayoutInput {
+  subsystem: Subsystem;
+  random: Random;
+  yRatio: number; // Density bias supplied by the subsystem
+  index: number;
+  total: number;
+  context: LayoutContext;
+}
+
+export interface StateDefinition {
+  id: TreeState;
+  label: string;
+  float: number; // Idle drift amplitude, 0 = perfectly still
+  spin: number; // Orbit speed around the vertical axis (rad/s)
+  showTopper: boolean;
+  samplePoint: (input: LayoutInput) => ShapePoint;
+}
+
+// Spiral slots for photos on the formed tree (height 12, base radius 5.5)
+const PHOTO_SPIRAL_HEIGHT = 12;
+const PHOTO_SPIRAL_RADIUS = 5.5;
+
+const CHAOS_RADIUS: Record<Subsystem, number> = { foliage: 15, ornament: 20, photo: 18 };
+const GALAXY_RADIUS: Record<Subsystem, number> = { foliage: 12, ornament: 12.5, photo: 14 };
+const EXPLODED_RADIUS: Record<Subsystem, number> = { foliage: 28, ornament: 30, photo: 22 };
+
+const outward = (p: Vector3): Vector3 => p.clone().normalize();
+
+const sampleChaos = ({ subsystem, random }: LayoutInput): ShapePoint => {
+  const position = getRandomSpherePoint(CHAOS_RADIUS[subsystem], random);
+  return { position, normal: outward(position) };
+};
+
+const sampleShape = (shape: TreeShape, input: LayoutInput): ShapePoint => {
+  const { subsystem, index, total, random, yRatio } = input;
+  if (subsystem === 'photo') {
+    const { position } = getSpiralPoint(index, total, PHOTO_SPIRAL_HEIGHT, PHOTO_SPIRAL_RADIUS);
+    return { position, normal: new Vector3(position.x, 0, position.z).normalize() };
+  }
+  return shape.samplePoint(yRatio, random);
+};
+
+const definitions: StateDefinition[] = [
+  {
+    id: TreeState.CHAOS,
+    label: 'Chaos',
+    float: 1,
+    spin: 0,
+    showTopper: false,
+    samplePoint: sampleChaos,
+  },
+  {
+    // Flat two-armed spiral disc slowly turning around the trunk axis
+    id: TreeState.GALAXY,
+    label: 'Galaxy',
+    float: 0.3,
+    spin: 0.25,
+    showTopper: false,
+    samplePoint: ({ subsystem, random }) => {
+      const radius = GALAXY_RADIUS[subsystem];
+      const r = radius * Math.sqrt(random());
+      const arm = random() < 0.5 ? 0 : Math.PI;
+      const theta = arm + r * 0.55 + (random() - 0.5) * 0.9;
+      const thickness = 0.8 * (1 - r / radius) + 0.1;
+      const position = new Vector3(r * Math.cos(theta), (random() - 0.5) * thickness, r * Math.sin(theta));
+      return { position, normal: outward(position) };
+    },
+  },
+  {
+    id: TreeState.FORMED,
+    label: 'Form',
+    float: 0,
+    spin: 0,
+    showTopper: true,
+    samplePoint: (input) => sampleShape(input.context.formedShape, input),
+  },
+  {
+    // Everything blown out onto a wide shell
+    id: TreeState.EXPLODED,
+    label: 'Exploded',
+    float: 0.5,
+    spin: 0,
+    showTopper: false,
+    samplePoint: ({ subsystem, random }) => {
+      const direction = getRandomSpherePoint(1, random).normalize();
+      const position = direction.multiplyScalar(EXPLODED_RADIUS[subsystem] * (0.85 + random() * 0.3));
+      return { position, normal: outward(position) };
+    },
+  },
+  {
+    // The REVEAL text/silhouette. Photos (and ornaments unless asked) stay scattered around it.
+    id: TreeState.CUSTOM,
+    label: 'Reveal',
+    float: 0,
+    spin: 0,
+    showTopper: true,
+    samplePoint: (input) => {
+      const { context, subsystem } = input;
+      const shape = context.customShape ?? context.formedShape;
+      if (subsystem === 'photo' || (subsystem === 'ornament' && !context.customIncludesOrnaments)) {
+        return sampleChaos(input);
+      }
+      return shape.samplePoint(input.yRatio, input.random);
+    },
+  },
+];
+
+const byId = new Map(definitions.map(d => [d.id, d]));
+
+export const getStateDefinition = (state: TreeState): StateDefinition => byId.get(state)!;
+
+export const listStates = (): StateDefinition[] => definitions;
+
+// The shape that anchors the Star topper in a state
+export const getTopperPosition = (state: TreeState, context: LayoutContext): Vector3 => {
+  const shape = state === TreeState.CUSTOM && context.customShape ? context.customShape : context.formedShape;
+  return shape.topperPosition;
+};
+
+export const DEFAULT_STATE_SEQUENCE: TreeState[] = [TreeState.CHAOS, TreeState.FORMED];
+
+// Next state in the cycle. States outside the sequence re-enter it at the start.
+export const getNextState = (current: TreeState, sequence: TreeState[]): TreeState => {
+  if (sequence.length === 0) return current;
+  const index = sequence.indexOf(current);
+  return sequence[(index + 1) % sequence.length];
+};
+
+// Rotate a point around the vertical axis (used for orbiting states)
+export const rotateAroundY = (p: Vector3, angle: number): Vector3 => {
+  if (angle === 0) return p;
+  const c = Math.cos(angle);
+  const s = Math.sin(angle);
+  return p.set(p.x * c + p.z * s, p.y, -p.x * s + p.z * c);
+};
@@ -28,9 +28,13 @@ export interface ThreeElements {
   pointsMaterial: any;
 }
 
+// Named morph states; their layouts live in treeStates.ts
 export enum TreeState {
   CHAOS = 'CHAOS',
-  FORMED = 'FORMED'
+  GALAXY = 'GALAXY',
+  FORMED = 'FORMED',
+  EXPLODED = 'EXPLODED',
+  CUSTOM = 'CUSTOM'
 }
 
 export interface DualPosition {
@@ -40,11 +44,26 @@ export interface DualPosition {
   targetRot?: Euler;
 }
 
+// Numbers filled into an error's message and its translations, by name
+export type ErrorParams = Record<string, number>;
+
+// A photo in the album as held by App (processed image + frame height)
+export interface PhotoItem {
+  id: string;
+  url: string;
+  height: number;
+  // Optional per-photo back face; falls back to the global message/back image
+  caption?: string;
+  backUrl?: string;
+}
+
 export interface PhotoData {
   id: string;
   url: string;
-  position: Vector3;
+  position: Vector3; // Resting position in the current tree state
   rotation: Euler;
   chaosPos: Vector3;
   frameHeight: number;
+  caption?: string;
+  backUrl?: string;
 }
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { getTextDirection, splitGraphemes, wrapText } from './utils.ts';
+
+// Every grapheme is 10 units wide, so widths read as character counts
+const measure = (text: string): number => splitGraphemes(text).length * 10;
+
+const FAMILY = '👨‍👩‍👧‍👦';
+const THUMBS_UP = '👍🏽';
+const FLAG = '🇨🇳';
+
+describe('splitGraphemes', () => {
+  it('keeps emoji sequences and combining marks whole', () => {
+    expect(splitGraphemes(`${FAMILY}${THUMBS_UP}${FLAG}é`)).toEqual([FAMILY, THUMBS_UP, FLAG, 'é']);
+  });
+});
+
+describe('wrapText', () => {
+  it('breaks between words that fit', () => {
+    expect(wrapText('the quick brown fox', 100, measure)).toEqual(['the quick', 'brown fox']);
+  });
+
+  it('keeps each paragraph on its own lines and drops blank ones', () => {
+    expect(wrapText('Wish you\n\nwere here.', 100, measure)).toEqual(['Wish you', 'were here.']);
+  });
+
+  it('never splits a ZWJ emoji sequence', () => {
+    const lines = wrapText(FAMILY.repeat(5), 20, measure);
+    expect(lines).toEqual([FAMILY.repeat(2), FAMILY.repeat(2), FAMILY]);
+  });
+
+  it('keeps emoji with the word before them', () => {
+    expect(wrapText(`Merry Christmas${THUMBS_UP}`, 100, measure)).toEqual(['Merry', `Christmas${THUMBS_UP}`]);
+  });
+
+  it('breaks Thai between words although it has no spaces', () => {
+    // สวัสดี | ปี | ใหม่: four, one and three graphemes
+    expect(wrapText('สวัสดีปีใหม่', 50, measure)).toEqual(['สวัสดีปี', 'ใหม่']);
+  });
+
+  it('breaks Chinese after punctuation without spaces', () => {
+    expect(wrapText('圣诞快乐，新年快乐', 50, measure)).toEqual(['圣诞快乐，', '新年快乐']);
+  });
+
+  it('splits a word longer than the line between graphemes', () => {
+    expect(wrapText('Supercalifragilistic', 80, measure)).toEqual(['Supercal', 'ifragili', 'stic']);
+    const accented = 'é'.repeat(6);
+    const lines = wrapText(accented, 40, measure);
+    expect(lines).toEqual(['é'.repeat(4), 'é'.repeat(2)]);
+  });
+
+  it('keeps every line within the width', () => {
+    const text = `Joyeux Noël ${FAMILY} 圣诞快乐 สวัสดีปีใหม่ Supercalifragilisticexpialidocious`;
+    for (const width of [30, 50, 70, 110]) {
+      wrapText(text, width, measure).forEach(line => expect(measure(line)).toBeLessThanOrEqual(width));
+    }
+  });
+});
+
+describe('getTextDirection', () => {
+  it('follows the first letter of the paragraph', () => {
+    expect(getTextDirection('عيد ميلاد مجيد')).toBe('rtl');
+    expect(getTextDirection('2026 שנה טובה')).toBe('rtl');
+    expect(getTextDirection('Merry مرحبا')).toBe('ltr');
+    expect(getTextDirection('圣诞快乐')).toBe('ltr');
+  });
+
+  it('treats text without letters as left to right', () => {
+    expect(getTextDirection('🎄 2026!')).toBe('ltr');
+  });
+});
@@ -1,12 +1,66 @@
-import { Vector3, MathUtils } from 'three';
+import { Vector3 } from 'three';
+
+// Random source returning floats in [0, 1), same contract as Math.random
+export type Random = () => number;
+
+// Seedable PRNG (mulberry32): the same seed always yields the same sequence
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Derive an independent seed for a named stream (e.g. 'foliage', a photo id),
+// so adding items to one stream never shifts the values of another (FNV-1a)
+export const deriveSeed = (seed: number, key: string): number => {
+  let hash = (0x811C9DC5 ^ seed) >>> 0;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+};
+
+// A fresh 32-bit seed for re-rolling the layout
+export const generateSeed = (): number => Math.floor(Math.random() * 4294967296);
+
+// Seeds are shared as plain unsigned 32-bit integers
+export const parseSeed = (value: string | null | undefined): number | null => {
+  if (!value || !/^\d+$/.test(value.trim())) return null;
+  const seed = Number(value.trim());
+  return seed <= 0xFFFFFFFF ? seed : null;
+};
+
+// Timestamp used in downloaded file names, e.g. 2024-12-24_183005
+export const getFileTimestamp = (date: Date = new Date()): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}_${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+};
+
+// Save a generated file through a temporary download link
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
 
 // Generate a random point inside a sphere
-export const getRandomSpherePoint = (radius: number): Vector3 => {
-  const u = Math.random();
-  const v = Math.random();
+export const getRandomSpherePoint = (radius: number, random: Random = Math.random): Vector3 => {
+  const u = random();
+  const v = random();
   const theta = 2 * Math.PI * u;
   const phi = Math.acos(2 * v - 1);
-  const r = Math.cbrt(Math.random()) * radius;
+  const r = Math.cbrt(random()) * radius;
   const sinPhi = Math.sin(phi);
   return new Vector3(
     r * sinPhi * Math.cos(theta),
@@ -20,14 +74,15 @@ export const getRandomSpherePoint = (radius: number): Vector3 => {
 export const getTreePoint = (
   height: number,
   baseRadius: number,
-  yRatio: number // 0 to 1
+  yRatio: number, // 0 to 1
+  random: Random = Math.random
 ): Vector3 => {
   const y = yRatio * height;
   const r = baseRadius * (1 - yRatio); // Radius decreases as we go up
-  const theta = Math.random() * Math.PI * 2;
+  const theta = random() * Math.PI * 2;
   
   // Add some noise for natural look
-  const rNoise = MathUtils.randFloatSpread(0.5);
+  const rNoise = (random() - 0.5) * 0.5;
   const finalR = Math.max(0, r + rNoise);
 
   return new Vector3(
@@ -59,105 +114,102 @@ export const getSpiralPoint = (
   };
 };
 
-// Dynamic SVG Generator for Back Photo
-export const createBackPhotoUri = (text: string, aspectRatio: number): string => {
-    // aspectRatio = height / width
-    // High-Res Reference Width (1024px for 2K quality text)
-    const WIDTH = 1024;
-    const HEIGHT = Math.round(WIDTH * aspectRatio);
-    
-    // Bottom strip for "Polaroid" logo
-    const STRIP_RATIO = 0.15;
-    const STRIP_HEIGHT = Math.max(160, Math.round(HEIGHT * STRIP_RATIO));
-    const PHOTO_HEIGHT = HEIGHT - STRIP_HEIGHT;
-    
-    // Text Logic - Scaled for 1024px width
-    const FONT_SIZE = 64;
-    const LINE_HEIGHT = 88;
-    const PADDING = 80;
-    const MAX_LINE_WIDTH = WIDTH - (PADDING * 2);
-    
+// Width of a run of text, in the same units as the wrap width
+export type MeasureText = (text: string) => number;
+
+let measureContext: CanvasRenderingContext2D | null | undefined;
+
+// Measures with the browser's own shaping, so emoji, ligatures and joined Arabic come
+// out at the width they are drawn at. Without a canvas, widths are estimated instead:
+// Latin-1 at about half an em, anything wider at a full em.
+export const createTextMeasurer = (fontSize: number, fontFamily: string, fontWeight = 'normal', fontStyle = 'normal'): MeasureText => {
+    if (measureContext === undefined) {
+        measureContext = typeof document === 'undefined' ? null : document.createElement('canvas').getContext('2d');
+    }
+    const ctx = measureContext;
+    const font = `${fontStyle} ${fontWeight} ${fontSize}px ${fontFamily}`;
+    const widths = new Map<string, number>();
+    return (text) => {
+        let width = widths.get(text);
+        if (width === undefined) {
+            if (ctx) {
+                ctx.font = font;
+                width = ctx.measureText(text).width;
+            } else {
+                width = splitGraphemes(text).reduce((sum, char) =>
+                    sum + fontSize * (char === ' ' ? 0.3 : /^[\x00-\xff]$/.test(char) ? 0.55 : 1), 0);
+            }
+            widths.set(text, width);
+        }
+        return width;
+    };
+};
+
+const graphemeSegmenter = typeof Intl.Segmenter === 'function' ? new Intl.Segmenter(undefined, { granularity: 'grapheme' }) : null;
+const wordSegmenter = typeof Intl.Segmenter === 'function' ? new Intl.Segmenter(undefined, { granularity: 'word' }) : null;
+
+// User-perceived characters: a flag, a skin-toned or ZWJ emoji, or a letter with its
+// combining marks stays in one piece
+export const splitGraphemes = (text: string): string[] =>
+    graphemeSegmenter ? Array.from(graphemeSegmenter.segment(text), ({ segment }) => segment) : Array.from(text);
+
+// A line may break after a hyphen, a slash or CJK punctuation as well as at spaces
+const BREAK_AFTER = /[-\u2010-\u2014\/\u3000-\u303f\uff00-\uffef]$/;
+
+// Pieces of a paragraph that lines may break between, each carrying its trailing space.
+// The word segmenter also finds word boundaries in scripts written without spaces
+// (Chinese, Japanese, Thai); punctuation and emoji stay with the word before them.
+const splitBreakable = (paragraph: string): string[] => {
+    if (!wordSegmenter) return paragraph.match(/[\x21-\xff]+\s*|[^\x00-\xff]\s*|\s+/gu) ?? [];
+    const pieces: string[] = [];
+    let previous: Intl.SegmentData | null = null;
+    for (const segment of wordSegmenter.segment(paragraph)) {
+        const isSpace = segment.segment.trim() === '';
+        const canBreak = previous !== null && !isSpace && (
+            previous.segment.trim() === '' ||
+            (segment.isWordLike && (previous.isWordLike || BREAK_AFTER.test(previous.segment)))
+        );
+        if (canBreak || pieces.length === 0) pieces.push(segment.segment);
+        else pieces[pieces.length - 1] += segment.segment;
+        previous = segment;
+    }
+    return pieces;
+};
+
+// Break text into lines no wider than maxWidth. Words stay whole where they fit on a
+// line; a longer one is broken between graphemes, never inside an emoji sequence.
+export const wrapText = (text: string, maxWidth: number, measure: MeasureText): string[] => {
     const lines: string[] = [];
-    
-    // Handle null/empty text
-    const rawText = text || "Wish you\nwere here.";
-    
-    const paragraphs = rawText.split('\n');
-    paragraphs.forEach(paragraph => {
-        let currentLine = '';
-        let currentWidth = 0;
-        const chars = Array.from(paragraph);
-        let wordBuffer = '';
-        let wordWidth = 0;
-        
-        const flushWord = () => {
-             if (!wordBuffer) return;
-             if (currentWidth + wordWidth > MAX_LINE_WIDTH) {
-                 if (currentLine.length > 0) {
-                     lines.push(currentLine);
-                     currentLine = wordBuffer;
-                     currentWidth = wordWidth;
-                 } else {
-                     currentLine = wordBuffer;
-                     currentWidth = wordWidth;
-                 }
-             } else {
-                 currentLine += wordBuffer;
-                 currentWidth += wordWidth;
-             }
-             wordBuffer = '';
-             wordWidth = 0;
+    text.split('\n').forEach(paragraph => {
+        let line = '';
+        const push = () => {
+            if (line.trim()) lines.push(line.trim());
+            line = '';
         };
-        
-        for (let i = 0; i < chars.length; i++) {
-            const char = chars[i];
-            const isWide = char.match(/[^\x00-\xff]/);
-            const charWidth = isWide ? FONT_SIZE : (FONT_SIZE * 0.55);
-            
-            if (isWide) {
-                flushWord();
-                if (currentWidth + charWidth > MAX_LINE_WIDTH) {
-                    if (currentLine.length > 0) lines.push(currentLine);
-                    currentLine = char;
-                    currentWidth = charWidth;
-                } else {
-                    currentLine += char;
-                    currentWidth += charWidth;
-                }
-            } else if (char === ' ') {
-                flushWord();
-                const spaceWidth = FONT_SIZE * 0.3;
-                if (currentWidth + spaceWidth <= MAX_LINE_WIDTH) {
-                    currentLine += char;
-                    currentWidth += spaceWidth;
-                }
-            } else {
-                wordBuffer += char;
-                wordWidth += charWidth;
+        for (const piece of splitBreakable(paragraph)) {
+            if (measure((line + piece).trimEnd()) <= maxWidth) {
+                line += piece;
+                continue;
+            }
+            push();
+            if (measure(piece.trimEnd()) <= maxWidth) {
+                line = piece;
+                continue;
+            }
+            for (const char of splitGraphemes(piece)) {
+                if (line.trim() && measure((line + char).trimEnd()) > maxWidth) push();
+                line += char;
             }
         }
-        flushWord();
-        if (currentLine) lines.push(currentLine);
+        push();
     });
-    
-    // Vertical Center in the black area (PHOTO_HEIGHT)
-    const totalTextHeight = lines.length * LINE_HEIGHT;
-    const startY = (PHOTO_HEIGHT - totalTextHeight) / 2 + (FONT_SIZE * 0.4);
-    
-    const textContent = lines.map((line, i) => {
-        const safeLine = line.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
-        const y = startY + (i * LINE_HEIGHT);
-        return `<text x="50%" y="${y}" dominant-baseline="middle" text-anchor="middle" fill="white" font-family="sans-serif" font-weight="bold" font-size="${FONT_SIZE}">${safeLine}</text>`;
-    }).join('');
-
-    const svg = `
-<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}">
-  <rect width="${WIDTH}" height="${HEIGHT}" fill="#f0f0f0"/>
-  <rect width="${WIDTH}" height="${PHOTO_HEIGHT}" fill="#111111"/>
-  ${textContent}
-  <text x="${WIDTH - 40}" y="${HEIGHT - (STRIP_HEIGHT/2) - 10}" text-anchor="end" fill="#333" font-family="sans-serif" font-weight="bold" font-size="48">Polaroid</text>
-  <text x="${WIDTH - 40}" y="${HEIGHT - (STRIP_HEIGHT/2) + 50}" text-anchor="end" fill="#333" font-family="monospace" font-size="40">CapyPola</text>
-</svg>
-`;
-    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg.trim())}`;
-};
\ No newline at end of file
+    return lines;
+};
+
+const RTL_SCRIPT = /[\p{Script=Arabic}\p{Script=Hebrew}\p{Script=Syriac}\p{Script=Thaana}\p{Script=Nko}]/u;
+
+// Base direction of a paragraph, taken from its first letter
+export const getTextDirection = (text: string): 'ltr' | 'rtl' => {
+    const letter = text.match(/\p{L}/u)?.[0];
+    return letter && RTL_SCRIPT.test(letter) ? 'rtl' : 'ltr';
+};
@@ -0,0 +1,170 @@
+// Minimal WebM (Matroska) writer for a single VP8/VP9 video track encoded with
+// WebCodecs. The whole file is assembled in memory once encoding has finished,
+// so every element size is known up front.
+
+type Part = Uint8Array;
+
+const textEncoder = new TextEncoder();
+
+// Element ids already include their length marker bits
+const ID = {
+  EBML: 0x1a45dfa3,
+  EBMLVersion: 0x4286,
+  EBMLReadVersion: 0x42f7,
+  EBMLMaxIDLength: 0x42f2,
+  EBMLMaxSizeLength: 0x42f3,
+  DocType: 0x4282,
+  DocTypeVersion: 0x4287,
+  DocTypeReadVersion: 0x4285,
+  Segment: 0x18538067,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  Duration: 0x4489,
+  MuxingApp: 0x4d80,
+  WritingApp: 0x5741,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackUID: 0x73c5,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  DefaultDuration: 0x23e383,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+};
+
+// Clusters hold block times as signed 16-bit offsets (milliseconds here)
+const MAX_CLUSTER_SPAN = 30000;
+
+const uintBytes = (value: number): Part => {
+  const bytes: number[] = [];
+  do {
+    bytes.unshift(value % 256);
+    value = Math.floor(value / 256);
+  } while (value > 0);
+  return new Uint8Array(bytes);
+};
+
+const sizeBytes = (size: number): Part => {
+  let length = 1;
+  while (size >= 2 ** (7 * length) - 1) length++;
+  const bytes = new Uint8Array(length);
+  let rest = size;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = rest % 256;
+    rest = Math.floor(rest / 256);
+  }
+  bytes[0] |= 0x80 >> (length - 1);
+  return bytes;
+};
+
+const partsLength = (parts: Part[]): number => parts.reduce((sum, p) => sum + p.byteLength, 0);
+
+const element = (id: number, payload: Part[]): Part[] =>
+  [uintBytes(id), sizeBytes(partsLength(payload)), ...payload];
+
+const uint = (id: number, value: number) => element(id, [uintBytes(value)]);
+
+const float = (id: number, value: number) => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return element(id, [bytes]);
+};
+
+const string = (id: number, value: string) => element(id, [textEncoder.encode(value)]);
+
+interface Block {
+  data: Uint8Array;
+  time: number; // Milliseconds
+  key: boolean;
+}
+
+const simpleBlock = (block: Block, clusterTime: number): Part[] => {
+  const header = new Uint8Array(4);
+  header[0] = 0x81; // Track number 1 as a size-style integer
+  new DataView(header.buffer).setInt16(1, block.time - clusterTime);
+  header[3] = block.key ? 0x80 : 0;
+  return element(ID.SimpleBlock, [header, block.data]);
+};
+
+export interface WebmWriter {
+  addChunk: (chunk: EncodedVideoChunk) => void;
+  finish: () => Blob;
+}
+
+const CODEC_IDS: Record<string, string> = { vp8: 'V_VP8', vp9: 'V_VP9' };
+
+export const createWebmWriter = (
+  codec: 'vp8' | 'vp9',
+  width: number,
+  height: number,
+  fps: number
+): WebmWriter => {
+  const blocks: Block[] = [];
+
+  return {
+    addChunk: (chunk) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      blocks.push({ data, time: Math.round(chunk.timestamp / 1000), key: chunk.type === 'key' });
+    },
+
+    finish: () => {
+      // Start a cluster at every keyframe so each one is an independent seek point
+      const clusters: Part[][] = [];
+      let current: Part[] = [];
+      let clusterTime = 0;
+      blocks.forEach((block, i) => {
+        if (i === 0 || block.key || block.time - clusterTime > MAX_CLUSTER_SPAN) {
+          if (current.length) clusters.push(element(ID.Cluster, current));
+          clusterTime = block.time;
+          current = [...uint(ID.Timecode, clusterTime)];
+        }
+        current.push(...simpleBlock(block, clusterTime));
+      });
+      if (current.length) clusters.push(element(ID.Cluster, current));
+
+      const frameMs = 1000 / fps;
+      const duration = blocks.length ? blocks[blocks.length - 1].time + frameMs : 0;
+
+      const header = element(ID.EBML, [
+        ...uint(ID.EBMLVersion, 1),
+        ...uint(ID.EBMLReadVersion, 1),
+        ...uint(ID.EBMLMaxIDLength, 4),
+        ...uint(ID.EBMLMaxSizeLength, 8),
+        ...string(ID.DocType, 'webm'),
+        ...uint(ID.DocTypeVersion, 2),
+        ...uint(ID.DocTypeReadVersion, 2),
+      ]);
+
+      const segment = element(ID.Segment, [
+        ...element(ID.Info, [
+          ...uint(ID.TimecodeScale, 1000000),
+          ...float(ID.Duration, duration),
+          ...string(ID.MuxingApp, 'christmas-tree'),
+          ...string(ID.WritingApp, 'christmas-tree'),
+        ]),
+        ...element(ID.Tracks, [
+          ...element(ID.TrackEntry, [
+            ...uint(ID.TrackNumber, 1),
+            ...uint(ID.TrackUID, 1),
+            ...uint(ID.TrackType, 1), // Video
+            ...string(ID.CodecID, CODEC_IDS[codec]),
+            ...uint(ID.DefaultDuration, Math.round(1e9 / fps)),
+            ...element(ID.Video, [
+              ...uint(ID.PixelWidth, width),
+              ...uint(ID.PixelHeight, height),
+            ]),
+          ]),
+        ]),
+        ...clusters.flat(),
+      ]);
+
+      return new Blob([...header, ...segment], { type: 'video/webm' });
+    },
+  };
+};
@@ -0,0 +1,95 @@
+// Uncompressed ("stored") ZIP writer. Used for PNG frame sequences, which are
+// already compressed, so skipping deflate costs almost nothing in size.
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS time and date fields
+const dosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+interface Entry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+export interface ZipWriter {
+  addFile: (name: string, data: Uint8Array) => void;
+  finish: () => Blob;
+}
+
+export const createZipWriter = (): ZipWriter => {
+  const parts: Uint8Array[] = [];
+  const entries: Entry[] = [];
+  const stamp = dosDateTime(new Date());
+  let offset = 0;
+
+  return {
+    addFile: (name, data) => {
+      const encodedName = new TextEncoder().encode(name);
+      const crc = crc32(data);
+      const header = new Uint8Array(30 + encodedName.length);
+      const view = new DataView(header.buffer);
+      view.setUint32(0, 0x04034b50, true); // Local file header
+      view.setUint16(4, 20, true); // Version needed
+      view.setUint16(10, stamp.time, true);
+      view.setUint16(12, stamp.date, true);
+      view.setUint32(14, crc, true);
+      view.setUint32(18, data.length, true); // Compressed size
+      view.setUint32(22, data.length, true);
+      view.setUint16(26, encodedName.length, true);
+      header.set(encodedName, 30);
+
+      entries.push({ name: encodedName, crc, size: data.length, offset });
+      parts.push(header, data);
+      offset += header.length + data.length;
+    },
+
+    finish: () => {
+      const central: Uint8Array[] = entries.map(entry => {
+        const record = new Uint8Array(46 + entry.name.length);
+        const view = new DataView(record.buffer);
+        view.setUint32(0, 0x02014b50, true); // Central directory header
+        view.setUint16(4, 20, true); // Version made by
+        view.setUint16(6, 20, true); // Version needed
+        view.setUint16(12, stamp.time, true);
+        view.setUint16(14, stamp.date, true);
+        view.setUint32(16, entry.crc, true);
+        view.setUint32(20, entry.size, true);
+        view.setUint32(24, entry.size, true);
+        view.setUint16(28, entry.name.length, true);
+        view.setUint32(42, entry.offset, true);
+        record.set(entry.name, 46);
+        return record;
+      });
+      const centralSize = central.reduce((sum, r) => sum + r.length, 0);
+
+      const end = new Uint8Array(22);
+      const view = new DataView(end.buffer);
+      view.setUint32(0, 0x06054b50, true); // End of central directory
+      view.setUint16(8, entries.length, true);
+      view.setUint16(10, entries.length, true);
+      view.setUint32(12, centralSize, true);
+      view.setUint32(16, offset, true);
+
+      return new Blob([...parts, ...central, end], { type: 'application/zip' });
+    },
+  };
+};